@@ -0,0 +1,105 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { MAX_SUBMISSION_BYTES } from "../../../lib/scores";
+
+describe("POST /api/scores", () => {
+  // The route reads its environment when it's loaded, so load a fresh copy
+  // per test
+  const loadRoute = () => import("./route");
+
+  beforeEach(() => {
+    vi.resetModules();
+    vi.stubEnv("SCORES_FILE", join(tmpdir(), "route-test-scores.json"));
+    vi.stubEnv("TRUST_PROXY", "");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const post = (
+    body: BodyInit,
+    headers: Record<string, string> = {},
+    init: { duplex?: "half" } = {}
+  ) =>
+    new NextRequest("http://localhost/api/scores", {
+      method: "POST",
+      headers,
+      body,
+      ...init,
+    });
+
+  it("turns away a body whose Content-Length is over the limit", async () => {
+    const { POST } = await loadRoute();
+    const response = await POST(
+      post("{}", { "content-length": String(MAX_SUBMISSION_BYTES + 1) })
+    );
+
+    expect(response.status).toBe(413);
+  });
+
+  it("stops reading a chunked body once it passes the limit", async () => {
+    const { POST } = await loadRoute();
+    let chunks = 0;
+    let cancelled = false;
+    // Never ends by itself, and sends no Content-Length
+    const body = new ReadableStream<Uint8Array>({
+      pull: (controller) => {
+        chunks++;
+        controller.enqueue(new Uint8Array(1024).fill(32));
+      },
+      cancel: () => {
+        cancelled = true;
+      },
+    });
+
+    const response = await POST(post(body, {}, { duplex: "half" }));
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toEqual({
+      error: "Submission is too large",
+    });
+    expect(cancelled).toBe(true);
+    expect(chunks * 1024).toBeLessThanOrEqual(MAX_SUBMISSION_BYTES + 2048);
+  });
+
+  it("rejects a body that isn't JSON", async () => {
+    const { POST } = await loadRoute();
+    const response = await POST(post("{"));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: "Body is not valid JSON" });
+  });
+
+  it("shares one limit between clients without TRUST_PROXY", async () => {
+    const { POST } = await loadRoute();
+    // Invalid bodies are still counted, and never reach the store
+    const submit = (address: string) =>
+      POST(post("{}", { "x-forwarded-for": address }));
+
+    for (let i = 0; i < 30; i++) {
+      expect((await submit(`10.0.0.${i}`)).status).toBe(400);
+    }
+    const limited = await submit("10.0.1.1");
+
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get("retry-after")).toBe("60");
+  });
+
+  it("limits each forwarded address with TRUST_PROXY=1", async () => {
+    vi.stubEnv("TRUST_PROXY", "1");
+    const { POST } = await loadRoute();
+    const submit = (forwarded: string) =>
+      POST(post("{}", { "x-forwarded-for": forwarded }));
+
+    for (let i = 0; i < 5; i++) {
+      expect((await submit("203.0.113.7, 10.0.0.1")).status).toBe(400);
+    }
+
+    expect((await submit("203.0.113.7")).status).toBe(429);
+    expect((await submit("198.51.100.2")).status).toBe(400);
+  });
+});
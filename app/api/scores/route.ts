@@ -0,0 +1,151 @@
+/**
+ * Scores API
+ *
+ * - GET /api/scores?game=<game>&level=<level>&limit=<n>: The highest
+ *   scores of a game (and level), highest first
+ * - POST /api/scores: Submits a score (see ScoreSubmission); returns the
+ *   stored entry and its rank with status 201
+ *
+ * Errors are returned as { error } with status 400 (invalid request), 413
+ * (body too large) or 429 (too many submissions; see the Retry-After
+ * header).
+ *
+ * Scores are kept in a JSON file (see lib/scoreStore.ts), data/scores.json
+ * by default or the path in the SCORES_FILE environment variable.
+ *
+ * Submissions are rate limited per client address when TRUST_PROXY=1 is
+ * set, i.e. when a proxy in front of the app sets X-Forwarded-For. Without
+ * it those headers could be forged, so all clients share one limit.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { join } from "node:path";
+import {
+  MAX_SUBMISSION_BYTES,
+  ScoreValidationError,
+  parseScoreQuery,
+  validateScoreSubmission,
+} from "../../../lib/scores";
+import { createScoreStore } from "../../../lib/scoreStore";
+import { createRateLimiter } from "../../../lib/rateLimit";
+
+const store = createScoreStore(
+  process.env.SCORES_FILE ?? join(process.cwd(), "data", "scores.json")
+);
+
+// Five submissions per client per minute, or thirty in total when
+// clients can't be told apart
+const submissions = createRateLimiter({ limit: 5, window: 60 });
+const sharedSubmissions = createRateLimiter({ limit: 30, window: 60 });
+const TRUST_PROXY = process.env.TRUST_PROXY === "1";
+
+/**
+ * Error Response
+ */
+function error(message: string, status: number, headers?: HeadersInit) {
+  return NextResponse.json({ error: message }, { status, headers });
+}
+
+/**
+ * Client Key
+ *
+ * Identifies the client for rate limiting by the address the request came
+ * from, as reported by the trusted proxy in front of the app.
+ *
+ * @returns The client's address, or null if it isn't known
+ */
+function clientKey(request: NextRequest) {
+  if (!TRUST_PROXY) return null;
+  const forwarded = request.headers.get("x-forwarded-for");
+  return (
+    forwarded?.split(",")[0].trim() || request.headers.get("x-real-ip") || null
+  );
+}
+
+/**
+ * Read Body
+ *
+ * Reads the request body as text, giving up as soon as it passes the size
+ * limit. Content-Length is only used to turn big bodies away early, since
+ * chunked requests don't send it.
+ *
+ * @returns The body, or null if it's larger than maxBytes
+ */
+async function readBody(request: NextRequest, maxBytes: number) {
+  if (Number(request.headers.get("content-length")) > maxBytes) return null;
+  if (!request.body) return "";
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * List Scores
+ */
+export async function GET(request: NextRequest) {
+  let query;
+  try {
+    query = parseScoreQuery(request.nextUrl.searchParams);
+  } catch (e) {
+    if (e instanceof ScoreValidationError) return error(e.message, 400);
+    throw e;
+  }
+
+  const scores = await store.list(query.game, query.level, query.limit);
+  return NextResponse.json({ scores });
+}
+
+/**
+ * Submit Score
+ */
+export async function POST(request: NextRequest) {
+  const client = clientKey(request);
+  const limit =
+    client === null
+      ? sharedSubmissions.check("shared")
+      : submissions.check(client);
+  if (!limit.allowed) {
+    return error("Too many submissions, try again later", 429, {
+      "Retry-After": String(limit.retryAfter),
+    });
+  }
+
+  const body = await readBody(request, MAX_SUBMISSION_BYTES);
+  if (body === null) return error("Submission is too large", 413);
+
+  let submission;
+  try {
+    submission = validateScoreSubmission(JSON.parse(body));
+  } catch (e) {
+    if (e instanceof SyntaxError) return error("Body is not valid JSON", 400);
+    if (e instanceof ScoreValidationError) return error(e.message, 400);
+    throw e;
+  }
+
+  const result = await store.add({
+    game: submission.game,
+    level: submission.level ?? "",
+    name: submission.name,
+    score: submission.score,
+  });
+  return NextResponse.json(result, { status: 201 });
+}
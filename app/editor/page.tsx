@@ -0,0 +1,11 @@
+import type { Metadata } from "next";
+import LevelEditor from "../../components/LevelEditor";
+
+export const metadata: Metadata = {
+  title: "Level Editor",
+  description: "Build and play-test platformer levels",
+};
+
+export default function Editor() {
+  return <LevelEditor />;
+}
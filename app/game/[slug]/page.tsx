@@ -0,0 +1,39 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import GamePlayer from "../../../components/GamePlayer";
+import { GAMES, getGame } from "../../../lib/games";
+
+interface GamePageProps {
+  params: Promise<{ slug: string }>;
+}
+
+// Every registered game is built ahead of time; other slugs are 404s
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return GAMES.map(({ slug }) => ({ slug }));
+}
+
+export async function generateMetadata({
+  params,
+}: GamePageProps): Promise<Metadata> {
+  const game = getGame((await params).slug);
+  if (!game) return {};
+
+  return {
+    title: game.title,
+    description: game.description,
+    openGraph: {
+      title: game.title,
+      description: game.description,
+      images: [game.thumbnail],
+    },
+  };
+}
+
+export default async function GamePage({ params }: GamePageProps) {
+  const { slug } = await params;
+  if (!getGame(slug)) notFound();
+
+  return <GamePlayer slug={slug} />;
+}
@@ -12,8 +12,11 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
+  title: {
+    default: "Game Framework",
+    template: "%s | Game Framework",
+  },
+  description: "Browser games built with React, Next.js and a custom game loop",
 };
 
 export default function RootLayout({
@@ -1,17 +1,6 @@
-"use client";
-
-// This is the homepage for the game, please make it have a cool background graphic and a large button to start the game that goes to /game
+import GameLauncher from "../components/GameLauncher";
 
+// The home page: pick a game from the registry (see lib/games.ts)
 export default function Home() {
-  return <></>;
-}
-
-// Example of a simple game home page
-function GameHome() {
-  return (
-    <div>
-      <h1>Simple Game Home</h1>
-      <a href="/game">Start Game</a>
-    </div>
-  );
+  return <GameLauncher />;
 }
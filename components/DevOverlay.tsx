@@ -0,0 +1,484 @@
+"use client";
+/**
+ * DevOverlay Component
+ *
+ * Developer panel rendered by GameWrapper in development builds and
+ * toggled with the ` (backquote) key, which no default binding uses. It
+ * shows:
+ * - A live log of bus events, filterable by type and text
+ * - A graph of recent frame times
+ * - The state of every bound action, the pointer and the gamepad
+ * - Values registered with useDevValue(), editable when the game allows
+ *
+ * Events and frame times are collected from mount, so the log already
+ * has the lead-up to whatever made you open the overlay.
+ */
+import { useEffect, useRef, useState } from "react";
+import {
+  useActionState,
+  useGameLoop,
+  useGamepad,
+  usePointerState,
+} from "./GameWrapper";
+import {
+  History,
+  InspectedValue,
+  InspectorEntry,
+  Inspector,
+  createHistory,
+  summarizePayload,
+} from "../lib/devtools";
+import "./DevOverlay.css";
+
+/**
+ * Overlay Settings
+ *
+ * - TOGGLE_CODE: KeyboardEvent.code of the key that opens the overlay
+ * - LOG_CAPACITY: Events kept in the log
+ * - FRAME_CAPACITY: Frames shown in the graph
+ * - REFRESH_INTERVAL: Milliseconds between panel updates while open
+ * - FRAME_EVENTS: Events sent every frame, hidden from the log by default
+ */
+const TOGGLE_CODE = "Backquote";
+const LOG_CAPACITY = 200;
+const FRAME_CAPACITY = 120;
+const REFRESH_INTERVAL = 200;
+const FRAME_EVENTS = ["tick", "fixedTick", "render"];
+
+/**
+ * Frame Graph Scale
+ *
+ * Frame times in milliseconds at the guide lines and the top of the graph.
+ */
+const FRAME_60FPS = 1000 / 60;
+const FRAME_30FPS = 1000 / 30;
+const GRAPH_MAX = 50;
+
+/**
+ * Logged Event
+ *
+ * - id: Sequence number, unique within the log
+ * - type: Event type
+ * - timestamp: When the event was emitted, in milliseconds
+ * - summary: One-line text of the payload
+ */
+interface LoggedEvent {
+  id: number;
+  type: string;
+  timestamp: number;
+  summary: string;
+}
+
+/**
+ * DevOverlay Component
+ *
+ * Collects events and frame times, and shows the panel while open.
+ *
+ * @param inspector - The wrapper's inspector, filled by useDevValue()
+ */
+export default function DevOverlay({ inspector }: { inspector: Inspector }) {
+  const { subscribe } = useGameLoop();
+  const [isOpen, setIsOpen] = useState(false);
+
+  /**
+   * Collected Data
+   *
+   * - log: Recent events, except muted types
+   * - countsRef: Events seen per type, muted ones included
+   * - muted: Types kept out of the log (mutedRef for the subscriber)
+   * - frames: Recent frame times in milliseconds
+   */
+  const [log] = useState(() => createHistory<LoggedEvent>(LOG_CAPACITY));
+  const countsRef = useRef<Map<string, number>>(new Map());
+  const nextIdRef = useRef(0);
+  const [muted, setMuted] = useState<Set<string>>(
+    () => new Set(FRAME_EVENTS)
+  );
+  const mutedRef = useRef(muted);
+  mutedRef.current = muted;
+  const [frames] = useState(() => createHistory<number>(FRAME_CAPACITY));
+
+  /**
+   * Toggle Key
+   *
+   * Listens on window like the wrapper's own keyboard input, but by key
+   * position so it works on any keyboard layout.
+   */
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== TOGGLE_CODE || e.repeat) return;
+      e.preventDefault();
+      setIsOpen((open) => !open);
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  /**
+   * Event Recording
+   *
+   * Logs every event on the bus, last of all subscribers so payloads show
+   * what the game did with them.
+   */
+  useEffect(() => {
+    return subscribe(
+      "*",
+      ({ type, timestamp, payload }) => {
+        const counts = countsRef.current;
+        counts.set(type, (counts.get(type) ?? 0) + 1);
+        if (mutedRef.current.has(type)) return;
+        log.push({
+          id: nextIdRef.current++,
+          type,
+          timestamp,
+          summary: summarizePayload(payload),
+        });
+      },
+      { priority: Number.MAX_SAFE_INTEGER }
+    );
+  }, [subscribe, log]);
+
+  // Wall-clock frame times, so slow motion doesn't look like a fast game
+  useEffect(() => {
+    return subscribe("tick", ({ payload }) => {
+      frames.push(payload.rawDeltaTime * 1000);
+    });
+  }, [subscribe, frames]);
+
+  const toggleMuted = (type: string) => {
+    setMuted((previous) => {
+      const next = new Set(previous);
+      if (!next.delete(type)) next.add(type);
+      return next;
+    });
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <DevPanel
+      inspector={inspector}
+      log={log}
+      counts={countsRef.current}
+      muted={muted}
+      onToggleMuted={toggleMuted}
+      frames={frames}
+      onClose={() => setIsOpen(false)}
+    />
+  );
+}
+
+/**
+ * Dev Panel
+ *
+ * The open overlay. Re-renders on a timer, since the data it shows
+ * changes every frame.
+ */
+function DevPanel({
+  inspector,
+  log,
+  counts,
+  muted,
+  onToggleMuted,
+  frames,
+  onClose,
+}: {
+  inspector: Inspector;
+  log: History<LoggedEvent>;
+  counts: Map<string, number>;
+  muted: Set<string>;
+  onToggleMuted: (type: string) => void;
+  frames: History<number>;
+  onClose: () => void;
+}) {
+  const { fps, isPaused, timeScale } = useGameLoop();
+  const [filter, setFilter] = useState("");
+  const [, setRevision] = useState(0);
+
+  useEffect(() => {
+    const refresh = () => setRevision((revision) => revision + 1);
+    const interval = window.setInterval(refresh, REFRESH_INTERVAL);
+    // Show values registered or removed in between right away
+    const unsubscribe = inspector.subscribe(refresh);
+    return () => {
+      window.clearInterval(interval);
+      unsubscribe();
+    };
+  }, [inspector]);
+
+  const query = filter.trim().toLowerCase();
+  const events = log
+    .items()
+    .filter(
+      ({ type, summary }) =>
+        !muted.has(type) &&
+        (query === "" || `${type} ${summary}`.toLowerCase().includes(query))
+    )
+    .reverse();
+
+  return (
+    <div
+      className="dev-overlay"
+      // Typing in the panel shouldn't drive the game
+      onKeyDown={(e) => {
+        if (e.code !== TOGGLE_CODE) e.stopPropagation();
+      }}
+      onKeyUp={(e) => e.stopPropagation()}
+    >
+      <header className="dev-overlay-header">
+        <strong>Dev</strong>
+        <span>
+          {fps} fps{timeScale !== 1 && ` · ×${timeScale}`}
+          {isPaused && " · paused"}
+        </span>
+        <button type="button" onClick={onClose} aria-label="Close">
+          ×
+        </button>
+      </header>
+
+      <section>
+        <h3>Frame time</h3>
+        <FrameGraph frames={frames.items()} />
+      </section>
+
+      <section>
+        <h3>Input</h3>
+        <InputState />
+      </section>
+
+      <section>
+        <h3>Inspector</h3>
+        <InspectorPanel entries={inspector.entries()} />
+      </section>
+
+      <section>
+        <h3>Events</h3>
+        <div className="dev-overlay-types">
+          {Array.from(counts, ([type, count]) => (
+            <button
+              key={type}
+              type="button"
+              className={muted.has(type) ? "muted" : undefined}
+              onClick={() => onToggleMuted(type)}
+              title={muted.has(type) ? "Show in log" : "Hide from log"}
+            >
+              {type} {count}
+            </button>
+          ))}
+        </div>
+        <div className="dev-overlay-row">
+          <input
+            type="search"
+            placeholder="Filter events"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+          />
+          <button type="button" onClick={() => log.clear()}>
+            Clear
+          </button>
+        </div>
+        <ol className="dev-overlay-log">
+          {events.map(({ id, type, timestamp, summary }) => (
+            <li key={id}>
+              <span className="dev-overlay-time">
+                {(timestamp / 1000).toFixed(2)}
+              </span>{" "}
+              <span className="dev-overlay-type">{type}</span> {summary}
+            </li>
+          ))}
+        </ol>
+      </section>
+    </div>
+  );
+}
+
+/**
+ * Frame Graph
+ *
+ * One bar per frame, colored by whether it made 60fps, 30fps or neither,
+ * with guide lines at both.
+ */
+function FrameGraph({ frames }: { frames: number[] }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context) return;
+
+    const { width, height } = canvas;
+    const toY = (ms: number) =>
+      height - (Math.min(ms, GRAPH_MAX) / GRAPH_MAX) * height;
+    const barWidth = width / FRAME_CAPACITY;
+
+    context.clearRect(0, 0, width, height);
+    frames.forEach((ms, index) => {
+      context.fillStyle =
+        ms <= FRAME_60FPS + 1
+          ? "#50fa7b"
+          : ms <= FRAME_30FPS + 1
+            ? "#f1fa8c"
+            : "#ff5555";
+      const y = toY(ms);
+      context.fillRect(index * barWidth, y, barWidth, height - y);
+    });
+
+    context.strokeStyle = "rgba(255, 255, 255, 0.4)";
+    [FRAME_60FPS, FRAME_30FPS].forEach((ms) => {
+      context.beginPath();
+      context.moveTo(0, toY(ms));
+      context.lineTo(width, toY(ms));
+      context.stroke();
+    });
+  });
+
+  const average =
+    frames.length > 0
+      ? frames.reduce((sum, ms) => sum + ms, 0) / frames.length
+      : 0;
+  const worst = frames.length > 0 ? Math.max(...frames) : 0;
+
+  return (
+    <>
+      <canvas ref={canvasRef} width={288} height={60} />
+      <div className="dev-overlay-row">
+        <span>avg {average.toFixed(1)} ms</span>
+        <span>max {worst.toFixed(1)} ms</span>
+      </div>
+    </>
+  );
+}
+
+/**
+ * Input State
+ *
+ * Every bound action (highlighted while pressed), the pointer and the
+ * first gamepad.
+ */
+function InputState() {
+  const actions = useActionState();
+  const pointer = usePointerState();
+  const gamepad = useGamepad();
+  const round = (value: number) => Math.round(value);
+  const stick = ({ x, y }: { x: number; y: number }) =>
+    `${x.toFixed(2)}, ${y.toFixed(2)}`;
+
+  return (
+    <>
+      <div className="dev-overlay-actions">
+        {Object.entries(actions).map(([action, pressed]) => (
+          <span key={action} className={pressed ? "pressed" : undefined}>
+            {action}
+          </span>
+        ))}
+      </div>
+      <dl className="dev-overlay-values">
+        <dt>pointer</dt>
+        <dd>
+          {pointer.isInside
+            ? `${round(pointer.world.x)}, ${round(pointer.world.y)}`
+            : "outside"}
+          {pointer.isDown && " (down)"}
+        </dd>
+        <dt>gamepad</dt>
+        <dd>
+          {gamepad.connected
+            ? `L ${stick(gamepad.leftStick)} R ${stick(gamepad.rightStick)}`
+            : "none"}
+        </dd>
+      </dl>
+    </>
+  );
+}
+
+/**
+ * Inspector Panel
+ *
+ * A row per registered value; editable ones get an input.
+ */
+function InspectorPanel({
+  entries,
+}: {
+  entries: [string, InspectorEntry][];
+}) {
+  if (entries.length === 0) {
+    return (
+      <p className="dev-overlay-empty">Register values with useDevValue()</p>
+    );
+  }
+
+  return (
+    <dl className="dev-overlay-values">
+      {entries.map(([name, entry]) => (
+        <InspectorRow key={name} name={name} entry={entry} />
+      ))}
+    </dl>
+  );
+}
+
+/**
+ * Inspector Row
+ *
+ * Shows the live value; while a text or number field has focus, it shows
+ * what's being typed instead, and applies it on Enter or blur.
+ */
+function InspectorRow({
+  name,
+  entry,
+}: {
+  name: string;
+  entry: InspectorEntry;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const value = entry.get();
+
+  const format = (value: InspectedValue) =>
+    String(typeof value === "number" ? Math.round(value * 100) / 100 : value);
+
+  const commit = () => {
+    if (draft === null || !entry.set) return;
+    if (typeof value === "number") {
+      const number = Number(draft);
+      if (draft.trim() !== "" && Number.isFinite(number)) entry.set(number);
+    } else {
+      entry.set(draft);
+    }
+    setDraft(null);
+  };
+
+  let field: React.ReactNode;
+  if (!entry.set) {
+    field = format(value);
+  } else if (typeof value === "boolean") {
+    field = (
+      <input
+        type="checkbox"
+        checked={value}
+        onChange={(e) => entry.set?.(e.target.checked)}
+      />
+    );
+  } else {
+    field = (
+      <input
+        type={typeof value === "number" ? "number" : "text"}
+        step={entry.step ?? 1}
+        value={draft ?? format(value)}
+        onFocus={() => setDraft(format(value))}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") commit();
+          if (e.key === "Escape") setDraft(null);
+        }}
+      />
+    );
+  }
+
+  return (
+    <>
+      <dt>{name}</dt>
+      <dd>{field}</dd>
+    </>
+  );
+}
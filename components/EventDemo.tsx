@@ -0,0 +1,89 @@
+"use client";
+import { useEffect } from "react";
+import { useGameLoop, useParticleEmitter, useParticles } from "./GameWrapper";
+import GameCanvas, { useDrawLayer } from "./GameCanvas";
+import { EmitterConfig, ParticleSystem } from "../lib/particles";
+import "./EventDemo.css";
+
+// Events declared by EventDemo on top of the built-in ones
+interface EventDemoEvents {
+  keyPressed: { message: string; timestamp: string };
+}
+
+// Sparkles burst by EventDemo on every key press
+const SPARKLE: EmitterConfig = {
+  burst: 12,
+  lifetime: [1, 3],
+  speed: [20, 80],
+  drag: 1,
+  size: { start: 24, end: 4 },
+  opacity: { start: 1, end: 0 },
+  color: ["#50fa7b", "#bd93f9", "#ff79c6", "#ffb86c", "#f1fa8c"],
+};
+
+/**
+ * Event Demo
+ *
+ * Demonstration of the event subscription system: every key press emits a
+ * game-specific event and bursts sparkles at a random spot.
+ */
+export default function EventDemo() {
+  const { subscribe, emit } = useGameLoop<EventDemoEvents>();
+  const particles = useParticles();
+
+  // Burst sparkles at a random spot whenever a key is pressed
+  useParticleEmitter<EventDemoEvents>(particles, SPARKLE, {
+    triggers: [
+      {
+        event: "keyChange",
+        when: ({ pressed }) => pressed,
+        at: () => ({
+          x: Math.random() * 400 - 200,
+          y: Math.random() * 400 - 200,
+        }),
+      },
+    ],
+  });
+
+  // Subscribe to keyChange events to announce key presses
+  useEffect(() => {
+    const unsubscribe = subscribe("keyChange", (event) => {
+      if (event.payload.pressed) {
+        const key = event.payload.key;
+
+        // Emit a game-specific event
+        emit("keyPressed", {
+          message: `Key pressed: ${key}`,
+          timestamp: new Date().toISOString(),
+        });
+      }
+    });
+
+    return unsubscribe;
+  }, [subscribe, emit]);
+
+  // Subscribe to the game-specific event for demonstration
+  useEffect(() => {
+    const unsubscribe = subscribe("keyPressed", (event) => {
+      console.log("Key pressed event received:", event.payload.message);
+    });
+
+    return unsubscribe;
+  }, [subscribe]);
+
+  return (
+    <div className="event-demo">
+      <GameCanvas>
+        <ParticleLayer particles={particles} />
+      </GameCanvas>
+      <div className="instruction">Press arrow keys to create particles</div>
+    </div>
+  );
+}
+
+// Draws EventDemo's particles
+function ParticleLayer({ particles }: { particles: ParticleSystem }) {
+  useDrawLayer((draw) => particles.draw(draw));
+
+  return null;
+}
@@ -1,6 +1,7 @@
 "use client";
 import { useState, useEffect, useRef } from "react";
 import { useGameLoop, useKeyState } from '@/hooks/gameHooks';
+import './GameExample.css';
 
 /**
  * Example game component that demonstrates using the hooks with the new import path
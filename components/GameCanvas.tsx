@@ -0,0 +1,371 @@
+"use client";
+/**
+ * GameCanvas Component
+ *
+ * Renders draw layers registered with useDrawLayer() once per frame,
+ * through one of two interchangeable backends:
+ * - canvas: A single 2D canvas, for scenes with hundreds of objects
+ * - dom: Absolutely positioned elements, handy for debugging with the
+ *   browser's element inspector
+ *
+ * Layers describe their shapes with a draw list (see lib/render.ts), so
+ * switching backends is a one-prop change with no change to game code.
+ * Drawing happens in the game loop, after physics, the camera and effects
+ * have run, without re-rendering the React tree on the canvas backend.
+ */
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import { useCamera, useGameLoop } from "./GameWrapper";
+import { EventPriority } from "../lib/eventBus";
+import {
+  DrawCommand,
+  DrawList,
+  DrawSpace,
+  createDrawList,
+  drawCommandStyle,
+  paintDrawList,
+} from "../lib/render";
+import "./GameCanvas.css";
+
+/**
+ * Render Backend Type
+ */
+export type RenderBackend = "canvas" | "dom";
+
+/**
+ * Draw Frame
+ *
+ * Passed to every draw function:
+ * - deltaTime: Scaled time in seconds since the last frame
+ * - alpha: Interpolation factor between the last two fixed ticks in
+ *   fixed-timestep mode (always 1 otherwise)
+ */
+export interface DrawFrame {
+  deltaTime: number;
+  alpha: number;
+}
+
+/**
+ * Draw Function Type
+ *
+ * Appends the layer's shapes for this frame to the list.
+ */
+export type DrawFunction = (list: DrawList, frame: DrawFrame) => void;
+
+/**
+ * Draw Layer Options
+ *
+ * - zIndex: Layers with higher values are drawn on top; equal values draw
+ *   in registration order (defaults to 0)
+ * - space: "world" to draw through the camera (the default) or "screen"
+ *   for fixed game area pixels
+ */
+export interface DrawLayerOptions {
+  zIndex?: number;
+  space?: DrawSpace;
+}
+
+/**
+ * Registered Layer
+ *
+ * - draw: Ref to the layer's latest draw function
+ * - list: Draw list reused by the layer every frame
+ * - order: Registration sequence number, breaks zIndex ties
+ */
+interface LayerEntry {
+  draw: { current: DrawFunction };
+  list: DrawList;
+  zIndex: number;
+  space: DrawSpace;
+  order: number;
+}
+
+/**
+ * DOM Layer Snapshot
+ *
+ * Commands of one layer copied at the end of a frame, for the DOM backend.
+ */
+interface DomLayer {
+  order: number;
+  space: DrawSpace;
+  commands: DrawCommand[];
+}
+
+/**
+ * Render Context Value
+ *
+ * - addLayer: Register a layer, returns a function to remove it
+ */
+interface RenderContextValue {
+  addLayer: (layer: Omit<LayerEntry, "order">) => () => void;
+}
+
+const RenderContext = createContext<RenderContextValue | null>(null);
+
+/**
+ * useDrawLayer Hook
+ *
+ * Draws a layer into the surrounding GameCanvas every frame. The draw
+ * function may change on every render; the latest one is always used.
+ * Read positions from physics bodies, ECS components or refs rather than
+ * React state, so drawing doesn't need a React render.
+ *
+ * ```tsx
+ * useDrawLayer((draw) => {
+ *   draw.circle(ball.x, ball.y, 10, { color: "#ff79c6" });
+ * });
+ * ```
+ *
+ * @param draw - Function that appends the layer's shapes
+ * @param options - See DrawLayerOptions
+ * @throws Error if used outside of a GameCanvas
+ */
+export function useDrawLayer(
+  draw: DrawFunction,
+  options: DrawLayerOptions = {}
+) {
+  const context = useContext(RenderContext);
+  if (!context) {
+    throw new Error("useDrawLayer must be used within a GameCanvas");
+  }
+  const { addLayer } = context;
+  const { zIndex = 0, space = "world" } = options;
+
+  const drawRef = useRef(draw);
+  drawRef.current = draw;
+
+  useEffect(() => {
+    return addLayer({ draw: drawRef, list: createDrawList(), zIndex, space });
+  }, [addLayer, zIndex, space]);
+}
+
+/**
+ * GameCanvas Props
+ *
+ * - children: Components that register draw layers (and any DOM overlay)
+ * - backend: "canvas" (default) or "dom"
+ * - className: Extra class for the container
+ */
+export interface GameCanvasProps {
+  children?: React.ReactNode;
+  backend?: RenderBackend;
+  className?: string;
+}
+
+/**
+ * Image Cache
+ *
+ * Images loaded by the canvas backend, shared by every GameCanvas.
+ */
+const imageCache = new Map<string, HTMLImageElement>();
+
+/**
+ * Get Image
+ *
+ * Starts loading an image the first time it's requested.
+ *
+ * @returns The image once it has loaded, otherwise null
+ */
+function getImage(src: string): CanvasImageSource | null {
+  let image = imageCache.get(src);
+  if (!image) {
+    image = new Image();
+    image.src = src;
+    imageCache.set(src, image);
+  }
+  return image.complete && image.naturalWidth > 0 ? image : null;
+}
+
+/**
+ * DOM Command
+ *
+ * Renders one draw command as an element for the DOM backend.
+ */
+function DomCommand({ command }: { command: DrawCommand }) {
+  const style = drawCommandStyle(command);
+  if (command.kind === "text") {
+    return <div style={style}>{command.text}</div>;
+  }
+  if (command.kind === "image" && !command.region) {
+    // Plain <img>: sources change per frame and need no optimization
+    // eslint-disable-next-line @next/next/no-img-element
+    return <img src={command.src} alt="" style={style} />;
+  }
+  return <div style={style} />;
+}
+
+/**
+ * GameCanvas Component
+ *
+ * Fills the game area and draws every registered layer once per frame.
+ * Must be placed inside a GameWrapper.
+ *
+ * @param props - See GameCanvasProps
+ */
+export function GameCanvas({
+  children,
+  backend = "canvas",
+  className,
+}: GameCanvasProps) {
+  const { subscribe, fixedDeltaTime } = useGameLoop();
+  const { viewportWidth, viewportHeight, worldToScreen, getState } =
+    useCamera();
+
+  /**
+   * Render State
+   *
+   * - layersRef: Registered layers sorted by zIndex
+   * - canvasRef: Canvas element of the canvas backend
+   * - domLayers: Last frame's commands, rendered by the DOM backend
+   */
+  const layersRef = useRef<LayerEntry[]>([]);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [domLayers, setDomLayers] = useState<DomLayer[]>([]);
+
+  /**
+   * Add Layer
+   *
+   * Stable for the canvas's lifetime so layers only register once.
+   */
+  const [addLayer] = useState(() => {
+    let nextOrder = 0;
+    return (layer: Omit<LayerEntry, "order">) => {
+      const entry = { ...layer, order: nextOrder++ };
+      layersRef.current = [...layersRef.current, entry].sort(
+        (a, b) => a.zIndex - b.zIndex || a.order - b.order
+      );
+      return () => {
+        layersRef.current = layersRef.current.filter(
+          (existing) => existing !== entry
+        );
+      };
+    };
+  });
+
+  /**
+   * Canvas Size
+   *
+   * Matches the canvas's pixel size to the game area and the screen's
+   * pixel density, so shapes stay sharp.
+   */
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(viewportWidth * ratio);
+    canvas.height = Math.round(viewportHeight * ratio);
+  }, [backend, viewportWidth, viewportHeight]);
+
+  /**
+   * Frame Rendering
+   *
+   * Collects every layer's draw list after the camera and effects have
+   * updated, then paints the canvas or publishes the lists to the DOM
+   * backend. In fixed-timestep mode it runs on "render" to get the
+   * interpolation alpha.
+   */
+  useEffect(() => {
+    const fixed = fixedDeltaTime !== null;
+
+    return subscribe(
+      fixed ? "render" : "tick",
+      (event) => {
+        const frame: DrawFrame = {
+          deltaTime: event.payload.deltaTime,
+          alpha: "alpha" in event.payload ? event.payload.alpha : 1,
+        };
+        const layers = layersRef.current;
+        layers.forEach((layer) => {
+          layer.list.clear();
+          layer.draw.current(layer.list, frame);
+        });
+
+        if (backend === "dom") {
+          setDomLayers(
+            layers.map((layer) => ({
+              order: layer.order,
+              space: layer.space,
+              commands: layer.list.commands.slice(),
+            }))
+          );
+          return;
+        }
+
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext("2d");
+        if (!canvas || !ctx) return;
+
+        const ratio = canvas.width / Math.max(canvas.clientWidth, 1);
+        const { zoom } = getState();
+        const origin = worldToScreen({ x: 0, y: 0 });
+
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        layers.forEach((layer) => {
+          if (layer.space === "world") {
+            ctx.setTransform(
+              ratio * zoom,
+              0,
+              0,
+              ratio * zoom,
+              ratio * origin.x,
+              ratio * origin.y
+            );
+          } else {
+            ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+          }
+          paintDrawList(ctx, layer.list.commands, getImage);
+        });
+      },
+      { priority: EventPriority.Render }
+    );
+  }, [subscribe, fixedDeltaTime, backend, worldToScreen, getState]);
+
+  // Start the DOM backend empty when switching to it
+  useEffect(() => {
+    setDomLayers([]);
+  }, [backend]);
+
+  /**
+   * World Transform
+   *
+   * Same mapping the canvas backend applies to world layers.
+   */
+  const { zoom } = getState();
+  const origin = worldToScreen({ x: 0, y: 0 });
+  const worldTransform = `translate(${origin.x}px, ${origin.y}px) scale(${zoom})`;
+
+  return (
+    <RenderContext.Provider value={{ addLayer }}>
+      <div className={`game-canvas ${className ?? ""}`}>
+        {backend === "canvas" ? (
+          <canvas ref={canvasRef} className="game-canvas-surface" />
+        ) : (
+          domLayers.map((layer) => (
+            <div
+              key={layer.order}
+              className="game-canvas-layer"
+              style={
+                layer.space === "world"
+                  ? { transform: worldTransform }
+                  : undefined
+              }
+            >
+              {layer.commands.map((command, index) => (
+                <DomCommand key={index} command={command} />
+              ))}
+            </div>
+          ))
+        )}
+        {children}
+      </div>
+    </RenderContext.Provider>
+  );
+}
+
+export default GameCanvas;
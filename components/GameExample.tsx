@@ -0,0 +1,127 @@
+"use client";
+import { useEffect, useState } from "react";
+import {
+  useAnimation,
+  useGameLoop,
+  useKeyState,
+  useSaveState,
+} from "./GameWrapper";
+import GameCanvas, { useDrawLayer } from "./GameCanvas";
+import { AnimationMachine, AnimationMachineConfig } from "../lib/animation";
+import { parseAtlas } from "../lib/sprites";
+import { expectNumbers } from "../lib/save";
+import heroAtlas from "../public/sprites/hero.json";
+import "./GameExample.css";
+
+// Hero sprite sheet shared by the examples (public/sprites/hero.svg)
+const HERO_SHEET = parseAtlas(heroAtlas, { basePath: "/sprites/" });
+
+// What GameExample's animation states are picked from
+interface HeroInput {
+  moving: boolean;
+  boosting: boolean;
+}
+
+type HeroAnimation = "idle" | "run" | "fly";
+
+// Animation states for the hero: fly while boosting, run while moving
+const HERO_ANIMATION: AnimationMachineConfig<HeroAnimation, HeroInput> = {
+  clips: {
+    idle: { frames: ["idle_0", "idle_1"], fps: 2 },
+    run: { frames: ["run_0", "run_1", "run_2", "run_3"], fps: 12 },
+    fly: { frames: ["fly_0", "fly_1"], fps: 6 },
+  },
+  initial: "idle",
+  transitions: [{ to: "fly", when: ({ boosting }) => boosting }],
+  states: {
+    idle: {
+      clip: "idle",
+      transitions: [{ to: "run", when: ({ moving }) => moving }],
+    },
+    run: {
+      clip: "run",
+      transitions: [{ to: "idle", when: ({ moving }) => !moving }],
+    },
+    fly: {
+      clip: "fly",
+      transitions: [{ to: "idle", when: ({ boosting }) => !boosting }],
+    },
+  },
+};
+
+/**
+ * Game Example
+ *
+ * A hero that walks around the screen with the arrow keys and flies while
+ * Space is held. Its position is kept in saves (see useSaveState()).
+ */
+export default function GameExample() {
+  // useKeyState gives you a bunch of booleans for if the keys are pressed
+  const { ArrowUp, ArrowDown, ArrowLeft, ArrowRight, Space } = useKeyState();
+  const { deltaTime } = useGameLoop();
+  const [position, setPosition] = useState({ x: 0, y: 0 });
+
+  // Keep the player's position in the autosave
+  useSaveState(
+    "player",
+    () => position,
+    (saved) => {
+      const { x, y } = expectNumbers(saved, ["x", "y"]);
+      setPosition({ x, y });
+    }
+  );
+
+  // Game loop to update position using the game loop's deltaTime
+  useEffect(() => {
+    const tick = () => {
+      setPosition((prev) => {
+        const baseSpeed = 120; // units per second
+        const speed = Space ? baseSpeed * 2.5 : baseSpeed;
+        const frameSpeed = speed * deltaTime; // scale by deltaTime for smooth movement
+
+        let x = prev.x;
+        let y = prev.y;
+
+        if (ArrowUp) y -= frameSpeed;
+        if (ArrowDown) y += frameSpeed;
+        if (ArrowLeft) x -= frameSpeed;
+        if (ArrowRight) x += frameSpeed;
+
+        return { x, y };
+      });
+    };
+
+    // Only update when deltaTime changes (which happens every frame)
+    tick();
+  }, [ArrowUp, ArrowDown, ArrowLeft, ArrowRight, Space, deltaTime]);
+
+  // Animate the player from the key state
+  const isMoving = ArrowUp || ArrowDown || ArrowLeft || ArrowRight;
+  const animation = useAnimation(HERO_ANIMATION, () => ({
+    moving: isMoving,
+    boosting: Space,
+  }));
+
+  return (
+    <div className="game">
+      <GameCanvas>
+        <PlayerLayer position={position} animation={animation} />
+      </GameCanvas>
+    </div>
+  );
+}
+
+// Draws GameExample's player
+function PlayerLayer({
+  position,
+  animation,
+}: {
+  position: { x: number; y: number };
+  animation: AnimationMachine<HeroAnimation, HeroInput>;
+}) {
+  useDrawLayer((draw) => {
+    animation.draw(draw, HERO_SHEET, position.x, position.y, 80, 80);
+  });
+
+  return null;
+}
@@ -0,0 +1,260 @@
+"use client";
+/**
+ * GameLauncher Component
+ *
+ * The home page: a large start button and a grid of every game in the
+ * registry (see lib/games.ts) with its thumbnail, controls and the
+ * player's local best score. The last game played is offered first.
+ *
+ * The launcher runs inside its own GameWrapper, so it can be driven with
+ * the keyboard (arrows/WASD and Enter) or a gamepad (d-pad/stick and A)
+ * as well as the mouse. Tab still moves focus as usual.
+ */
+import { useEffect, useRef, useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import GameWrapper, { useGameLoop } from "./GameWrapper";
+import { GAMES, GameInfo, loadLastPlayed } from "../lib/games";
+import { getBestScore, loadBestScores } from "../lib/scores";
+import "./GameLauncher.css";
+
+// Menu actions; keyboard focus keeps working alongside them
+const MENU_BINDINGS = {
+  up: ["ArrowUp", "w", "Pad:DPadUp", "Pad:LeftStickUp"],
+  down: ["ArrowDown", "s", "Pad:DPadDown", "Pad:LeftStickDown"],
+  left: ["ArrowLeft", "a", "Pad:DPadLeft", "Pad:LeftStickLeft"],
+  right: ["ArrowRight", "d", "Pad:DPadRight", "Pad:LeftStickRight"],
+  confirm: ["Enter", "Space", "Pad:A", "Pad:Start"],
+};
+
+type Direction = "up" | "down" | "left" | "right";
+
+// Game started by the big button (app/game/page.tsx) and its score table
+const START = { href: "/game", game: "my-game" };
+
+/**
+ * Find Neighbor
+ *
+ * Spatial navigation: picks the element closest to `from` in a direction,
+ * preferring ones in line with it.
+ *
+ * @returns Index of the element, or -1 if there's none that way
+ */
+function findNeighbor(
+  elements: HTMLElement[],
+  from: number,
+  direction: Direction
+) {
+  const center = (element: HTMLElement) => {
+    const rect = element.getBoundingClientRect();
+    return { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+  };
+  if (!elements[from]) return -1;
+  const origin = center(elements[from]);
+
+  let best = -1;
+  let bestDistance = Infinity;
+  elements.forEach((element, index) => {
+    if (index === from) return;
+    const { x, y } = center(element);
+    const dx = x - origin.x;
+    const dy = y - origin.y;
+    const [along, across] =
+      direction === "up" || direction === "down" ? [dy, dx] : [dx, dy];
+    const forward = direction === "up" || direction === "left" ? -along : along;
+    if (forward <= 1) return;
+
+    const distance = forward + Math.abs(across) * 2;
+    if (distance < bestDistance) {
+      best = index;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+/**
+ * GameLauncher Component
+ *
+ * Wraps the menu in a GameWrapper for keyboard and gamepad input.
+ */
+export default function GameLauncher() {
+  return (
+    <GameWrapper
+      bindings={MENU_BINDINGS}
+      bindingsStorageKey={null}
+      keyDisplay="hidden"
+      autoPause={false}
+    >
+      <LauncherMenu />
+    </GameWrapper>
+  );
+}
+
+/**
+ * Launcher Menu
+ *
+ * The start button and game grid. Items are focusable links; the focused
+ * one is the selection that menu actions move and confirm.
+ */
+function LauncherMenu() {
+  const router = useRouter();
+  const { subscribe } = useGameLoop();
+
+  /**
+   * Local Progress
+   *
+   * Read from localStorage after mount, so the server render (which has
+   * no storage) matches the first client render.
+   */
+  const [lastPlayed, setLastPlayed] = useState<GameInfo | undefined>();
+  const [bestScores, setBestScores] = useState<Record<string, number>>({});
+  useEffect(() => {
+    setLastPlayed(loadLastPlayed());
+    setBestScores(loadBestScores());
+  }, []);
+
+  // The last game played first, then the rest in registry order
+  const games = lastPlayed
+    ? [lastPlayed, ...GAMES.filter((game) => game !== lastPlayed)]
+    : GAMES;
+  const hrefs = [START.href, ...games.map(({ slug }) => `/game/${slug}`)];
+
+  /**
+   * Selection
+   *
+   * - itemsRef: Focusable items in order: the start button, then the games
+   * - selectedRef: Index of the selected item, kept in step with focus
+   */
+  const itemsRef = useRef<HTMLElement[]>([]);
+  const selectedRef = useRef(0);
+  const hrefsRef = useRef(hrefs);
+  hrefsRef.current = hrefs;
+
+  const select = (index: number) => {
+    selectedRef.current = index;
+    itemsRef.current[index]?.focus();
+  };
+
+  // Start with the start button selected
+  useEffect(() => {
+    itemsRef.current[0]?.focus();
+  }, []);
+
+  /**
+   * Menu Input
+   *
+   * Moves the selection with the direction actions and opens the selected
+   * item on confirm.
+   */
+  useEffect(() => {
+    return subscribe("keyChange", ({ payload }) => {
+      if (!payload.pressed) return;
+      const items = itemsRef.current.filter(Boolean);
+      if (items.length === 0) return;
+      const current = Math.min(selectedRef.current, items.length - 1);
+
+      if (payload.key === "confirm") {
+        router.push(hrefsRef.current[current]);
+        return;
+      }
+      const next = findNeighbor(items, current, payload.key as Direction);
+      if (next !== -1) select(next);
+    });
+  }, [subscribe, router]);
+
+  const itemProps = (index: number) => ({
+    ref: (element: HTMLAnchorElement | null) => {
+      if (element) itemsRef.current[index] = element;
+    },
+    onFocus: () => {
+      selectedRef.current = index;
+    },
+    // Enter is the confirm action, which navigates above; stop the link
+    // from following itself as well
+    onKeyDown: (e: React.KeyboardEvent) => {
+      if (e.key === "Enter") e.preventDefault();
+    },
+    onMouseEnter: () => select(index),
+  });
+
+  const startBest = getBestScore(bestScores, START.game);
+
+  return (
+    <div className="launcher">
+      <div className="launcher-background" aria-hidden="true">
+        {["🦸", "✨", "🏃", "⭐", "🎮", "💥"].map((emoji, index) => (
+          <span key={index} style={{ "--i": index } as React.CSSProperties}>
+            {emoji}
+          </span>
+        ))}
+      </div>
+
+      <main className="launcher-content">
+        <h1 className="launcher-title">Game Framework</h1>
+
+        <Link
+          href={START.href}
+          className="launcher-start"
+          {...itemProps(0)}
+        >
+          Start Game
+          {startBest !== null && (
+            <span className="launcher-best">Best: {startBest}</span>
+          )}
+        </Link>
+
+        <ul className="launcher-grid">
+          {games.map((game, index) => {
+            const best = getBestScore(bestScores, game.slug);
+            return (
+              <li key={game.slug}>
+                <Link
+                  href={`/game/${game.slug}`}
+                  className="launcher-card"
+                  {...itemProps(index + 1)}
+                >
+                  {/* Unoptimized: the thumbnails are small SVGs */}
+                  <Image
+                    src={game.thumbnail}
+                    alt=""
+                    width={320}
+                    height={180}
+                    unoptimized
+                  />
+                  <div className="launcher-card-body">
+                    <h2>
+                      {game.title}
+                      {game === lastPlayed && (
+                        <span className="launcher-tag">Last played</span>
+                      )}
+                    </h2>
+                    <p>{game.description}</p>
+                    <div className="launcher-controls">
+                      {game.controls.map(({ keys, action }) => (
+                        <span key={action}>
+                          {keys.map((key) => (
+                            <kbd key={key}>{key}</kbd>
+                          ))}{" "}
+                          {action}
+                        </span>
+                      ))}
+                    </div>
+                    {best !== null && (
+                      <span className="launcher-best">Best: {best}</span>
+                    )}
+                  </div>
+                </Link>
+              </li>
+            );
+          })}
+        </ul>
+
+        <p className="launcher-hint">
+          Arrows or d-pad to choose, Enter or A to play
+        </p>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+/**
+ * GamePlayer Component
+ *
+ * Plays a game from the registry (see lib/games.ts) full screen inside
+ * its own GameWrapper, with a way back to the launcher and the game's
+ * controls.
+ */
+import { useEffect } from "react";
+import Link from "next/link";
+import GameWrapper from "./GameWrapper";
+import { getGame, saveLastPlayed } from "../lib/games";
+import "./GamePlayer.css";
+
+/**
+ * GamePlayer Props
+ *
+ * - slug: Registered game to play
+ */
+export interface GamePlayerProps {
+  slug: string;
+}
+
+/**
+ * GamePlayer Component
+ *
+ * Renders nothing for unknown slugs; the page checks the slug first.
+ * Remembers the game as the last one played, for the launcher.
+ *
+ * @param props - See GamePlayerProps
+ */
+export default function GamePlayer({ slug }: GamePlayerProps) {
+  const game = getGame(slug);
+
+  useEffect(() => {
+    if (getGame(slug)) saveLastPlayed(slug);
+  }, [slug]);
+  if (!game) return null;
+
+  const Game = game.component;
+  return (
+    <div className="game-player">
+      <GameWrapper {...game.wrapper}>
+        <Game />
+      </GameWrapper>
+
+      <header className="game-player-bar">
+        <Link href="/">← Games</Link>
+        <h1>{game.title}</h1>
+      </header>
+
+      <dl className="game-player-controls">
+        {game.controls.map(({ keys, action }) => (
+          <div key={action}>
+            <dt>
+              {keys.map((key) => (
+                <kbd key={key}>{key}</kbd>
+              ))}
+            </dt>
+            <dd>{action}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
@@ -2,143 +2,237 @@
  * GameWrapper Component
  *
  * A comprehensive game framework that provides:
- * 1. Game loop with precise timing (deltaTime, FPS tracking)
- * 2. Input handling (keyboard with WASD + arrow keys support)
- * 3. Event system (subscribe/emit pattern for game events)
- * 4. React Context for sharing game state across components
+ * 1. Game loop with precise timing (deltaTime, FPS tracking), an
+ *    optional fixed-timestep simulation mode, pause/resume and time scaling
+ * 2. Input handling (rebindable keyboard, gamepad and on-screen touch
+ *    actions, WASD + arrow keys by default, plus mouse/pointer tracking)
+ * 3. Event system (subscribe/emit pattern for game events, with priorities,
+ *    once-listeners, a wildcard and a deferred per-frame queue)
+ * 4. Input recording and deterministic replay
+ * 5. Entity Component System worlds and AABB physics driven by the game
+ *    loop, pooled particle effects, sprite animation state machines, and
+ *    a camera that maps world space onto the game area
+ * 6. Web Audio sound with music/SFX buses, a synth and event-driven sounds
+ * 7. Versioned save slots in localStorage with autosave and migrations,
+ *    and high score submission to the /api/scores routes
+ * 8. A dev overlay (` key) with an event log, frame-time graph, input
+ *    state and inspected values, left out of production builds
+ * 9. React Context for sharing game state across components
  *
  * This wrapper enables building complex games with clean component separation
  * by providing centralized game systems.
- */
-import { useEffect, useState, createContext, useContext, useRef } from "react";
-import "./GameWrapper.css";
-import KeyDisplay from "./KeyDisplay";
-
-/**
- * KeyState Interface
  *
- * Tracks the current pressed/released state of game control keys
- * including arrow keys and space bar.
+ * The loop, keyboard input and recorder live here. Gamepads, the camera,
+ * pointer input, audio, saves and the dev overlay each have a provider in
+ * providers/ that GameWrapper composes, and hooks that need no provider
+ * (useWorld(), useScoreSubmit(), ...) live in hooks/; all of their hooks
+ * are re-exported below.
  */
-interface KeyState {
-  ArrowUp: boolean;
-  ArrowDown: boolean;
-  ArrowLeft: boolean;
-  ArrowRight: boolean;
-  Space: boolean;
-}
-
-/**
- * Game Event Types
- *
- * Defines the types of events that can be emitted in the game:
- * - tick: Emitted every frame with deltaTime
- * - collision: Emitted when game objects collide
- * - keyChange: Emitted when a key is pressed or released
- * - custom: For any other game-specific events
- */
-export type GameEventType = "tick" | "collision" | "keyChange" | "custom";
-
-/**
- * Game Event Interface
- *
- * Structure for events in the game system:
- * - type: The category of event
- * - payload: Optional data associated with the event
- * - timestamp: When the event occurred
- */
-export interface GameEvent {
-  type: GameEventType;
-  payload?: any;
-  timestamp: number;
-}
-
-/**
- * Event Callback Type
- *
- * Function signature for event subscribers.
- * Takes a GameEvent as parameter.
- */
-export type EventCallback = (event: GameEvent) => void;
+import {
+  useCallback,
+  useEffect,
+  useState,
+  useRef,
+  useMemo,
+} from "react";
+import "./GameWrapper.css";
+import KeyDisplay, { KeyDisplayVisibility } from "./KeyDisplay";
+import {
+  ActionState,
+  InputBindings,
+  DEFAULT_BINDINGS_STORAGE_KEY,
+  buildInputLookup,
+  clearBindings,
+  keyStateBindings,
+  loadBindings,
+  normalizeKey,
+  saveBindings,
+} from "../lib/input";
+import { DEFAULT_DEADZONE } from "../lib/gamepad";
+import { WILDCARD, createEventBus } from "../lib/eventBus";
+import {
+  InputRecording,
+  RecordedInput,
+  createRecording,
+} from "../lib/recording";
+import {
+  Clock,
+  FrameScheduler,
+  browserClock,
+  browserScheduler,
+} from "../lib/scheduler";
+import { CameraOptions } from "../lib/camera";
+import { AudioOptions } from "../lib/audio";
+import {
+  AnyGameEvent,
+  EmitFunction,
+  EventCallback,
+  GameLoopContext,
+  KeyChangePayload,
+  SubscribeFunction,
+  SubscribeOnceFunction,
+} from "./providers/GameLoopContext";
+import { ActionContext } from "./providers/ActionContext";
+import {
+  RecorderContext,
+  ReplayOptions,
+} from "./providers/RecorderContext";
+import { GamepadProvider } from "./providers/GamepadProvider";
+import { CameraProvider } from "./providers/CameraProvider";
+import { PointerProvider } from "./providers/PointerProvider";
+import { AudioProvider } from "./providers/AudioProvider";
+import { SaveOptions, SaveProvider } from "./providers/SaveProvider";
+import { InspectorProvider } from "./providers/InspectorProvider";
 
 /**
- * React Contexts
+ * Subsystem Exports
  *
- * These contexts allow components to access the game state and systems:
- * - KeyContext: Provides the current state of game control keys
- * - GameLoopContext: Provides access to the game loop, timing, and event system
+ * The event types and each subsystem's hooks live next to their providers
+ * in components/providers/; they're re-exported here so games can keep
+ * importing everything from GameWrapper.
  */
-const KeyContext = createContext<KeyState | null>(null);
-const GameLoopContext = createContext<{
-  subscribe: (type: GameEventType, callback: EventCallback) => () => void;
-  emit: (type: GameEventType, payload?: any) => void;
-  deltaTime: number;
-  fps: number;
-} | null>(null);
+export {
+  type Point,
+  type TickPayload,
+  type FixedTickPayload,
+  type RenderPayload,
+  type CollisionPayload,
+  type KeyChangePayload,
+  type GamepadChangePayload,
+  type PointerEventPayload,
+  type ReplayEndPayload,
+  type GameEvents,
+  type GameEventType,
+  type EventPayload,
+  type GameEvent,
+  type EventCallback,
+  type AnyGameEvent,
+  type SubscribeFunction,
+  type SubscribeOnceFunction,
+  type EmitFunction,
+  useGameLoop,
+} from "./providers/GameLoopContext";
+export {
+  useActionState,
+  useInputBindings,
+  useVirtualInput,
+  useKeyState,
+} from "./providers/ActionContext";
+export {
+  type ReplayOptions,
+  useRecorder,
+} from "./providers/RecorderContext";
+export {
+  type GamepadInfo,
+  useGamepad,
+} from "./providers/GamepadProvider";
+export { useCamera } from "./providers/CameraProvider";
+export {
+  type PointerState,
+  usePointerState,
+} from "./providers/PointerProvider";
+export {
+  type SoundTrigger,
+  useAudio,
+  useSoundEvents,
+} from "./providers/AudioProvider";
+export {
+  type AutosaveOptions,
+  type SaveOptions,
+  useSaveGame,
+  useSaveState,
+} from "./providers/SaveProvider";
+export {
+  type ScoreSubmitOptions,
+  type ScoreSubmitStatus,
+  useScoreSubmit,
+} from "../hooks/useScoreSubmit";
+export { type WorldOptions, useWorld, useQuery } from "../hooks/useWorld";
+export { usePhysics } from "../hooks/usePhysics";
+export {
+  type EventTrigger,
+  useEventTriggers,
+} from "../hooks/useEventTriggers";
+export {
+  type EmitterTrigger,
+  type EmitterOptions,
+  type EmitterControls,
+  useParticles,
+  useParticleEmitter,
+} from "../hooks/useParticles";
+export { useAnimation } from "../hooks/useAnimation";
+export { useDevValue } from "./providers/InspectorProvider";
 
 /**
- * Key Mapping
+ * Pause Reason Type
  *
- * Maps physical keyboard keys to game control actions.
- * Supports both WASD and arrow keys for movement, plus space bar.
+ * Why the loop is currently paused. pause() with no reason is a "manual"
+ * pause; "hidden" and "blur" come from the auto-pause listeners and are
+ * lifted automatically when the page becomes visible/focused again. Other
+ * code can pause under its own reason (the SceneManager uses "scene") and
+ * lift only that one with resume(reason).
  */
-const keyMap: Record<string, keyof KeyState | undefined> = {
-  // WASD keys
-  w: "ArrowUp",
-  W: "ArrowUp",
-  a: "ArrowLeft",
-  A: "ArrowLeft",
-  s: "ArrowDown",
-  S: "ArrowDown",
-  d: "ArrowRight",
-  D: "ArrowRight",
-
-  // Arrow keys (direct mapping)
-  ArrowUp: "ArrowUp",
-  ArrowDown: "ArrowDown",
-  ArrowLeft: "ArrowLeft",
-  ArrowRight: "ArrowRight",
-
-  // Space bar
-  " ": "Space",
-};
+type PauseReason = string;
 
 /**
- * useKeyState Hook
+ * Fixed Timestep Defaults
  *
- * Custom hook that provides access to the current keyboard state.
- * Can be used by any component inside the GameWrapper.
- *
- * @returns Current state of game control keys
- * @throws Error if used outside of a GameWrapper
+ * - DEFAULT_MAX_FIXED_STEPS: Upper bound on fixed ticks per frame, so a slow
+ *   frame can't trigger an ever-growing catch-up ("spiral of death")
+ * - MAX_FRAME_TIME: Longest frame (in seconds) fed into the accumulator;
+ *   anything longer (tab switch, debugger pause) is treated as a stall
  */
-export function useKeyState() {
-  const context = useContext(KeyContext);
-  if (!context) {
-    throw new Error("useKeyState must be used within a GameWrapper");
-  }
-  return context;
-}
+const DEFAULT_MAX_FIXED_STEPS = 5;
+const MAX_FRAME_TIME = 0.25;
 
 /**
- * useGameLoop Hook
- *
- * Custom hook that provides access to the game loop and event system.
- * Can be used by any component inside the GameWrapper.
+ * GameWrapper Props
  *
- * @returns Object containing:
- *   - subscribe: Function to subscribe to game events
- *   - emit: Function to emit game events
- *   - deltaTime: Time in seconds since last frame
- *   - fps: Current frames per second
- * @throws Error if used outside of a GameWrapper
+ * - children: React components to render inside the game wrapper
+ * - fixedTickRate: Opt-in fixed simulation rate in ticks per second. When set,
+ *   the loop emits `fixedTick` events with a constant deltaTime and a
+ *   `render` event carrying an interpolation alpha every frame
+ * - maxFixedSteps: Maximum number of fixed ticks emitted in a single frame
+ * - autoPause: Pause the loop while the tab is hidden or the window loses
+ *   focus, and resume when it comes back (defaults to true)
+ * - bindings: Action → inputs config (defaults to the useKeyState preset)
+ * - bindingsStorageKey: localStorage key for rebound controls, or null to
+ *   keep rebinding in memory only
+ * - gamepadDeadzone: Analog stick deadzone, 0..1 (defaults to 0.25)
+ * - keyDisplay: When to show the on-screen controller: "always" (default),
+ *   "touch" for coarse-pointer devices only, or "hidden"
+ * - replay: Recording to play back instead of live input (starts on mount
+ *   and whenever a new recording is passed)
+ * - loopReplay: Start the replay over when it ends
+ * - scheduler: Where frames come from (defaults to requestAnimationFrame);
+ *   swap in createManualScheduler() to step the loop headlessly
+ * - clock: Time source for event timestamps (defaults to performance.now)
+ * - camera: Starting position, zoom and bounds of the camera (read once)
+ * - audio: Starting volumes and mute of the audio mixer (read once)
+ * - save: Save version, migrations and autosave settings (read once)
+ * - devOverlay: Let the ` key open the dev overlay (defaults to true; the
+ *   overlay is never part of production builds)
+ * - onEvent: Called with every event on the bus, typed by the game's event
+ *   map, after the game's own subscribers (e.g. for analytics)
  */
-export function useGameLoop() {
-  const context = useContext(GameLoopContext);
-  if (!context) {
-    throw new Error("useGameLoop must be used within a GameWrapper");
-  }
-  return context;
+export interface GameWrapperProps<TEvents extends object = object> {
+  children?: React.ReactNode;
+  fixedTickRate?: number;
+  maxFixedSteps?: number;
+  autoPause?: boolean;
+  bindings?: InputBindings;
+  bindingsStorageKey?: string | null;
+  gamepadDeadzone?: number;
+  keyDisplay?: KeyDisplayVisibility;
+  replay?: InputRecording;
+  loopReplay?: boolean;
+  scheduler?: FrameScheduler;
+  clock?: Clock;
+  camera?: CameraOptions;
+  audio?: AudioOptions;
+  save?: SaveOptions;
+  devOverlay?: boolean;
+  onEvent?: EventCallback<AnyGameEvent<TEvents>>;
 }
 
 /**
@@ -147,142 +241,310 @@ export function useGameLoop() {
  * The main component that sets up the game environment.
  * Provides game loop, input handling, and event system to its children.
  *
- * @param children - React components to render inside the game wrapper
+ * The optional TEvents type parameter declares the game's own events; it
+ * has no runtime effect and mirrors the one accepted by useGameLoop().
+ *
+ * @param props - See GameWrapperProps
  */
-export function GameWrapper({ children }: { children?: React.ReactNode }) {
+export function GameWrapper<TEvents extends object = object>({
+  children,
+  fixedTickRate,
+  maxFixedSteps = DEFAULT_MAX_FIXED_STEPS,
+  autoPause = true,
+  bindings: defaultBindings = keyStateBindings,
+  bindingsStorageKey = DEFAULT_BINDINGS_STORAGE_KEY,
+  gamepadDeadzone = DEFAULT_DEADZONE,
+  keyDisplay = "always",
+  replay,
+  loopReplay = false,
+  scheduler = browserScheduler,
+  clock = browserClock,
+  camera: cameraOptions,
+  audio: audioOptions,
+  save: saveOptions,
+  devOverlay = true,
+  onEvent,
+}: GameWrapperProps<TEvents>) {
   /**
-   * Keyboard State
+   * Fixed Timestep Configuration
    *
-   * Tracks which game control keys are currently pressed.
+   * Seconds per fixed tick, or null when the loop runs in variable-step mode.
    */
-  const [keyState, setKeyState] = useState<KeyState>({
-    ArrowUp: false,
-    ArrowDown: false,
-    ArrowLeft: false,
-    ArrowRight: false,
-    Space: false,
-  });
+  const fixedDeltaTime =
+    fixedTickRate && fixedTickRate > 0 ? 1 / fixedTickRate : null;
+
+  /**
+   * Input State
+   *
+   * - bindings: Active action → inputs mapping (starts from the configured
+   *   defaults, then picks up any saved rebinding after mount)
+   * - actionState: Which actions are currently pressed
+   * - heldInputsRef: For each action, the physical inputs holding it down.
+   *   An action stays pressed until every input bound to it is released,
+   *   so letting go of "w" doesn't cancel a held ArrowUp.
+   * - bindingsRef: Latest bindings, for input sources that outlive a render
+   */
+  const [bindings, setBindings] = useState<InputBindings>(defaultBindings);
+  const bindingsRef = useRef<InputBindings>(defaultBindings);
+  bindingsRef.current = bindings;
+  const defaultBindingsRef = useRef<InputBindings>(defaultBindings);
+  defaultBindingsRef.current = defaultBindings;
+  const [actionState, setActionState] = useState<ActionState>(() =>
+    Object.fromEntries(Object.keys(defaultBindings).map((a) => [a, false]))
+  );
+  const heldInputsRef = useRef<Map<string, Set<string>>>(new Map());
+
+  // The game area, which the camera and pointer input measure
+  const wrapperRef = useRef<HTMLDivElement>(null);
 
   /**
    * Game Loop State
    *
    * Tracks timing information for the game loop:
-   * - deltaTime: Time in seconds since last frame
+   * - deltaTime: Scaled time in seconds since last frame
    * - fps: Current frames per second
+   * - isPaused: Whether any pause reason is active
+   * - timeScale: Multiplier applied to every frame's deltaTime
    */
   const [deltaTime, setDeltaTime] = useState<number>(0);
   const [fps, setFps] = useState<number>(0);
+  const [isPaused, setIsPaused] = useState<boolean>(false);
+  const [timeScale, setTimeScaleState] = useState<number>(1);
 
   /**
    * Game Loop References
    *
    * Use refs to persist values across renders without triggering re-renders:
    * - frameIdRef: ID of the current animation frame for cancellation
-   * - lastFrameTimeRef: Timestamp of the previous frame
+   * - lastFrameTimeRef: Timestamp of the previous frame (null before the
+   *   first frame)
    * - fpsCounterRef: Tracks frames for FPS calculation
+   * - accumulatorRef: Unsimulated time carried over between frames in
+   *   fixed-timestep mode
+   * - pauseReasonsRef: Active pause reasons, read by the loop every frame
+   * - timeScaleRef: Current time scale, read by the loop every frame
    */
   const frameIdRef = useRef<number>(0);
-  const lastFrameTimeRef = useRef<number>(0);
+  const lastFrameTimeRef = useRef<number | null>(null);
   const fpsCounterRef = useRef<{ frames: number; elapsed: number }>({
     frames: 0,
     elapsed: 0,
   });
+  const accumulatorRef = useRef<number>(0);
+  const pauseReasonsRef = useRef<Set<PauseReason>>(new Set());
+  const timeScaleRef = useRef<number>(1);
+
+  /**
+   * Recorder State
+   *
+   * - isRecording / isReplaying: Mirrors of the refs below for rendering
+   * - recordingRef: Recording being captured, if any
+   * - recordedInputsRef: Action changes delivered this frame, attached to
+   *   the next simulated frame
+   * - replayRef: Active replay with its frame cursor and clock (in ms)
+   * - stepReplayRef: Latest replay stepping function for the game loop
+   */
+  const [isRecording, setIsRecording] = useState<boolean>(false);
+  const [isReplaying, setIsReplaying] = useState<boolean>(false);
+  const recordingRef = useRef<InputRecording | null>(null);
+  const recordedInputsRef = useRef<RecordedInput[]>([]);
+  const replayRef = useRef<{
+    recording: InputRecording;
+    frame: number;
+    time: number;
+    loop: boolean;
+  } | null>(null);
+  const stepReplayRef = useRef<() => number | null>(() => null);
+
+  /**
+   * Scheduler and Clock References
+   *
+   * Kept in refs so passing a new (e.g. inline) scheduler or clock doesn't
+   * restart the loop; the loop always uses the latest clock, and each loop
+   * run keeps the scheduler it started with.
+   */
+  const schedulerRef = useRef<FrameScheduler>(scheduler);
+  schedulerRef.current = scheduler;
+  const clockRef = useRef<Clock>(clock);
+  clockRef.current = clock;
 
   /**
    * Event System
    *
-   * Uses a Map to store event subscribers by event type.
-   * Each event type has a Set of callback functions.
+   * A single event bus per GameWrapper (see lib/eventBus.ts). The typed
+   * functions below are thin views over it; payload types are enforced at
+   * the call site by the event map. Events are timestamped with the replay
+   * clock while a replay is running.
    */
-  const subscribersRef = useRef<Map<GameEventType, Set<EventCallback>>>(
-    new Map()
+  const [bus] = useState(() =>
+    createEventBus(() =>
+      replayRef.current ? replayRef.current.time : clockRef.current()
+    )
   );
 
   /**
    * Event Subscription
    *
-   * Registers a callback function to be called when events of a specific type occur.
+   * Registers a callback function to be called when events of a specific
+   * type occur, or for every event when subscribing to "*".
    *
    * @param type - Type of event to subscribe to
    * @param callback - Function to call when event occurs
+   * @param options - Priority (lower runs first) and once behaviour
    * @returns Function to unsubscribe from the event
    */
-  const subscribe = (type: GameEventType, callback: EventCallback) => {
-    // Create a new Set for this event type if it doesn't exist
-    if (!subscribersRef.current.has(type)) {
-      subscribersRef.current.set(type, new Set());
-    }
-
-    // Get the Set of subscribers for this event type
-    const typeSubscribers = subscribersRef.current.get(type)!;
-
-    // Add the callback to the Set
-    typeSubscribers.add(callback);
+  const subscribe = bus.subscribe as SubscribeFunction;
 
-    // Return a function to unsubscribe
-    return () => {
-      // Remove the callback from the Set
-      typeSubscribers.delete(callback);
+  /**
+   * Event Callback Prop
+   *
+   * Hands every event to onEvent, last of all subscribers. The latest
+   * callback is kept in a ref so an inline function doesn't resubscribe.
+   */
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+  useEffect(() => {
+    return (bus.subscribe as SubscribeFunction<TEvents>)(
+      WILDCARD,
+      (event) => onEventRef.current?.(event),
+      { priority: Number.MAX_SAFE_INTEGER }
+    );
+  }, [bus]);
 
-      // If no more subscribers for this event type, remove the Set
-      if (typeSubscribers.size === 0) {
-        subscribersRef.current.delete(type);
-      }
-    };
-  };
+  /**
+   * One-time Event Subscription
+   *
+   * Like subscribe, but unsubscribes automatically after the first event.
+   */
+  const subscribeOnce = bus.subscribeOnce as SubscribeOnceFunction;
 
   /**
    * Event Emission
    *
-   * Broadcasts an event to all subscribers of that event type.
+   * Broadcasts an event to all subscribers of that event type immediately.
    *
    * @param type - Type of event to emit
    * @param payload - Optional data to include with the event
    */
-  const emit = (type: GameEventType, payload?: any) => {
-    // Create the event object
-    const event: GameEvent = {
-      type,
-      payload,
-      timestamp: performance.now(),
+  const emit = bus.emit as EmitFunction;
+
+  /**
+   * Deferred Event Emission
+   *
+   * Queues an event to be broadcast at the start of the next frame, before
+   * the tick event. Safe to call from DOM handlers and React state updates.
+   *
+   * @param type - Type of event to queue
+   * @param payload - Optional data to include with the event
+   */
+  const enqueue = bus.enqueue as EmitFunction;
+
+  /**
+   * Frame Start Callbacks
+   *
+   * Run at the start of every frame, even while paused, before the replay
+   * steps and queued events are delivered. Input providers poll devices
+   * here (the Gamepad API has no events for buttons).
+   *
+   * @param callback - Function to call every frame
+   * @returns Function to remove the callback
+   */
+  const [frameCallbacks] = useState(() => new Set<() => void>());
+  const [beforeFrame] = useState(() => (callback: () => void) => {
+    frameCallbacks.add(callback);
+    return () => {
+      frameCallbacks.delete(callback);
     };
+  });
 
-    // Get subscribers for this event type
-    const typeSubscribers = subscribersRef.current.get(type);
+  /**
+   * Pause Controls
+   *
+   * The loop keeps requesting frames while paused so it can pick up again
+   * without a deltaTime spike, but no tick/fixedTick/render events are
+   * emitted until every pause reason has been lifted.
+   */
+  const addPauseReason = (reason: PauseReason) => {
+    pauseReasonsRef.current.add(reason);
+    setIsPaused(true);
+    setDeltaTime(0);
+  };
 
-    // If there are subscribers, call each one with the event
-    if (typeSubscribers) {
-      typeSubscribers.forEach((callback) => callback(event));
+  const removePauseReason = (reason: PauseReason) => {
+    pauseReasonsRef.current.delete(reason);
+    setIsPaused(pauseReasonsRef.current.size > 0);
+  };
+
+  /**
+   * Pause
+   *
+   * Stops time for all game systems until resume() is called.
+   *
+   * @param reason - Why the game is paused (defaults to "manual")
+   */
+  const pause = (reason: PauseReason = "manual") => addPauseReason(reason);
+
+  /**
+   * Resume
+   *
+   * Lifts the given pause reason only. Without one it lifts every pause,
+   * including automatic ones, since a plain resume request comes from a
+   * player who is looking at the game.
+   *
+   * @param reason - Pause reason to lift, or undefined for all of them
+   */
+  const resume = (reason?: PauseReason) => {
+    if (reason !== undefined) {
+      removePauseReason(reason);
+      return;
     }
+    pauseReasonsRef.current.clear();
+    setIsPaused(false);
+  };
+
+  /**
+   * Time Scale
+   *
+   * Sets the multiplier applied to deltaTime. Negative values are clamped
+   * to 0 (time can be frozen but not reversed).
+   *
+   * @param scale - New time scale
+   */
+  const setTimeScale = (scale: number) => {
+    const clamped = Math.max(0, scale);
+    timeScaleRef.current = clamped;
+    setTimeScaleState(clamped);
   };
 
   /**
    * Game Loop Setup
    *
-   * Sets up the main game loop using requestAnimationFrame.
+   * Sets up the main game loop using the frame scheduler
+   * (requestAnimationFrame by default).
    * Calculates deltaTime, tracks FPS, and emits tick events.
    */
   useEffect(() => {
+    const frameScheduler = schedulerRef.current;
+
     /**
      * Main Game Loop Function
      *
-     * Called once per frame by requestAnimationFrame.
+     * Called once per frame by the scheduler.
      *
-     * @param timestamp - Current time provided by requestAnimationFrame
+     * @param timestamp - Current time provided by the scheduler
      */
     const gameLoop = (timestamp: number) => {
       // Initialize lastFrameTime on first frame
-      if (!lastFrameTimeRef.current) {
+      if (lastFrameTimeRef.current === null) {
         lastFrameTimeRef.current = timestamp;
       }
 
-      // Calculate delta time (time since last frame) in seconds
-      const dt = (timestamp - lastFrameTimeRef.current) / 1000;
-      setDeltaTime(dt);
+      // Calculate real delta time (time since last frame) in seconds
+      const rawDt = (timestamp - lastFrameTimeRef.current) / 1000;
 
       // Update FPS counter
       fpsCounterRef.current.frames++;
-      fpsCounterRef.current.elapsed += dt;
+      fpsCounterRef.current.elapsed += rawDt;
 
       // Update FPS display once per second
       if (fpsCounterRef.current.elapsed >= 1) {
@@ -295,116 +557,469 @@ export function GameWrapper({ children }: { children?: React.ReactNode }) {
         fpsCounterRef.current.elapsed = 0;
       }
 
+      // Poll input devices before the pause check so a pad can still unpause
+      frameCallbacks.forEach((callback) => callback());
+
+      // During a replay, feed this frame's recorded input changes in place
+      // of live input (only for frames that will actually be simulated)
+      const replayDt =
+        pauseReasonsRef.current.size > 0 ? null : stepReplayRef.current();
+
+      // Deliver events queued since the last frame (input changes, etc.)
+      // before any system runs, even while paused so menus stay responsive
+      bus.flush();
+
+      // While paused, keep the clock moving but don't advance the game
+      if (pauseReasonsRef.current.size > 0) {
+        lastFrameTimeRef.current = timestamp;
+        frameIdRef.current = frameScheduler.requestFrame(gameLoop);
+        return;
+      }
+
+      // Scale time so every subscriber gets slow motion for free; replays
+      // use the recorded deltaTime instead of the wall clock
+      const dt = replayDt ?? rawDt * timeScaleRef.current;
+      setDeltaTime(dt);
+
+      // Record the frame with the input changes delivered at its start
+      if (recordingRef.current) {
+        const inputs = recordedInputsRef.current;
+        recordedInputsRef.current = [];
+        recordingRef.current.frames.push(
+          inputs.length > 0 ? { dt, inputs } : { dt }
+        );
+        recordingRef.current.duration += dt;
+      }
+
       // Emit tick event with deltaTime for game systems
-      emit("tick", { deltaTime: dt });
+      emit("tick", { deltaTime: dt, rawDeltaTime: rawDt });
+
+      // Fixed-timestep mode: run the simulation in constant steps
+      if (fixedDeltaTime !== null) {
+        // Clamp stalls so a long frame can't tunnel objects through colliders
+        accumulatorRef.current += Math.min(dt, MAX_FRAME_TIME);
+
+        let steps = 0;
+        while (
+          accumulatorRef.current >= fixedDeltaTime &&
+          steps < maxFixedSteps
+        ) {
+          emit("fixedTick", { deltaTime: fixedDeltaTime, step: steps });
+          accumulatorRef.current -= fixedDeltaTime;
+          steps++;
+        }
+
+        // Drop whatever we couldn't catch up on instead of carrying it over
+        if (steps === maxFixedSteps) {
+          accumulatorRef.current %= fixedDeltaTime;
+        }
+
+        // Let renderers blend between the last two simulated states
+        emit("render", {
+          deltaTime: dt,
+          alpha: accumulatorRef.current / fixedDeltaTime,
+        });
+      }
 
       // Store current timestamp for next frame
       lastFrameTimeRef.current = timestamp;
 
       // Request next frame
-      frameIdRef.current = requestAnimationFrame(gameLoop);
+      frameIdRef.current = frameScheduler.requestFrame(gameLoop);
     };
 
     // Start the game loop
-    frameIdRef.current = requestAnimationFrame(gameLoop);
+    frameIdRef.current = frameScheduler.requestFrame(gameLoop);
 
     // Clean up on unmount - cancel animation frame
     return () => {
-      cancelAnimationFrame(frameIdRef.current);
+      frameScheduler.cancelFrame(frameIdRef.current);
+      lastFrameTimeRef.current = null;
+      accumulatorRef.current = 0;
+    };
+    // Restart the loop only when the fixed-step configuration changes (the
+    // bus and its functions are stable for the wrapper's lifetime)
+  }, [fixedDeltaTime, maxFixedSteps, bus, emit, frameCallbacks]);
+
+  /**
+   * Auto-Pause Setup
+   *
+   * Pauses the loop while the tab is hidden or the window is blurred so the
+   * game doesn't keep running (or jump ahead) when the player looks away.
+   */
+  useEffect(() => {
+    if (!autoPause) return;
+
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        addPauseReason("hidden");
+      } else {
+        removePauseReason("hidden");
+      }
+    };
+    const handleBlur = () => addPauseReason("blur");
+    const handleFocus = () => removePauseReason("blur");
+
+    // Respect the state the page is already in when we mount
+    handleVisibilityChange();
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    window.addEventListener("blur", handleBlur);
+    window.addEventListener("focus", handleFocus);
+
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.removeEventListener("blur", handleBlur);
+      window.removeEventListener("focus", handleFocus);
+      removePauseReason("hidden");
+      removePauseReason("blur");
     };
-  }, []); // Empty dependency array ensures this only runs once on mount
+  }, [autoPause]);
+
+  /**
+   * Input Lookup
+   *
+   * Normalized key → actions map, rebuilt whenever bindings change.
+   */
+  const inputLookup = useMemo(() => buildInputLookup(bindings), [bindings]);
+
+  /**
+   * Saved Bindings
+   *
+   * Loads rebound controls after mount (localStorage isn't available during
+   * server rendering).
+   */
+  useEffect(() => {
+    if (bindingsStorageKey) {
+      // Only reload when the storage slot changes; defaults are initial config
+      setBindings(
+        loadBindings(bindingsStorageKey, defaultBindingsRef.current)
+      );
+    }
+  }, [bindingsStorageKey]);
+
+  /**
+   * Compute Action State
+   *
+   * Derives the pressed state of every bound action from the held inputs.
+   * Only reads refs, so it's stable for the wrapper's lifetime.
+   *
+   * @returns Fresh action state object
+   */
+  const computeActionState = useCallback(
+    () =>
+      Object.fromEntries(
+        Object.keys(bindingsRef.current).map((action) => [
+          action,
+          (heldInputsRef.current.get(action)?.size ?? 0) > 0,
+        ])
+      ) as ActionState,
+    []
+  );
+
+  /**
+   * Action State Sync
+   *
+   * Keeps the action state's keys in line with the bindings when actions are
+   * added or removed.
+   */
+  useEffect(() => {
+    setActionState(computeActionState());
+  }, [bindings, computeActionState]);
+
+  /**
+   * Set Input Held
+   *
+   * Marks a physical input as holding (or no longer holding) an action and,
+   * if that changes whether the action is pressed, updates state and emits
+   * a keyChange event.
+   *
+   * @param action - Action the input is bound to
+   * @param input - Identifier of the physical input, e.g. "key:w"
+   * @param held - Whether the input is down
+   */
+  const setInputHeld = useCallback(
+    (action: string, input: string, held: boolean) => {
+      // Live input is ignored while a replay drives the game
+      if (replayRef.current && !input.startsWith("replay:")) return;
+
+      if (!heldInputsRef.current.has(action)) {
+        heldInputsRef.current.set(action, new Set());
+      }
+      const inputs = heldInputsRef.current.get(action)!;
+      const wasPressed = inputs.size > 0;
+
+      if (held) {
+        inputs.add(input);
+      } else {
+        inputs.delete(input);
+      }
+
+      const pressed = inputs.size > 0;
+      if (pressed === wasPressed) return;
+
+      const newState = computeActionState();
+      setActionState(newState);
+
+      // Queue key change event with details for the start of the next frame
+      enqueue("keyChange", {
+        key: action,
+        pressed,
+        input,
+        state: newState,
+      });
+    },
+    [computeActionState, enqueue]
+  );
+
+  /**
+   * Release All Inputs
+   *
+   * Releases every held input matching the predicate, e.g. when the window
+   * loses focus and keyup events will never arrive.
+   *
+   * @param predicate - Which (action, input) pairs to release
+   */
+  const releaseInputs = useCallback(
+    (predicate: (action: string, input: string) => boolean) => {
+      heldInputsRef.current.forEach((inputs, action) => {
+        Array.from(inputs)
+          .filter((input) => predicate(action, input))
+          .forEach((input) => setInputHeld(action, input, false));
+      });
+    },
+    [setInputHeld]
+  );
+
+  /**
+   * Rebind
+   *
+   * Replaces the inputs bound to an action and saves the result.
+   *
+   * @param action - Action to rebind
+   * @param inputs - New inputs (normalized key names, e.g. "e", "Shift")
+   */
+  const rebind = (action: string, inputs: string[]) => {
+    // Let go of the old inputs so the action can't get stuck down
+    releaseInputs((heldAction) => heldAction === action);
+
+    const next = { ...bindings, [action]: inputs.map(normalizeKey) };
+    setBindings(next);
+    if (bindingsStorageKey) saveBindings(bindingsStorageKey, next);
+  };
+
+  /**
+   * Reset Bindings
+   *
+   * Restores the bindings GameWrapper was configured with and forgets any
+   * saved rebinding.
+   */
+  const resetBindings = () => {
+    releaseInputs(() => true);
+    setBindings(defaultBindings);
+    if (bindingsStorageKey) clearBindings(bindingsStorageKey);
+  };
 
   /**
    * Keyboard Input Setup
    *
    * Sets up event listeners for keyboard input.
-   * Maps keyboard keys to game controls and updates state accordingly.
+   * Maps keyboard keys to actions and updates state accordingly.
    */
   useEffect(() => {
     /**
      * Key Down Handler
      *
-     * Handles key press events, updates state, and emits events.
+     * Handles key press events for every action bound to the key.
      *
      * @param e - Keyboard event
      */
     const handleKeyDown = (e: KeyboardEvent) => {
-      // Map the keyboard key to a game control
-      const mappedKey = keyMap[e.key];
+      // Map the keyboard key to game actions
+      const key = normalizeKey(e.key);
+      const actions = inputLookup.get(key);
 
-      if (mappedKey) {
+      if (actions) {
         // Prevent default browser behavior for game controls
         e.preventDefault();
 
-        // Only update if key wasn't already pressed (prevents repeat events)
-        if (!keyState[mappedKey]) {
-          // Update key state
-          setKeyState((prev) => {
-            const newState = {
-              ...prev,
-              [mappedKey]: true,
-            };
-
-            // Emit key change event with details
-            emit("keyChange", {
-              key: mappedKey,
-              pressed: true,
-              state: newState,
-            });
-
-            return newState;
-          });
-        }
+        // Held keys already count as pressed; ignore auto-repeat
+        if (e.repeat) return;
+
+        actions.forEach((action) => setInputHeld(action, `key:${key}`, true));
       }
     };
 
     /**
      * Key Up Handler
      *
-     * Handles key release events, updates state, and emits events.
+     * Handles key release events for every action bound to the key.
      *
      * @param e - Keyboard event
      */
     const handleKeyUp = (e: KeyboardEvent) => {
-      // Map the keyboard key to a game control
-      const mappedKey = keyMap[e.key];
+      // Map the keyboard key to game actions
+      const key = normalizeKey(e.key);
+      const actions = inputLookup.get(key);
 
-      if (mappedKey) {
+      if (actions) {
         // Prevent default browser behavior for game controls
         e.preventDefault();
 
-        // Only update if key was pressed (prevents duplicate events)
-        if (keyState[mappedKey]) {
-          // Update key state
-          setKeyState((prev) => {
-            const newState = {
-              ...prev,
-              [mappedKey]: false,
-            };
-
-            // Emit key change event with details
-            emit("keyChange", {
-              key: mappedKey,
-              pressed: false,
-              state: newState,
-            });
-
-            return newState;
-          });
-        }
+        actions.forEach((action) => setInputHeld(action, `key:${key}`, false));
       }
     };
 
+    /**
+     * Blur Handler
+     *
+     * Keyup events never arrive for keys released while the window is
+     * unfocused, so release every held key up front.
+     */
+    const handleBlur = () => {
+      releaseInputs((_, input) => input.startsWith("key:"));
+    };
+
     // Add event listeners to window
     window.addEventListener("keydown", handleKeyDown);
     window.addEventListener("keyup", handleKeyUp);
+    window.addEventListener("blur", handleBlur);
 
-    // Clean up event listeners on unmount or when keyState changes
+    // Clean up event listeners on unmount or when bindings change
     return () => {
       window.removeEventListener("keydown", handleKeyDown);
       window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", handleBlur);
     };
-  }, [keyState]); // Depends on keyState to check current key state
+  }, [inputLookup, setInputHeld, releaseInputs]);
+
+  /**
+   * Start Recording
+   *
+   * Begins capturing every simulated frame's deltaTime and input changes.
+   * Actions already held count as pressed on the first recorded frame.
+   *
+   * @param meta - Optional data to attach to the recording
+   */
+  const startRecording = (meta?: Record<string, unknown>) => {
+    recordingRef.current = createRecording(meta);
+    recordedInputsRef.current = Object.entries(computeActionState())
+      .filter(([, pressed]) => pressed)
+      .map(([action]) => ({ action, pressed: true }));
+    setIsRecording(true);
+  };
+
+  /**
+   * Stop Recording
+   *
+   * @returns The finished recording, or null if nothing was being recorded
+   */
+  const stopRecording = () => {
+    const recording = recordingRef.current;
+    recordingRef.current = null;
+    recordedInputsRef.current = [];
+    setIsRecording(false);
+    return recording;
+  };
+
+  /**
+   * Start Replay
+   *
+   * Releases all live input and plays the recording back one recorded frame
+   * per rendered frame, with the recorded deltaTimes.
+   *
+   * @param recording - Recording to play
+   * @param options - Replay options
+   */
+  const startReplay = useCallback(
+    (recording: InputRecording, options: ReplayOptions = {}) => {
+      // Leave no live or previous replay input held
+      replayRef.current = null;
+      releaseInputs(() => true);
+      bus.clearQueue();
+
+      replayRef.current = {
+        recording,
+        frame: 0,
+        time: 0,
+        loop: options.loop ?? false,
+      };
+      setIsReplaying(true);
+    },
+    [releaseInputs, bus]
+  );
+
+  /**
+   * Stop Replay
+   *
+   * Releases the replay's input and gives control back to the player.
+   */
+  const stopReplay = useCallback(() => {
+    if (!replayRef.current) return;
+    releaseInputs((_, input) => input.startsWith("replay:"));
+    replayRef.current = null;
+    setIsReplaying(false);
+  }, [releaseInputs]);
+
+  /**
+   * Replay Stepping
+   *
+   * Called by the game loop once per simulated frame while replaying.
+   * Applies the frame's recorded input changes and returns its deltaTime,
+   * or null when no replay is running.
+   */
+  stepReplayRef.current = () => {
+    const replayState = replayRef.current;
+    if (!replayState) return null;
+
+    const { recording } = replayState;
+    if (replayState.frame >= recording.frames.length) {
+      emit("replayEnd", { recording, looping: replayState.loop });
+
+      if (!replayState.loop || recording.frames.length === 0) {
+        stopReplay();
+        return null;
+      }
+
+      // Start over from a clean input state
+      releaseInputs((_, input) => input.startsWith("replay:"));
+      replayState.frame = 0;
+      replayState.time = 0;
+    }
+
+    const frame = recording.frames[replayState.frame++];
+    frame.inputs?.forEach(({ action, pressed }) =>
+      setInputHeld(action, `replay:${action}`, pressed)
+    );
+    replayState.time += frame.dt * 1000;
+    return frame.dt;
+  };
+
+  /**
+   * Recorder Input Capture
+   *
+   * Collects action changes as they are delivered so the game loop can
+   * attach them to the frame being simulated.
+   */
+  useEffect(() => {
+    return bus.subscribe("keyChange", (event) => {
+      if (!recordingRef.current) return;
+      const { key, pressed } = event.payload as KeyChangePayload;
+      recordedInputsRef.current.push({ action: key, pressed });
+    });
+  }, [bus]);
+
+  /**
+   * Replay Prop
+   *
+   * Starts the replay passed as a prop, and stops it when the prop is
+   * removed.
+   */
+  useEffect(() => {
+    if (!replay) return;
+    startReplay(replay, { loop: loopReplay });
+    return () => stopReplay();
+  }, [replay, loopReplay, startReplay, stopReplay]);
 
   /**
    * Game Loop Context Value
@@ -414,17 +1029,72 @@ export function GameWrapper({ children }: { children?: React.ReactNode }) {
    */
   const gameLoopValue = {
     subscribe, // Function to subscribe to events
-    emit, // Function to emit events
+    subscribeOnce, // Function to subscribe to the next event only
+    emit, // Function to emit events immediately
+    enqueue, // Function to emit events at the start of the next frame
     deltaTime, // Time since last frame
     fps, // Current frames per second
+    fixedDeltaTime, // Seconds per fixed tick (null when disabled)
+    pause, // Function to pause the loop, optionally for a reason
+    resume, // Function to lift one pause reason, or all of them
+    isPaused, // Whether the loop is paused
+    timeScale, // Current time multiplier
+    setTimeScale, // Function to change the time multiplier
+    beforeFrame, // Function to run a callback at the start of every frame
+  };
+
+  /**
+   * Action Context Value
+   *
+   * Input state and rebinding functions provided to child components.
+   */
+  const actionValue = {
+    state: actionState, // Pressed state of every action
+    bindings, // Current action → inputs mapping
+    rebind, // Function to rebind an action
+    resetBindings, // Function to restore default bindings
+    setInputHeld, // Function for custom input sources
+    releaseInputs, // Function to release inputs an input source lost
+  };
+
+  /**
+   * Recorder Context Value
+   *
+   * Recording and replay controls provided to child components.
+   */
+  const recorderValue = {
+    isRecording, // Whether input is being recorded
+    isReplaying, // Whether a replay is driving input
+    startRecording, // Function to start recording
+    stopRecording, // Function to stop and return the recording
+    startReplay, // Function to play a recording back
+    stopReplay, // Function to stop a replay
   };
 
   return (
     <GameLoopContext.Provider value={gameLoopValue}>
-      <KeyContext.Provider value={keyState}>
-        <div className="game-wrapper">{children}</div>
-        <KeyDisplay />
-      </KeyContext.Provider>
+      <ActionContext.Provider value={actionValue}>
+        <GamepadProvider deadzone={gamepadDeadzone}>
+          <RecorderContext.Provider value={recorderValue}>
+            <CameraProvider options={cameraOptions} viewport={wrapperRef}>
+              <PointerProvider viewport={wrapperRef}>
+                <AudioProvider options={audioOptions}>
+                  <SaveProvider options={saveOptions}>
+                    <InspectorProvider overlay={devOverlay}>
+                      <div className="game-wrapper" ref={wrapperRef}>
+                        {children}
+                      </div>
+                      {keyDisplay !== "hidden" && (
+                        <KeyDisplay visibility={keyDisplay} />
+                      )}
+                    </InspectorProvider>
+                  </SaveProvider>
+                </AudioProvider>
+              </PointerProvider>
+            </CameraProvider>
+          </RecorderContext.Provider>
+        </GamepadProvider>
+      </ActionContext.Provider>
     </GameLoopContext.Provider>
   );
 }
@@ -1,70 +1,191 @@
-import { useKeyState, useGameLoop } from "./GameWrapper";
+import {
+  useKeyState,
+  useGameLoop,
+  useInputBindings,
+  useGamepad,
+  useVirtualInput,
+} from "./GameWrapper";
 import "./KeyDisplay.css";
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 
-function KeyDisplay() {
+/**
+ * When the on-screen controller is shown:
+ * - always: On every device
+ * - touch: Only on coarse-pointer (touch) devices
+ * - hidden: Never
+ */
+export type KeyDisplayVisibility = "always" | "touch" | "hidden";
+
+/**
+ * Find the action of the d-pad button under a screen point, if any.
+ */
+function actionAtPoint(x: number, y: number) {
+  const element = document.elementFromPoint(x, y);
+  return element?.closest<HTMLElement>("[data-action]")?.dataset.action;
+}
+
+function KeyDisplay({
+  visibility = "always",
+}: {
+  visibility?: KeyDisplayVisibility;
+}) {
   const keyState = useKeyState();
+  const { bindings } = useInputBindings();
+  const gamepad = useGamepad();
+  const { press, release } = useVirtualInput();
   const { fps, subscribe } = useGameLoop();
   const [keyPressCount, setKeyPressCount] = useState(0);
+  const [isCoarsePointer, setIsCoarsePointer] = useState(false);
+
+  // Which button each active pointer (finger) is currently holding
+  const pointerActionsRef = useRef<Map<number, string>>(new Map());
 
   // Subscribe to key change events to demonstrate event subscription
   useEffect(() => {
     // Subscribe to key change events
     const unsubscribe = subscribe('keyChange', (event) => {
-      if (event.payload?.pressed) {
+      if (event.payload.pressed) {
         setKeyPressCount(prev => prev + 1);
       }
     });
-    
+
     // Clean up subscription on unmount
     return unsubscribe;
   }, [subscribe]);
 
+  // Track whether the primary pointer is a finger so "touch" mode can hide
+  // the controller on desktop
+  useEffect(() => {
+    const query = window.matchMedia("(pointer: coarse)");
+    const update = () => setIsCoarsePointer(query.matches);
+
+    update();
+    query.addEventListener("change", update);
+    return () => query.removeEventListener("change", update);
+  }, []);
+
+  // Release anything still held by a finger when the controller goes away
+  useEffect(() => {
+    const pointerActions = pointerActionsRef.current;
+    return () => {
+      pointerActions.forEach((action, pointerId) =>
+        release(action, `touch:${pointerId}`)
+      );
+      pointerActions.clear();
+    };
+  }, [release]);
+
+  // Move a pointer onto a (possibly different) button, or off all buttons
+  const setPointerAction = (pointerId: number, action: string | undefined) => {
+    const input = `touch:${pointerId}`;
+    const current = pointerActionsRef.current.get(pointerId);
+    if (current === action) return;
+
+    if (current) release(current, input);
+    if (action) {
+      pointerActionsRef.current.set(pointerId, action);
+      press(action, input);
+    } else {
+      pointerActionsRef.current.delete(pointerId);
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const action = actionAtPoint(e.clientX, e.clientY);
+    if (!action) return;
+
+    e.preventDefault();
+    // Keep receiving moves for this finger even after it leaves the button
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setPointerAction(e.pointerId, action);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    // Slide between buttons without lifting the finger
+    if (pointerActionsRef.current.has(e.pointerId)) {
+      setPointerAction(e.pointerId, actionAtPoint(e.clientX, e.clientY));
+    }
+  };
+
+  const handlePointerEnd = (e: React.PointerEvent<HTMLDivElement>) => {
+    setPointerAction(e.pointerId, undefined);
+  };
+
+  // Label each button with its first letter key so rebinding shows up here
+  const keyLabel = (action: string) =>
+    bindings[action]?.find((input) => input.length === 1)?.toUpperCase();
+
+  if (visibility === "hidden" || (visibility === "touch" && !isCoarsePointer)) {
+    return null;
+  }
+
   return (
-    <div className="directional-pad">
+    <div
+      className="directional-pad"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerEnd}
+      onPointerCancel={handlePointerEnd}
+      onLostPointerCapture={handlePointerEnd}
+      onContextMenu={(e) => e.preventDefault()}
+    >
       <div className="d-pad-row">
         <div className="d-pad-spacer"></div>
-        <div className={`d-pad-button up ${keyState.ArrowUp ? "active" : ""}`}>
+        <div
+          data-action="ArrowUp"
+          className={`d-pad-button up ${keyState.ArrowUp ? "active" : ""}`}
+        >
           <span>↑</span>
-          <span className="key-label">W</span>
+          <span className="key-label">{keyLabel("ArrowUp")}</span>
         </div>
         <div className="d-pad-spacer"></div>
       </div>
 
       <div className="d-pad-row">
         <div
+          data-action="ArrowLeft"
           className={`d-pad-button left ${keyState.ArrowLeft ? "active" : ""}`}
         >
           <span>←</span>
-          <span className="key-label">A</span>
+          <span className="key-label">{keyLabel("ArrowLeft")}</span>
         </div>
-        <div className={`d-pad-center ${keyState.Space ? "active" : ""}`}>
+        <div
+          data-action="Space"
+          className={`d-pad-center ${keyState.Space ? "active" : ""}`}
+        >
           <span>_</span>
         </div>
         <div
+          data-action="ArrowRight"
           className={`d-pad-button right ${
             keyState.ArrowRight ? "active" : ""
           }`}
         >
           <span>→</span>
-          <span className="key-label">D</span>
+          <span className="key-label">{keyLabel("ArrowRight")}</span>
         </div>
       </div>
 
       <div className="d-pad-row">
         <div className="d-pad-spacer"></div>
         <div
+          data-action="ArrowDown"
           className={`d-pad-button down ${keyState.ArrowDown ? "active" : ""}`}
         >
           <span>↓</span>
-          <span className="key-label">S</span>
+          <span className="key-label">{keyLabel("ArrowDown")}</span>
         </div>
         <div className="d-pad-spacer"></div>
       </div>
-      
+
       <div className="game-stats">
         <div className="fps-counter">FPS: {fps}</div>
         <div className="key-press-counter">Key Presses: {keyPressCount}</div>
+        {gamepad.connected && (
+          <div className="gamepad-status" title={gamepad.id}>
+            🎮 Controller connected
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,897 @@
+"use client";
+/**
+ * Level Editor
+ *
+ * An in-browser editor for the level format in lib/level.ts. The level is
+ * drawn in the same centered world coordinates the game uses, and supports:
+ * 1. Placing, dragging and resizing platforms, and placing and dragging
+ *    spawn points
+ * 2. Editing positions, sizes, IDs and colors in a properties panel
+ * 3. Grid snapping and undo/redo (Ctrl+Z / Ctrl+Shift+Z or Ctrl+Y)
+ * 4. Exporting to and importing from JSON (level files or Tiled maps)
+ * 5. A play toggle that runs the level in PlatformerDemo immediately
+ *
+ * Tile layers and entity placements are kept as they are; entities are
+ * shown but not editable.
+ */
+import {
+  ChangeEvent,
+  PointerEvent as ReactPointerEvent,
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import GameWrapper, { Point } from "./GameWrapper";
+import PlatformerDemo, { DEMO_LEVEL } from "./PlatformerDemo";
+import {
+  Level,
+  LevelPlatform,
+  LevelSpawn,
+  parseLevel,
+  serializeLevel,
+} from "../lib/level";
+import { importTiledMap } from "../lib/tiled";
+import "./LevelEditor.css";
+
+/**
+ * Editor Settings
+ *
+ * - GRID_SIZES: Snap sizes offered in the toolbar, in pixels
+ * - MAX_HISTORY: Number of undo steps kept
+ * - NEW_PLATFORM: Size and color of newly placed platforms
+ */
+const GRID_SIZES = [5, 10, 20, 40];
+const DEFAULT_GRID_SIZE = 10;
+const MAX_HISTORY = 100;
+const NEW_PLATFORM = { width: 160, height: 30, color: "#6272a4" };
+
+/**
+ * Editor Tool Type
+ *
+ * - select: Select, drag and resize existing objects
+ * - platform: Click to place a platform
+ * - spawn: Click to place a spawn point
+ */
+type Tool = "select" | "platform" | "spawn";
+
+/**
+ * Selection Interface
+ *
+ * The object being edited, by kind and ID.
+ */
+interface Selection {
+  kind: "platform" | "spawn";
+  id: string;
+}
+
+/**
+ * Drag State
+ *
+ * - mode: Moving the object, or resizing it from its bottom-right corner
+ * - start: Pointer position in world coordinates when the drag began
+ * - original: The object as it was when the drag began
+ */
+interface DragState {
+  mode: "move" | "resize";
+  target: Selection;
+  start: Point;
+  original: LevelPlatform | LevelSpawn;
+}
+
+/**
+ * useHistory Hook
+ *
+ * Keeps a value with undo and redo stacks. Changes pushed with the same
+ * merge key one after another (e.g. every step of dragging a color picker)
+ * are combined into a single undo step.
+ *
+ * @param initial - Starting value
+ * @returns Object containing:
+ *   - value: Current value
+ *   - push: Function to record a new value
+ *   - undo / redo: Functions to move through the history
+ *   - canUndo / canRedo: Whether there is anything to move to
+ */
+function useHistory<T>(initial: T) {
+  const [history, setHistory] = useState({
+    past: [] as T[],
+    present: initial,
+    future: [] as T[],
+  });
+  const mergeKeyRef = useRef<string | null>(null);
+
+  const push = useCallback((next: T, mergeKey?: string) => {
+    const merge = mergeKey !== undefined && mergeKey === mergeKeyRef.current;
+    mergeKeyRef.current = mergeKey ?? null;
+
+    setHistory((prev) => {
+      if (prev.present === next) return prev;
+      if (merge) return { ...prev, present: next, future: [] };
+      return {
+        past: [...prev.past, prev.present].slice(-MAX_HISTORY),
+        present: next,
+        future: [],
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    mergeKeyRef.current = null;
+    setHistory((prev) => {
+      if (prev.past.length === 0) return prev;
+      return {
+        past: prev.past.slice(0, -1),
+        present: prev.past[prev.past.length - 1],
+        future: [prev.present, ...prev.future],
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    mergeKeyRef.current = null;
+    setHistory((prev) => {
+      if (prev.future.length === 0) return prev;
+      return {
+        past: [...prev.past, prev.present],
+        present: prev.future[0],
+        future: prev.future.slice(1),
+      };
+    });
+  }, []);
+
+  return {
+    value: history.present,
+    push,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+}
+
+/**
+ * Snap
+ *
+ * Rounds a value to the nearest grid line when snapping is on.
+ */
+function snap(value: number, gridSize: number | null) {
+  return gridSize ? Math.round(value / gridSize) * gridSize : value;
+}
+
+/**
+ * Next ID
+ *
+ * @returns The first `${prefix}-N` not already in use
+ */
+function nextId(prefix: string, taken: { id: string }[]) {
+  const ids = new Set(taken.map((item) => item.id));
+  let index = taken.length + 1;
+  while (ids.has(`${prefix}-${index}`)) index++;
+  return `${prefix}-${index}`;
+}
+
+/**
+ * Update Object
+ *
+ * @returns A copy of the level with one platform or spawn point changed
+ */
+function updateObject(
+  level: Level,
+  target: Selection,
+  changes: Partial<LevelPlatform>
+): Level {
+  if (target.kind === "platform") {
+    return {
+      ...level,
+      platforms: level.platforms.map((platform) =>
+        platform.id === target.id ? { ...platform, ...changes } : platform
+      ),
+    };
+  }
+  return {
+    ...level,
+    spawns: level.spawns.map((spawn) =>
+      spawn.id === target.id ? { ...spawn, ...changes } : spawn
+    ),
+  };
+}
+
+/**
+ * Find Object
+ *
+ * @returns The selected platform or spawn point, if it still exists
+ */
+function findObject(level: Level, target: Selection | null) {
+  if (!target) return undefined;
+  const list: (LevelPlatform | LevelSpawn)[] =
+    target.kind === "platform" ? level.platforms : level.spawns;
+  return list.find((item) => item.id === target.id);
+}
+
+/**
+ * Is Tiled Map
+ *
+ * Tiled maps carry a "tiledversion" (or at least layers and no level
+ * version), level files carry "version".
+ */
+function isTiledMap(data: unknown) {
+  if (!data || typeof data !== "object") return false;
+  const map = data as Record<string, unknown>;
+  return "tiledversion" in map || ("layers" in map && !("version" in map));
+}
+
+/**
+ * Level Editor Props
+ *
+ * - initialLevel: Level to start editing (defaults to the demo level)
+ */
+export interface LevelEditorProps {
+  initialLevel?: Level;
+}
+
+/**
+ * LevelEditor Component
+ *
+ * Full-screen editor with a toolbar, the level stage and a properties
+ * panel. Press Play to try the level in PlatformerDemo.
+ */
+export default function LevelEditor({
+  initialLevel = DEMO_LEVEL,
+}: LevelEditorProps) {
+  const {
+    value: current,
+    push: pushHistory,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  } = useHistory<Level>(initialLevel);
+
+  /**
+   * Editor State
+   *
+   * - tool: Active placement tool
+   * - selection: Object shown in the properties panel
+   * - snapping / gridSize: Grid snapping settings
+   * - playing: Whether the level is running in the game
+   * - preview: Level with the in-progress drag applied; committed to the
+   *   history as a single step when the drag ends
+   * - pointer: Pointer position in world coordinates, for the readout
+   * - status: Message from the last import/export
+   */
+  const [tool, setTool] = useState<Tool>("select");
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [snapping, setSnapping] = useState(true);
+  const [gridSize, setGridSize] = useState(DEFAULT_GRID_SIZE);
+  const [playing, setPlaying] = useState(false);
+  const [preview, setPreview] = useState<Level | null>(null);
+  const [pointer, setPointer] = useState<Point | null>(null);
+  const [status, setStatus] = useState("");
+
+  const stageRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const level = preview ?? current;
+  const grid = snapping ? gridSize : null;
+  const selected = findObject(level, selection);
+  const selectedPlatform =
+    selection?.kind === "platform" ? (selected as LevelPlatform) : undefined;
+
+  /**
+   * To World
+   *
+   * Converts a pointer position to world coordinates, where (0, 0) is
+   * the center of the level.
+   */
+  const toWorld = (event: ReactPointerEvent): Point => {
+    const rect = stageRef.current!.getBoundingClientRect();
+    return {
+      x: event.clientX - rect.left - level.width / 2,
+      y: event.clientY - rect.top - level.height / 2,
+    };
+  };
+
+  /**
+   * Delete Selection
+   *
+   * Removes the selected platform or spawn point.
+   */
+  const deleteSelection = useCallback(() => {
+    if (!selection) return;
+    pushHistory(
+      selection.kind === "platform"
+        ? {
+            ...current,
+            platforms: current.platforms.filter((p) => p.id !== selection.id),
+          }
+        : {
+            ...current,
+            spawns: current.spawns.filter((s) => s.id !== selection.id),
+          }
+    );
+    setSelection(null);
+  }, [current, pushHistory, selection]);
+
+  /**
+   * Keyboard Shortcuts
+   *
+   * Undo/redo and delete while editing. Ignored while playing (the game
+   * owns the keyboard) and while typing in a form field.
+   */
+  useEffect(() => {
+    if (playing) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (["INPUT", "SELECT", "TEXTAREA"].includes(target.tagName)) return;
+
+      const key = e.key.toLowerCase();
+      if ((e.ctrlKey || e.metaKey) && key === "z") {
+        e.preventDefault();
+        if (e.shiftKey) redo();
+        else undo();
+      } else if ((e.ctrlKey || e.metaKey) && key === "y") {
+        e.preventDefault();
+        redo();
+      } else if (key === "delete" || key === "backspace") {
+        e.preventDefault();
+        deleteSelection();
+      } else if (key === "escape") {
+        setSelection(null);
+        setTool("select");
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [playing, undo, redo, deleteSelection]);
+
+  /**
+   * Stage Pointer Down
+   *
+   * Places a new object with the platform/spawn tools, or clears the
+   * selection when clicking empty space.
+   */
+  const handleStagePointerDown = (event: ReactPointerEvent) => {
+    const position = toWorld(event);
+
+    if (tool === "platform") {
+      const id = nextId("platform", level.platforms);
+      const left = snap(position.x - NEW_PLATFORM.width / 2, grid);
+      const top = snap(position.y - NEW_PLATFORM.height / 2, grid);
+      pushHistory({
+        ...level,
+        platforms: [
+          ...level.platforms,
+          {
+            id,
+            x: left + NEW_PLATFORM.width / 2,
+            y: top + NEW_PLATFORM.height / 2,
+            width: NEW_PLATFORM.width,
+            height: NEW_PLATFORM.height,
+            color: NEW_PLATFORM.color,
+          },
+        ],
+      });
+      setSelection({ kind: "platform", id });
+      setTool("select");
+    } else if (tool === "spawn") {
+      // The first spawn point is the player's
+      const id = level.spawns.some((spawn) => spawn.id === "player")
+        ? nextId("spawn", level.spawns)
+        : "player";
+      pushHistory({
+        ...level,
+        spawns: [
+          ...level.spawns,
+          { id, x: snap(position.x, grid), y: snap(position.y, grid) },
+        ],
+      });
+      setSelection({ kind: "spawn", id });
+      setTool("select");
+    } else {
+      setSelection(null);
+    }
+  };
+
+  /**
+   * Object Pointer Down
+   *
+   * Selects an object and starts moving or resizing it. The stage
+   * captures the pointer so the drag continues outside the object.
+   */
+  const startDrag = (
+    event: ReactPointerEvent,
+    target: Selection,
+    mode: DragState["mode"]
+  ) => {
+    if (tool !== "select") return;
+    event.stopPropagation();
+
+    const original = findObject(level, target);
+    if (!original) return;
+
+    setSelection(target);
+    stageRef.current?.setPointerCapture(event.pointerId);
+    dragRef.current = { mode, target, start: toWorld(event), original };
+  };
+
+  /**
+   * Stage Pointer Move
+   *
+   * Updates the coordinate readout and the drag preview.
+   */
+  const handleStagePointerMove = (event: ReactPointerEvent) => {
+    const position = toWorld(event);
+    setPointer(position);
+
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    const dx = position.x - drag.start.x;
+    const dy = position.y - drag.start.y;
+    let changes: Partial<LevelPlatform>;
+    if (drag.target.kind === "spawn") {
+      // Spawn points snap by their position
+      changes = {
+        x: snap(drag.original.x + dx, grid),
+        y: snap(drag.original.y + dy, grid),
+      };
+    } else if (drag.mode === "move") {
+      const original = drag.original as LevelPlatform;
+      // Platforms snap by their top-left corner
+      const left = snap(original.x - original.width / 2 + dx, grid);
+      const top = snap(original.y - original.height / 2 + dy, grid);
+      changes = {
+        x: left + original.width / 2,
+        y: top + original.height / 2,
+      };
+    } else {
+      // Resize from the bottom-right corner, keeping the top-left fixed
+      const original = drag.original as LevelPlatform;
+      const left = original.x - original.width / 2;
+      const top = original.y - original.height / 2;
+      const minimum = grid ?? 1;
+      const width = Math.max(
+        minimum,
+        snap(left + original.width + dx, grid) - left
+      );
+      const height = Math.max(
+        minimum,
+        snap(top + original.height + dy, grid) - top
+      );
+      changes = { x: left + width / 2, y: top + height / 2, width, height };
+    }
+
+    setPreview(updateObject(current, drag.target, changes));
+  };
+
+  /**
+   * Stage Pointer Up
+   *
+   * Ends a drag, committing it as one undo step.
+   */
+  const handleStagePointerUp = () => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+
+    if (preview) pushHistory(preview);
+    setPreview(null);
+  };
+
+  /**
+   * Change Field
+   *
+   * Applies an edit from the properties panel. Repeated edits of the same
+   * field are merged into one undo step.
+   */
+  const changeField = (field: keyof LevelPlatform, value: string) => {
+    if (!selection) return;
+
+    if (field === "color") {
+      pushHistory(
+        updateObject(current, selection, { color: value }),
+        `${selection.id}:color`
+      );
+      return;
+    }
+
+    const number = Number(value);
+    if (value === "" || !Number.isFinite(number)) return;
+    if ((field === "width" || field === "height") && number <= 0) return;
+
+    pushHistory(
+      updateObject(current, selection, { [field]: number }),
+      `${selection.id}:${field}`
+    );
+  };
+
+  /**
+   * Rename Selection
+   *
+   * Changes the selected object's ID if the new one is free.
+   */
+  const renameSelection = (id: string) => {
+    if (!selection || !selected) return;
+
+    const trimmed = id.trim();
+    if (!trimmed || trimmed === selection.id) return;
+
+    const taken =
+      selection.kind === "platform" ? current.platforms : current.spawns;
+    if (taken.some((item) => item.id === trimmed)) {
+      setStatus(`The ID "${trimmed}" is already in use`);
+      return;
+    }
+
+    pushHistory(updateObject(current, selection, { id: trimmed }));
+    setSelection({ ...selection, id: trimmed });
+  };
+
+  /**
+   * Change Level Setting
+   *
+   * Edits the level's name, size or background.
+   */
+  const changeLevel = (
+    field: "name" | "width" | "height" | "background",
+    value: string
+  ) => {
+    if (field === "width" || field === "height") {
+      const number = Number(value);
+      if (!Number.isFinite(number) || number <= 0) return;
+      pushHistory({ ...current, [field]: number }, `level:${field}`);
+    } else {
+      pushHistory({ ...current, [field]: value }, `level:${field}`);
+    }
+  };
+
+  /**
+   * Export Level
+   *
+   * Validates the level and downloads it as a JSON file for public/levels.
+   */
+  const exportLevel = () => {
+    try {
+      const json = serializeLevel(parseLevel(current));
+      const url = URL.createObjectURL(
+        new Blob([json], { type: "application/json" })
+      );
+      const fileName = current.name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-|-$/g, "");
+
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${fileName || "level"}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setStatus(`Exported ${link.download}`);
+    } catch (error) {
+      setStatus(`Can't export: ${(error as Error).message}`);
+    }
+  };
+
+  /**
+   * Import Level
+   *
+   * Loads a level file or a Tiled JSON map. Importing can be undone.
+   */
+  const importLevel = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const data: unknown = JSON.parse(await file.text());
+      const imported = isTiledMap(data)
+        ? importTiledMap(data, { name: file.name.replace(/\.[^.]+$/, "") })
+        : parseLevel(data);
+      pushHistory(imported);
+      setSelection(null);
+      setStatus(`Imported ${file.name}`);
+    } catch (error) {
+      setStatus(`Can't import ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  /**
+   * Stage Position
+   *
+   * CSS position of a center-based box on the stage.
+   */
+  const boxStyle = (box: LevelPlatform) => ({
+    left: level.width / 2 + box.x - box.width / 2,
+    top: level.height / 2 + box.y - box.height / 2,
+    width: box.width,
+    height: box.height,
+  });
+
+  const isSelected = (kind: Selection["kind"], id: string) =>
+    selection?.kind === kind && selection.id === id;
+
+  return (
+    <div className="level-editor">
+      {/* Toolbar */}
+      <div className="level-editor-toolbar">
+        <button
+          className={playing ? "active" : ""}
+          onClick={() => {
+            setPlaying((prev) => !prev);
+            setStatus("");
+          }}
+        >
+          {playing ? "■ Stop" : "▶ Play"}
+        </button>
+
+        {!playing && (
+          <>
+            <span className="level-editor-separator" />
+            {(["select", "platform", "spawn"] as Tool[]).map((option) => (
+              <button
+                key={option}
+                className={tool === option ? "active" : ""}
+                onClick={() => setTool(option)}
+              >
+                {option === "select"
+                  ? "Select"
+                  : option === "platform"
+                  ? "+ Platform"
+                  : "+ Spawn"}
+              </button>
+            ))}
+
+            <span className="level-editor-separator" />
+            <label>
+              <input
+                type="checkbox"
+                checked={snapping}
+                onChange={(e) => setSnapping(e.target.checked)}
+              />
+              Snap
+            </label>
+            <select
+              value={gridSize}
+              onChange={(e) => setGridSize(Number(e.target.value))}
+              disabled={!snapping}
+            >
+              {GRID_SIZES.map((size) => (
+                <option key={size} value={size}>
+                  {size}px
+                </option>
+              ))}
+            </select>
+
+            <span className="level-editor-separator" />
+            <button onClick={undo} disabled={!canUndo}>
+              Undo
+            </button>
+            <button onClick={redo} disabled={!canRedo}>
+              Redo
+            </button>
+
+            <span className="level-editor-separator" />
+            <button onClick={() => fileInputRef.current?.click()}>
+              Import
+            </button>
+            <button onClick={exportLevel}>Export</button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.tmj,application/json"
+              onChange={importLevel}
+              hidden
+            />
+          </>
+        )}
+
+        <span className="level-editor-status">
+          {status ||
+            (pointer && !playing
+              ? `x: ${Math.round(pointer.x)}, y: ${Math.round(pointer.y)}`
+              : "")}
+        </span>
+      </div>
+
+      {playing ? (
+        /* Play Mode */
+        <div className="level-editor-play">
+          <GameWrapper>
+            <PlatformerDemo level={current} />
+          </GameWrapper>
+        </div>
+      ) : (
+        <div className="level-editor-body">
+          {/* Stage */}
+          <div className="level-editor-viewport">
+            <div
+              ref={stageRef}
+              className={`level-editor-stage tool-${tool} ${
+                grid ? "grid" : ""
+              }`}
+              style={{
+                width: level.width,
+                height: level.height,
+                backgroundColor: level.background ?? "#282a36",
+                backgroundSize: grid ? `${grid}px ${grid}px` : undefined,
+                backgroundPosition: grid
+                  ? `${(level.width / 2) % grid}px ${(level.height / 2) % grid}px`
+                  : undefined,
+              }}
+              onPointerDown={handleStagePointerDown}
+              onPointerMove={handleStagePointerMove}
+              onPointerUp={handleStagePointerUp}
+              onPointerCancel={handleStagePointerUp}
+              onPointerLeave={() => setPointer(null)}
+            >
+              {/* World origin */}
+              <div
+                className="level-editor-origin"
+                style={{ left: level.width / 2, top: level.height / 2 }}
+              />
+
+              {/* Platforms */}
+              {level.platforms.map((platform) => (
+                <div
+                  key={platform.id}
+                  className={`level-editor-platform ${
+                    isSelected("platform", platform.id) ? "selected" : ""
+                  }`}
+                  style={{
+                    ...boxStyle(platform),
+                    backgroundColor: platform.color ?? NEW_PLATFORM.color,
+                  }}
+                  onPointerDown={(e) =>
+                    startDrag(e, { kind: "platform", id: platform.id }, "move")
+                  }
+                >
+                  {isSelected("platform", platform.id) && (
+                    <div
+                      className="level-editor-handle"
+                      onPointerDown={(e) =>
+                        startDrag(
+                          e,
+                          { kind: "platform", id: platform.id },
+                          "resize"
+                        )
+                      }
+                    />
+                  )}
+                </div>
+              ))}
+
+              {/* Entities (read-only) */}
+              {level.entities.map((entity) => (
+                <div
+                  key={entity.id}
+                  className="level-editor-entity"
+                  style={{
+                    left: level.width / 2 + entity.x,
+                    top: level.height / 2 + entity.y,
+                  }}
+                  title={`${entity.type} (${entity.id})`}
+                >
+                  {entity.type}
+                </div>
+              ))}
+
+              {/* Spawn points */}
+              {level.spawns.map((spawn) => (
+                <div
+                  key={spawn.id}
+                  className={`level-editor-spawn ${
+                    isSelected("spawn", spawn.id) ? "selected" : ""
+                  }`}
+                  style={{
+                    left: level.width / 2 + spawn.x,
+                    top: level.height / 2 + spawn.y,
+                  }}
+                  onPointerDown={(e) =>
+                    startDrag(e, { kind: "spawn", id: spawn.id }, "move")
+                  }
+                >
+                  {spawn.id === "player" ? "🧍" : "📍"}
+                  <span>{spawn.id}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Properties Panel */}
+          <div className="level-editor-panel">
+            {selected && selection ? (
+              <section>
+                <h2>{selection.kind === "platform" ? "Platform" : "Spawn"}</h2>
+                <label>
+                  ID
+                  <input
+                    key={selection.id}
+                    defaultValue={selection.id}
+                    onBlur={(e) => renameSelection(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") e.currentTarget.blur();
+                    }}
+                  />
+                </label>
+                {(["x", "y"] as const).map((field) => (
+                  <label key={field}>
+                    {field}
+                    <input
+                      type="number"
+                      value={selected[field]}
+                      step={grid ?? 1}
+                      onChange={(e) => changeField(field, e.target.value)}
+                    />
+                  </label>
+                ))}
+                {selectedPlatform && (
+                  <>
+                    {(["width", "height"] as const).map((field) => (
+                      <label key={field}>
+                        {field}
+                        <input
+                          type="number"
+                          min={1}
+                          value={selectedPlatform[field]}
+                          step={grid ?? 1}
+                          onChange={(e) => changeField(field, e.target.value)}
+                        />
+                      </label>
+                    ))}
+                    <label>
+                      color
+                      <input
+                        type="color"
+                        value={selectedPlatform.color ?? NEW_PLATFORM.color}
+                        onChange={(e) => changeField("color", e.target.value)}
+                      />
+                    </label>
+                  </>
+                )}
+                <button onClick={deleteSelection}>Delete</button>
+              </section>
+            ) : (
+              <p className="level-editor-hint">
+                Select a platform or spawn point to edit it. Drag to move,
+                drag the corner handle to resize.
+              </p>
+            )}
+
+            <section>
+              <h2>Level</h2>
+              <label>
+                name
+                <input
+                  value={current.name}
+                  onChange={(e) => changeLevel("name", e.target.value)}
+                />
+              </label>
+              {(["width", "height"] as const).map((field) => (
+                <label key={field}>
+                  {field}
+                  <input
+                    type="number"
+                    min={1}
+                    value={current[field]}
+                    onChange={(e) => changeLevel(field, e.target.value)}
+                  />
+                </label>
+              ))}
+              <label>
+                background
+                <input
+                  type="color"
+                  value={current.background ?? "#282a36"}
+                  onChange={(e) => changeLevel("background", e.target.value)}
+                />
+              </label>
+            </section>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { afterEach, describe, expect, it } from "vitest";
+import PlatformerDemo from "./PlatformerDemo";
+import { GameHarness, mountGame } from "../lib/testing";
+
+describe("PlatformerDemo", () => {
+  let game: GameHarness;
+
+  afterEach(() => {
+    game.unmount();
+    window.localStorage.clear();
+  });
+
+  const playerLandings = () =>
+    game
+      .eventsOf("collision")
+      .filter(
+        ({ payload }) => payload.type === "land" && payload.body === "player"
+      );
+
+  it("lands the player on a platform", () => {
+    game = mountGame(<PlatformerDemo backend="dom" />);
+
+    game.step(120); // two seconds at 60 FPS
+
+    const landings = playerLandings();
+    expect(landings.length).toBeGreaterThan(0);
+    expect(landings[0].payload.side).toBe("bottom");
+
+    // Standing still afterwards: no more landings
+    game.clearEvents();
+    game.step(30);
+    expect(playerLandings()).toHaveLength(0);
+  });
+
+  it("jumps and lands again", () => {
+    game = mountGame(<PlatformerDemo backend="dom" />);
+    game.step(120);
+    game.clearEvents();
+
+    game.press("Space");
+    game.step(2);
+    game.release("Space");
+    expect(playerLandings()).toHaveLength(0);
+
+    game.step(120);
+    expect(playerLandings().length).toBeGreaterThan(0);
+  });
+});
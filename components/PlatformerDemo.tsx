@@ -0,0 +1,544 @@
+"use client";
+import { useEffect, useMemo, useRef } from "react";
+import {
+  useAudio,
+  useCamera,
+  useGameLoop,
+  useKeyState,
+  useParticleEmitter,
+  useParticles,
+  usePhysics,
+  useAnimation,
+  useSoundEvents,
+  useSaveState,
+  useDevValue,
+} from "./GameWrapper";
+import GameCanvas, { RenderBackend, useDrawLayer } from "./GameCanvas";
+import { EventPriority } from "../lib/eventBus";
+import { Level, getLevelColliders, getSpawn, parseLevel } from "../lib/level";
+import { EmitterConfig } from "../lib/particles";
+import { PhysicsBody } from "../lib/physics";
+import { AnimationMachineConfig } from "../lib/animation";
+import { parseAtlas } from "../lib/sprites";
+import { SaveDataError, expectNumbers } from "../lib/save";
+import platformerLevel from "../public/levels/platformer.json";
+import heroAtlas from "../public/sprites/hero.json";
+import "./PlatformerDemo.css";
+
+/**
+ * Demo Level
+ *
+ * The level played when none is given, loaded from
+ * public/levels/platformer.json and validated when this module loads. The
+ * same file can be fetched at runtime with loadLevel("/levels/platformer.json").
+ */
+export const DEMO_LEVEL = parseLevel(platformerLevel);
+
+/**
+ * Player Body
+ *
+ * ID and hitbox of the player's physics body.
+ */
+const PLAYER_ID = "player";
+const PLAYER_WIDTH = 40; // Player hitbox width
+const PLAYER_HEIGHT = 60; // Player hitbox height
+const PLAYER_SIZE = 64; // Drawn sprite size
+
+/**
+ * Physics Constants
+ *
+ * These values control the "feel" of the game's physics.
+ * Adjusting these will change how the character moves and jumps.
+ */
+const GRAVITY = 1500; // Downward acceleration (pixels/sec²)
+const JUMP_FORCE = 600; // Initial jump velocity (pixels/sec)
+const MOVE_SPEED = 250; // Horizontal movement speed (pixels/sec)
+const FRICTION = 10; // Velocity reduction factor when not moving
+const TERMINAL_VELOCITY = 1000; // Maximum falling speed (pixels/sec)
+const DUST_IMPACT_SPEED = 200; // Minimum landing speed that raises dust
+
+/**
+ * Camera Constants
+ *
+ * The camera follows the player within a small deadzone and shakes on
+ * landings fast enough to count as a fall.
+ */
+const CAMERA_DEADZONE = { width: 120, height: 160 }; // Free movement box (pixels)
+const CAMERA_SMOOTHING = 0.15; // Catch-up time (seconds)
+const SHAKE_IMPACT_SPEED = 750; // Minimum landing speed that shakes the screen
+const SHAKE_DURATION = 0.3; // Shake length (seconds)
+
+/**
+ * Player Sprite
+ *
+ * The hero sprite sheet (public/sprites/hero.svg, framed by hero.json) and
+ * the animation states that pick the player's clip from its body.
+ */
+const HERO_SHEET = parseAtlas(heroAtlas, { basePath: "/sprites/" });
+const RUN_THRESHOLD = 10; // Minimum horizontal speed drawn as running
+
+type PlayerAnimation = "idle" | "run" | "jump" | "fall";
+
+const isAirborne = (body: PhysicsBody) => !body.touching.bottom;
+const isRunning = (body: PhysicsBody) =>
+  body.touching.bottom && Math.abs(body.velocityX) > RUN_THRESHOLD;
+
+const PLAYER_ANIMATION: AnimationMachineConfig<PlayerAnimation, PhysicsBody> =
+  {
+    clips: {
+      idle: { frames: ["idle_0", "idle_1"], fps: 2 },
+      run: { frames: ["run_0", "run_1", "run_2", "run_3"], fps: 12 },
+      jump: { frames: ["jump"] },
+      fall: { frames: ["fall"] },
+    },
+    initial: "idle",
+    transitions: [
+      { to: "jump", when: (body) => isAirborne(body) && body.velocityY < 0 },
+      { to: "fall", when: (body) => isAirborne(body) && body.velocityY > 0 },
+    ],
+    states: {
+      idle: { clip: "idle", transitions: [{ to: "run", when: isRunning }] },
+      run: {
+        clip: "run",
+        // Legs speed up with the player, up to full speed at MOVE_SPEED
+        speed: (body) => Math.max(0.5, Math.abs(body.velocityX) / MOVE_SPEED),
+        transitions: [{ to: "idle", when: (body) => !isRunning(body) }],
+      },
+      jump: {
+        clip: "jump",
+        transitions: [{ to: "idle", when: (body) => !isAirborne(body) }],
+      },
+      fall: {
+        clip: "fall",
+        transitions: [{ to: "idle", when: (body) => !isAirborne(body) }],
+      },
+    },
+  };
+
+/**
+ * Platformer Demo Props
+ *
+ * - level: Level to play (defaults to DEMO_LEVEL). The coordinate system is
+ *   centered in the middle of the level, with positive Y downward; levels
+ *   larger than the screen scroll with the player.
+ * - backend: How the scene is drawn, "canvas" (default) or "dom" (see
+ *   GameCanvas)
+ */
+export interface PlatformerDemoProps {
+  level?: Level;
+  backend?: RenderBackend;
+}
+
+/**
+ * Dust Emitter
+ *
+ * Puffs of dust kicked up at the player's feet on hard landings.
+ */
+const DUST: EmitterConfig = {
+  burst: 8,
+  lifetime: [0.2, 0.7],
+  speed: [10, 60],
+  angle: [-Math.PI, 0], // Upwards, to either side
+  spread: { x: 20, y: 0 },
+  gravity: 150,
+  drag: 2,
+  size: [4, 12],
+  opacity: { start: 0.8, end: 0 },
+  color: "#ffffff",
+};
+
+/**
+ * Platform Game with Physics and Collisions
+ *
+ * This component implements a 2D platformer on top of usePhysics():
+ * - Gravity and jumping
+ * - Solid platforms on all four sides, without tunneling at high speed
+ * - Character movement with proper friction
+ * - A camera that follows the player and stays inside the level
+ * - Visual effects like dust particles and screen shake
+ * - Synthesized jump and landing sounds
+ *
+ * It uses the GameWrapper's event system to order the input, physics and
+ * rendering systems within each tick and to communicate between them. The
+ * scene is drawn through a GameCanvas, so it renders the same way on the
+ * canvas and DOM backends.
+ */
+export default function PlatformerDemo({
+  level = DEMO_LEVEL,
+  backend = "canvas",
+}: PlatformerDemoProps) {
+  return (
+    <div
+      className="platformer-game"
+      style={{ backgroundColor: level.background }}
+    >
+      <GameCanvas backend={backend}>
+        <PlatformerScene level={level} />
+      </GameCanvas>
+    </div>
+  );
+}
+
+/**
+ * Platformer Scene
+ *
+ * Game logic, draw layers and HUD of the demo; rendered inside the
+ * GameCanvas so it can register draw layers.
+ */
+function PlatformerScene({ level }: { level: Level }) {
+  // Get keyboard input state from GameWrapper context
+  const { ArrowUp, ArrowLeft, ArrowRight, Space } = useKeyState();
+
+  // Get the event system from GameWrapper context
+  const { subscribe } = useGameLoop();
+
+  // Get the camera from GameWrapper context
+  const { follow, setBounds, shake } = useCamera();
+
+  // Get the synth from GameWrapper context
+  const { synth } = useAudio();
+
+  /**
+   * Level Layout
+   *
+   * Solid platforms (including solid tiles) and the player's spawn point.
+   */
+  const platforms = useMemo(() => getLevelColliders(level), [level]);
+  const spawn = useMemo(() => getSpawn(level, PLAYER_ID), [level]);
+
+  // Physics world, stepped every tick
+  const physics = usePhysics({
+    gravity: GRAVITY,
+    terminalVelocity: TERMINAL_VELOCITY,
+  });
+
+  /**
+   * Hitboxes
+   *
+   * Outlines the collision boxes of the platforms and the player. Toggled
+   * from the dev overlay's inspector (press `).
+   */
+  const showHitboxesRef = useRef(false);
+  useDevValue(
+    "hitboxes",
+    () => showHitboxesRef.current,
+    (show) => {
+      showHitboxesRef.current = show;
+    }
+  );
+
+  /**
+   * Input Refs
+   *
+   * The tick subscribers below live for the whole game, so they read the
+   * latest input from refs instead of closing over the key state.
+   * - keysRef: Current movement and jump input
+   * - jumpHeldRef: Jump was already handled for the current press
+   * - facingLeftRef: Direction the player last moved in
+   */
+  const keysRef = useRef({ left: false, right: false, jump: false });
+  keysRef.current = {
+    left: ArrowLeft,
+    right: ArrowRight,
+    jump: ArrowUp || Space, // Combine up arrow and space bar for jump input
+  };
+  const jumpHeldRef = useRef(false);
+  const facingLeftRef = useRef(false);
+
+  /**
+   * Physics Bodies
+   *
+   * Adds the platforms as static bodies and the player as a dynamic body
+   * at the spawn point. Rebuilt from scratch when the level changes.
+   */
+  useEffect(() => {
+    platforms.forEach(({ color, ...platform }) =>
+      physics.addBody({ ...platform, type: "static", data: { color } })
+    );
+    physics.addBody({
+      id: PLAYER_ID,
+      x: spawn.x,
+      y: spawn.y,
+      width: PLAYER_WIDTH,
+      height: PLAYER_HEIGHT,
+    });
+
+    return () => physics.clear();
+  }, [physics, platforms, spawn]);
+
+  /**
+   * Saved Player
+   *
+   * Puts the player's position, velocity and facing in saves, and moves
+   * the body back there when a save is loaded. Saves with anything else
+   * in them are rejected as corrupt.
+   */
+  useSaveState(
+    PLAYER_ID,
+    () => {
+      const body = physics.getBody(PLAYER_ID);
+      return {
+        x: body?.x ?? spawn.x,
+        y: body?.y ?? spawn.y,
+        velocityX: body?.velocityX ?? 0,
+        velocityY: body?.velocityY ?? 0,
+        facingLeft: facingLeftRef.current,
+      };
+    },
+    (saved) => {
+      const { x, y, velocityX, velocityY } = expectNumbers(saved, [
+        "x",
+        "y",
+        "velocityX",
+        "velocityY",
+      ]);
+      if (typeof saved.facingLeft !== "boolean") {
+        throw new SaveDataError("Saved facingLeft is not a boolean");
+      }
+
+      const body = physics.getBody(PLAYER_ID);
+      if (!body) return;
+      physics.moveBody(PLAYER_ID, x, y);
+      body.velocityX = velocityX;
+      body.velocityY = velocityY;
+      facingLeftRef.current = saved.facingLeft;
+    }
+  );
+
+  /**
+   * Camera Setup
+   *
+   * Follows the player's body and keeps the view inside the level.
+   */
+  useEffect(() => {
+    setBounds({
+      left: -level.width / 2,
+      top: -level.height / 2,
+      right: level.width / 2,
+      bottom: level.height / 2,
+    });
+    follow(() => physics.getBody(PLAYER_ID), {
+      deadzone: CAMERA_DEADZONE,
+      smoothing: CAMERA_SMOOTHING,
+    });
+
+    return () => {
+      follow(null);
+      setBounds(null);
+    };
+  }, [follow, setBounds, physics, level.width, level.height]);
+
+  /**
+   * Movement and Jump Input
+   *
+   * Runs before the physics step each tick to turn input into velocity:
+   * - Move left/right at a constant speed, or slow down with friction
+   * - Only jump when on ground
+   * - Prevent jumping again until jump button is released
+   */
+  useEffect(() => {
+    return subscribe(
+      "tick",
+      (event) => {
+        const body = physics.getBody(PLAYER_ID);
+        if (!body) return;
+
+        const dt = event.payload.deltaTime;
+        const { left, right, jump } = keysRef.current;
+
+        // ===== HORIZONTAL MOVEMENT =====
+        if (left) {
+          body.velocityX = -MOVE_SPEED; // Move left
+          facingLeftRef.current = true;
+        } else if (right) {
+          body.velocityX = MOVE_SPEED; // Move right
+          facingLeftRef.current = false;
+        } else {
+          // No input - apply friction to gradually slow down
+          body.velocityX *= 1 - Math.min(FRICTION * dt, 0.9);
+
+          // Stop completely if moving very slowly
+          if (Math.abs(body.velocityX) < 10) body.velocityX = 0;
+        }
+
+        // ===== JUMPING =====
+        // Only allow jumping when:
+        // 1. Jump button is pressed
+        // 2. Player is on the ground (touched a platform last step)
+        // 3. Jump button wasn't already pressed (prevents holding)
+        if (jump && body.touching.bottom && !jumpHeldRef.current) {
+          synth("jump");
+          body.velocityY = -JUMP_FORCE; // Apply upward velocity (negative is up)
+          jumpHeldRef.current = true;
+        } else if (!jump) {
+          // Jump button released - allow jumping again once landed
+          jumpHeldRef.current = false;
+        }
+      },
+      { priority: EventPriority.Input }
+    );
+  }, [subscribe, physics, synth]);
+
+  /**
+   * Dust Particle System
+   *
+   * Bursts dust at the player's feet when they land hard on a platform.
+   */
+  const particles = useParticles({ capacity: 200 });
+  useParticleEmitter(particles, DUST, {
+    triggers: [
+      {
+        event: "collision",
+        when: ({ type, body, impactSpeed = 0 }) =>
+          type === "land" &&
+          body === PLAYER_ID &&
+          impactSpeed > DUST_IMPACT_SPEED,
+        at: ({ position }) => ({
+          x: position.x,
+          y: position.y + PLAYER_HEIGHT / 2,
+        }),
+      },
+    ],
+  });
+
+  /**
+   * Landing Sound
+   *
+   * Thuds when the player lands hard enough to raise dust.
+   */
+  useSoundEvents([
+    {
+      event: "collision",
+      when: ({ type, body, impactSpeed = 0 }) =>
+        type === "land" &&
+        body === PLAYER_ID &&
+        impactSpeed > DUST_IMPACT_SPEED,
+      synth: "land",
+    },
+  ]);
+
+  /**
+   * Screen Shake
+   *
+   * Shakes the screen after a long fall, harder the faster the player hit
+   * the ground.
+   */
+  useEffect(() => {
+    return subscribe("collision", (event) => {
+      const { type, body, impactSpeed = 0 } = event.payload;
+      if (
+        type === "land" &&
+        body === PLAYER_ID &&
+        impactSpeed > SHAKE_IMPACT_SPEED
+      ) {
+        shake(impactSpeed / 100, SHAKE_DURATION);
+      }
+    });
+  }, [subscribe, shake]);
+
+  /**
+   * Player Animation
+   *
+   * Picks the idle, run, jump or fall clip from the player's body after
+   * physics has moved it.
+   */
+  const animation = useAnimation(PLAYER_ANIMATION, () =>
+    physics.getBody(PLAYER_ID)
+  );
+
+  /**
+   * Inspected Player
+   *
+   * The player's body in the dev overlay. Position and velocity can be
+   * edited to test a jump or a fall without playing up to it.
+   */
+  const player = () => physics.getBody(PLAYER_ID);
+  useDevValue(
+    "player.x",
+    () => player()?.x ?? spawn.x,
+    (x) => physics.moveBody(PLAYER_ID, x, player()?.y ?? spawn.y)
+  );
+  useDevValue(
+    "player.y",
+    () => player()?.y ?? spawn.y,
+    (y) => physics.moveBody(PLAYER_ID, player()?.x ?? spawn.x, y)
+  );
+  useDevValue(
+    "player.velocityX",
+    () => player()?.velocityX ?? 0,
+    (velocityX) => {
+      const body = player();
+      if (body) body.velocityX = velocityX;
+    },
+    { step: 50 }
+  );
+  useDevValue(
+    "player.velocityY",
+    () => player()?.velocityY ?? 0,
+    (velocityY) => {
+      const body = player();
+      if (body) body.velocityY = velocityY;
+    },
+    { step: 50 }
+  );
+  useDevValue("player.onGround", () => !!player()?.touching.bottom);
+  useDevValue("player.animation", () => animation.state);
+
+  /**
+   * Scene Drawing
+   *
+   * Draws the level, player and dust in world space every frame:
+   * - Platforms (with collision boxes when hitboxes are shown)
+   * - Player character, facing the way it last moved
+   * - Dust particles on top
+   */
+  useDrawLayer((draw) => {
+    const showHitboxes = showHitboxesRef.current;
+    platforms.forEach((platform) => {
+      draw.rect(platform.x, platform.y, platform.width, platform.height, {
+        color: platform.color ?? "#6272a4",
+        cornerRadius: 8,
+        stroke: showHitboxes
+          ? "rgba(255, 255, 0, 0.8)"
+          : "rgba(0, 0, 0, 0.3)",
+        lineWidth: showHitboxes ? 2 : 3,
+      });
+    });
+
+    const body = physics.getBody(PLAYER_ID);
+    if (body) {
+      animation.draw(
+        draw,
+        HERO_SHEET,
+        body.x,
+        body.y,
+        PLAYER_SIZE,
+        PLAYER_SIZE,
+        { scaleX: facingLeftRef.current ? -1 : 1 }
+      );
+
+      // Outline of the player's hitbox
+      if (showHitboxes) {
+        draw.rect(body.x, body.y, body.width, body.height, {
+          stroke: "rgba(255, 0, 0, 0.7)",
+          lineWidth: 2,
+          cornerRadius: 4,
+        });
+      }
+    }
+
+    particles.draw(draw);
+  });
+
+  /**
+   * Component Rendering
+   *
+   * The scene is drawn by the layer above; this renders the instructions.
+   */
+  return (
+    <div className="platformer-instruction">
+      <div>Use Arrow Left/Right to move</div>
+      <div>Press Up Arrow or Space to jump</div>
+    </div>
+  );
+}
@@ -0,0 +1,323 @@
+"use client";
+/**
+ * SceneManager Component
+ *
+ * Renders a game's scenes (see lib/scenes.ts) inside a GameWrapper:
+ * - Each scene is a component registered by name, plus optional enter,
+ *   exit, cover and uncover hooks
+ * - Scenes on the stack stay mounted, so gameplay under a pause menu keeps
+ *   its state; scenes hidden by a full-screen scene aren't shown
+ * - Scene changes cross-fade (or slide) over a short transition
+ * - Scenes can pause the game loop while they're on top
+ *
+ * Scene components navigate and subscribe to events with useScene().
+ */
+import {
+  ComponentType,
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { SubscribeFunction, useGameLoop } from "./GameWrapper";
+import {
+  Scene,
+  SceneEntry,
+  SceneManager as SceneStack,
+  SceneScope,
+  createSceneManager,
+} from "../lib/scenes";
+import "./SceneManager.css";
+
+/**
+ * Scene Definition
+ *
+ * A scene's lifecycle hooks (see Scene) plus:
+ * - component: Rendered while the scene is on the stack; reads its params
+ *   with useScene()
+ * - pauseGame: Pause the game loop while this scene is on top, e.g. for a
+ *   pause menu (defaults to false)
+ */
+export interface SceneDefinition<TParams = never> extends Scene<TParams> {
+  component: ComponentType;
+  pauseGame?: boolean;
+}
+
+/**
+ * Scene Transition
+ *
+ * - duration: Length of the transition in seconds (defaults to 0.3)
+ * - style: "fade" (default), "slide" or "none"
+ */
+export interface SceneTransition {
+  duration?: number;
+  style?: "fade" | "slide" | "none";
+}
+
+/**
+ * SceneManager Props
+ *
+ * - scenes: Scene definitions by name (read once)
+ * - initial: Scene to start in
+ * - initialParams: Params for the initial scene
+ * - transition: How scene changes are animated (see SceneTransition)
+ */
+export interface SceneManagerProps {
+  scenes: Record<string, SceneDefinition>;
+  initial: string;
+  initialParams?: unknown;
+  transition?: SceneTransition;
+}
+
+/**
+ * Scene Context Value
+ *
+ * Everything useScene() exposes to a scene's components.
+ */
+export interface SceneContextValue<
+  TParams = unknown,
+  TEvents extends object = object,
+> {
+  name: string; // Registered scene name
+  params: TParams; // Params the scene was entered with
+  isCovered: boolean; // Whether another scene is on top
+  isLeaving: boolean; // Whether the scene is transitioning out
+  subscribe: SubscribeFunction<TEvents>; // Scoped to the scene (see SceneScope)
+  goTo: SceneStack["goTo"];
+  push: SceneStack["push"];
+  pop: SceneStack["pop"];
+  replace: SceneStack["replace"];
+}
+
+const SceneContext = createContext<SceneContextValue | null>(null);
+
+/**
+ * Pause reason used while a pauseGame scene is on top (see pause())
+ */
+const SCENE_PAUSE_REASON = "scene";
+
+/**
+ * useScene Hook
+ *
+ * Custom hook that provides the surrounding scene and the controls to
+ * change scenes. Subscriptions made with its subscribe function are muted
+ * while another scene is on top and removed when the scene exits:
+ *
+ * ```tsx
+ * const { subscribe, push } = useScene();
+ * useEffect(() => {
+ *   return subscribe("keyChange", ({ payload }) => {
+ *     if (payload.key === "pause" && payload.pressed) push("paused");
+ *   });
+ * }, [subscribe, push]);
+ * ```
+ *
+ * @returns Scene info and controls (see SceneContextValue)
+ * @throws Error if used outside of a SceneManager
+ */
+export function useScene<
+  TParams = unknown,
+  TEvents extends object = object,
+>(): SceneContextValue<TParams, TEvents> {
+  const context = useContext(SceneContext);
+  if (!context) {
+    throw new Error("useScene must be used within a SceneManager");
+  }
+  return context as unknown as SceneContextValue<TParams, TEvents>;
+}
+
+/**
+ * Rendered Scene
+ *
+ * A stack entry (or one transitioning out) with its scope.
+ */
+interface RenderedScene {
+  entry: SceneEntry;
+  scope: SceneScope;
+  leaving: boolean;
+}
+
+/**
+ * Scene View
+ *
+ * Provides one scene's context and renders its component.
+ */
+function SceneView({
+  scene,
+  definition,
+  visible,
+  stack,
+}: {
+  scene: RenderedScene;
+  definition: SceneDefinition;
+  visible: boolean;
+  stack: SceneStack;
+}) {
+  const { entry, scope, leaving } = scene;
+
+  const value = useMemo<SceneContextValue>(
+    () => ({
+      name: entry.name,
+      params: entry.params,
+      isCovered: entry.covered,
+      isLeaving: leaving,
+      subscribe: scope.subscribe as SubscribeFunction,
+      goTo: stack.goTo,
+      push: stack.push,
+      pop: stack.pop,
+      replace: stack.replace,
+    }),
+    [entry, scope, leaving, stack]
+  );
+
+  const Component = definition.component;
+  return (
+    <SceneContext.Provider value={value}>
+      <div
+        className={`scene ${leaving ? "scene-leaving" : ""}`}
+        data-scene={entry.name}
+        hidden={!visible}
+      >
+        <Component />
+      </div>
+    </SceneContext.Provider>
+  );
+}
+
+/**
+ * SceneManager Component
+ *
+ * Enters the initial scene on mount and exits every scene on unmount.
+ * Must be placed inside a GameWrapper.
+ *
+ * @param props - See SceneManagerProps
+ */
+export function SceneManager({
+  scenes,
+  initial,
+  initialParams,
+  transition = {},
+}: SceneManagerProps) {
+  const { subscribe, pause, resume } = useGameLoop();
+  const { duration = 0.3, style = "fade" } = transition;
+  const animated = style !== "none" && duration > 0;
+
+  // Scene definitions and the stack, both fixed for the component's life
+  const [definitions] = useState(scenes);
+  const [stack] = useState(() =>
+    createSceneManager({ scenes: definitions, subscribe })
+  );
+
+  /**
+   * Rendered Scenes
+   *
+   * The stack plus scenes still transitioning out, which stay mounted
+   * until their transition ends.
+   */
+  const [rendered, setRendered] = useState<RenderedScene[]>([]);
+
+  // Latest transition settings, read when a scene exits
+  const transitionRef = useRef({ animated, duration });
+  transitionRef.current = { animated, duration };
+
+  /**
+   * Stack Setup
+   *
+   * Mirrors stack changes into React state, then enters the initial
+   * scene. Unmounting exits every scene, releasing their subscriptions.
+   */
+  const initialRef = useRef({ initial, initialParams });
+  useEffect(() => {
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+
+    const unsubscribe = stack.onChange((change) => {
+      const { animated, duration } = transitionRef.current;
+      const exitedIds = new Set(change.exited.map((entry) => entry.id));
+      const current = change.stack.map((entry) => ({
+        entry,
+        scope: stack.getScope(entry.id)!,
+        leaving: false,
+      }));
+
+      setRendered((previous) => {
+        if (!animated) return current;
+        const leaving = previous
+          .filter((scene) => scene.leaving || exitedIds.has(scene.entry.id))
+          .map((scene) => ({ ...scene, leaving: true }));
+        return [...current, ...leaving];
+      });
+
+      if (animated && exitedIds.size > 0) {
+        const timer = setTimeout(() => {
+          timers.delete(timer);
+          setRendered((previous) =>
+            previous.filter((scene) => !exitedIds.has(scene.entry.id))
+          );
+        }, duration * 1000);
+        timers.add(timer);
+      }
+    });
+
+    const { initial, initialParams } = initialRef.current;
+    stack.goTo(initial, initialParams);
+
+    return () => {
+      unsubscribe();
+      timers.forEach(clearTimeout);
+      stack.clear();
+      setRendered([]);
+    };
+  }, [stack]);
+
+  /**
+   * Game Pause
+   *
+   * Pauses the loop while the top scene asks for it, and lifts that pause
+   * when the scene is covered or exits. It pauses under its own reason, so
+   * other pauses (the player's, or a hidden tab) stay in place.
+   */
+  const top = rendered.filter((scene) => !scene.leaving).at(-1);
+  const pauseGame = !!(top && definitions[top.entry.name]?.pauseGame);
+  const pauseRef = useRef({ pause, resume });
+  pauseRef.current = { pause, resume };
+
+  useEffect(() => {
+    if (!pauseGame) return;
+    pauseRef.current.pause(SCENE_PAUSE_REASON);
+    return () => pauseRef.current.resume(SCENE_PAUSE_REASON);
+  }, [pauseGame]);
+
+  /**
+   * Visibility
+   *
+   * A scene is shown when every scene above it on the stack is an
+   * overlay.
+   */
+  const current = rendered.filter((scene) => !scene.leaving);
+  const firstVisible = current.findLastIndex(
+    (scene) => !definitions[scene.entry.name]?.overlay
+  );
+
+  return (
+    <div
+      className={`scene-manager scene-transition-${animated ? style : "none"}`}
+      style={
+        { "--scene-transition-duration": `${duration}s` } as React.CSSProperties
+      }
+    >
+      {rendered.map((scene) => (
+        <SceneView
+          key={scene.entry.id}
+          scene={scene}
+          definition={definitions[scene.entry.name]}
+          visible={scene.leaving || current.indexOf(scene) >= firstVisible}
+          stack={stack}
+        />
+      ))}
+    </div>
+  );
+}
+
+export default SceneManager;
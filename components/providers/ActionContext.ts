@@ -0,0 +1,142 @@
+/**
+ * Action Context
+ *
+ * The context behind the input hooks. GameWrapper holds the action state
+ * and keyboard input and provides the context; input providers next to
+ * this file (e.g. GamepadProvider) feed their inputs into it.
+ */
+import { createContext, useContext, useMemo } from "react";
+import { ActionState, InputBindings, KeyState } from "../../lib/input";
+
+/**
+ * Action Context Value
+ *
+ * Everything the input hooks expose to components inside the GameWrapper:
+ * - state: Pressed/released state of every bound action
+ * - bindings: Current action → inputs mapping
+ * - rebind: Replace the inputs bound to an action (saved to localStorage)
+ * - resetBindings: Restore the bindings GameWrapper was configured with
+ * - setInputHeld: Hold or release an action from a custom input source
+ * - releaseInputs: Release every held input matching a predicate, for
+ *   input sources that can lose track of their inputs (e.g. a controller
+ *   that disconnects)
+ */
+export interface ActionContextValue {
+  state: ActionState;
+  bindings: InputBindings;
+  rebind: (action: string, inputs: string[]) => void;
+  resetBindings: () => void;
+  setInputHeld: (action: string, input: string, held: boolean) => void;
+  releaseInputs: (
+    predicate: (action: string, input: string) => boolean
+  ) => void;
+}
+
+/**
+ * Action Context
+ *
+ * Provides input action state and bindings.
+ */
+export const ActionContext = createContext<ActionContextValue | null>(null);
+
+/**
+ * useActionState Hook
+ *
+ * Custom hook that provides the pressed state of every bound action.
+ * Pass your action union for typed access:
+ * `const { jump, dash } = useActionState<"jump" | "dash">()`.
+ *
+ * @returns Current state of all input actions
+ * @throws Error if used outside of a GameWrapper
+ */
+export function useActionState<TAction extends string = string>() {
+  const context = useContext(ActionContext);
+  if (!context) {
+    throw new Error("useActionState must be used within a GameWrapper");
+  }
+  return context.state as ActionState<TAction>;
+}
+
+/**
+ * useInputBindings Hook
+ *
+ * Custom hook for reading and changing control bindings at runtime,
+ * e.g. from a settings menu.
+ *
+ * @returns Object containing:
+ *   - bindings: Current action → inputs mapping
+ *   - rebind: Function to replace the inputs bound to an action
+ *   - resetBindings: Function to restore the configured defaults
+ * @throws Error if used outside of a GameWrapper
+ */
+export function useInputBindings<TAction extends string = string>() {
+  const context = useContext(ActionContext);
+  if (!context) {
+    throw new Error("useInputBindings must be used within a GameWrapper");
+  }
+  return {
+    bindings: context.bindings as InputBindings<TAction>,
+    rebind: context.rebind as (action: TAction, inputs: string[]) => void,
+    resetBindings: context.resetBindings,
+  };
+}
+
+/**
+ * useVirtualInput Hook
+ *
+ * Custom hook for on-screen controls and other custom input sources.
+ * Presses go into the same action state and keyChange events as the
+ * keyboard. Give every source (e.g. each touch) its own input id; an action
+ * stays pressed until all of its inputs are released.
+ *
+ * @returns Object containing:
+ *   - press: Function to hold an action down from an input
+ *   - release: Function to let go of an action from an input
+ * @throws Error if used outside of a GameWrapper
+ */
+export function useVirtualInput() {
+  const context = useContext(ActionContext);
+  if (!context) {
+    throw new Error("useVirtualInput must be used within a GameWrapper");
+  }
+  // Stable as long as setInputHeld is, so effects can depend on them
+  const { setInputHeld } = context;
+  return useMemo(
+    () => ({
+      press: (action: string, input: string) =>
+        setInputHeld(action, input, true),
+      release: (action: string, input: string) =>
+        setInputHeld(action, input, false),
+    }),
+    [setInputHeld]
+  );
+}
+
+/**
+ * useKeyState Hook
+ *
+ * Custom hook that provides access to the current keyboard state.
+ * Can be used by any component inside the GameWrapper. This is a preset
+ * over useActionState() for the ArrowUp/ArrowDown/ArrowLeft/ArrowRight/Space
+ * actions; actions missing from custom bindings read as not pressed.
+ *
+ * @returns Current state of game control keys
+ * @throws Error if used outside of a GameWrapper
+ */
+export function useKeyState(): KeyState {
+  const context = useContext(ActionContext);
+  if (!context) {
+    throw new Error("useKeyState must be used within a GameWrapper");
+  }
+  const { state } = context;
+  return useMemo(
+    () => ({
+      ArrowUp: !!state.ArrowUp,
+      ArrowDown: !!state.ArrowDown,
+      ArrowLeft: !!state.ArrowLeft,
+      ArrowRight: !!state.ArrowRight,
+      Space: !!state.Space,
+    }),
+    [state]
+  );
+}
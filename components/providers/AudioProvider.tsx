@@ -0,0 +1,204 @@
+/**
+ * AudioProvider Component
+ *
+ * Owns the GameWrapper's audio manager (see lib/audio.ts) and shares it
+ * through useAudio(), with useSoundEvents() to play sounds from bus events.
+ */
+import { createContext, useContext, useEffect, useState } from "react";
+import {
+  AudioManager,
+  AudioOptions,
+  AudioState,
+  MixerSettings,
+  PlayOptions,
+  SynthOptions,
+  SynthPreset,
+  createAudioManager,
+} from "../../lib/audio";
+import { EventPayload, GameEventType } from "./GameLoopContext";
+import { useEventTriggers } from "../../hooks/useEventTriggers";
+
+/**
+ * AudioProvider Props
+ *
+ * - options: Starting volumes and mute of the mixer (read once)
+ * - children: Components that can use useAudio()
+ */
+export interface AudioProviderProps {
+  options?: AudioOptions;
+  children?: React.ReactNode;
+}
+
+/**
+ * Sound Context Value
+ *
+ * Everything useAudio() exposes to components inside the GameWrapper: the
+ * audio manager's functions plus its state and mixer as of the last render.
+ */
+interface SoundContextValue
+  extends Omit<AudioManager, "state" | "getMixer" | "subscribe" | "close"> {
+  state: AudioState;
+  mixer: MixerSettings;
+}
+
+const SoundContext = createContext<SoundContextValue | null>(null);
+
+/**
+ * useAudio Hook
+ *
+ * Custom hook that provides the GameWrapper's audio manager. Load samples
+ * in an effect and play them by name:
+ *
+ * ```tsx
+ * const { loadAll, play, synth } = useAudio();
+ * useEffect(() => {
+ *   loadAll({ coin: "/sounds/coin.wav" }).catch(console.error);
+ * }, [loadAll]);
+ * play("coin", { volume: 0.8 });
+ * synth("jump");
+ * ```
+ *
+ * Sounds requested before the player has interacted with the page are
+ * skipped (music waits and starts on unlock).
+ *
+ * @returns Object containing:
+ *   - state: "locked", "running" or "unavailable"
+ *   - mixer: Volume and mute of the master, music and sfx buses
+ *   - load / loadAll / isLoaded: Functions to load samples
+ *   - play: Function to play a sample as a one-shot or loop
+ *   - playMusic / stopMusic: Functions to control the music track
+ *   - synth: Function to play a procedural sound or preset
+ *   - setVolume / setMuted: Mixer functions
+ *   - unlock: Function to resume audio from a custom gesture handler
+ * @throws Error if used outside of a GameWrapper
+ */
+export function useAudio() {
+  const context = useContext(SoundContext);
+  if (!context) {
+    throw new Error("useAudio must be used within a GameWrapper");
+  }
+  return context;
+}
+
+/**
+ * Sound Trigger
+ *
+ * Plays a sound whenever an event is emitted:
+ * - event: Event to listen for
+ * - when: Only play when this returns true for the event's payload
+ * - sample: Name of a loaded sample to play, with optional PlayOptions
+ *   in `options`
+ * - synth: Synth preset or settings to play instead of a sample
+ */
+export type SoundTrigger<TEvents extends object = object> = {
+  [TType in GameEventType<TEvents>]: {
+    event: TType;
+    when?: (payload: EventPayload<TEvents, TType>) => boolean;
+    sample?: string;
+    options?: PlayOptions;
+    synth?: SynthPreset | SynthOptions;
+  };
+}[GameEventType<TEvents>];
+
+/**
+ * useSoundEvents Hook
+ *
+ * Maps bus events to sounds for as long as the calling component is
+ * mounted:
+ *
+ * ```tsx
+ * useSoundEvents([
+ *   { event: "collision", when: (c) => c.type === "land", synth: "land" },
+ *   { event: "itemCollected", sample: "coin" },
+ * ]);
+ * ```
+ *
+ * The triggers may change on every render.
+ *
+ * @param triggers - Events and the sounds they play (see SoundTrigger)
+ * @throws Error if used outside of a GameWrapper
+ */
+export function useSoundEvents<TEvents extends object = object>(
+  triggers: SoundTrigger<TEvents>[]
+) {
+  const { play, synth } = useAudio();
+
+  useEventTriggers<TEvents, SoundTrigger<TEvents>>(triggers, (trigger) => {
+    if (trigger.sample) play(trigger.sample, trigger.options);
+    if (trigger.synth) synth(trigger.synth);
+  });
+}
+
+/**
+ * AudioProvider Component
+ *
+ * Creates the audio manager once and closes it on unmount.
+ *
+ * @param props - See AudioProviderProps
+ */
+export function AudioProvider({ options, children }: AudioProviderProps) {
+  /**
+   * Audio State
+   *
+   * - audio: The wrapper's audio manager, created once
+   * - audioState / mixer: Mirrors of the manager's state for rendering
+   */
+  const [audio] = useState(() => createAudioManager(options));
+  const [audioState, setAudioState] = useState<AudioState>(audio.state);
+  const [mixer, setMixer] = useState<MixerSettings>(() => audio.getMixer());
+
+  /**
+   * Audio Setup
+   *
+   * Unlocks audio on the player's first interaction (browsers block sound
+   * until then), mirrors the manager's state for rendering, and releases
+   * the AudioContext on unmount.
+   */
+  useEffect(() => {
+    const handleGesture = () => {
+      void audio.unlock();
+    };
+    const unsubscribe = audio.subscribe(() => {
+      setAudioState(audio.state);
+      setMixer(audio.getMixer());
+    });
+
+    window.addEventListener("pointerdown", handleGesture, true);
+    window.addEventListener("keydown", handleGesture, true);
+    window.addEventListener("touchend", handleGesture, true);
+
+    return () => {
+      window.removeEventListener("pointerdown", handleGesture, true);
+      window.removeEventListener("keydown", handleGesture, true);
+      window.removeEventListener("touchend", handleGesture, true);
+      unsubscribe();
+      audio.close();
+    };
+  }, [audio]);
+
+  /**
+   * Sound Context Value
+   *
+   * Audio playback and mixer controls provided to child components.
+   */
+  const soundValue = {
+    state: audioState, // "locked" until the player interacts
+    mixer, // Volume and mute of each bus
+    unlock: audio.unlock, // Function to resume audio from a gesture
+    load: audio.load, // Function to load a sample
+    loadAll: audio.loadAll, // Function to load several samples
+    isLoaded: audio.isLoaded, // Function to check a sample is ready
+    play: audio.play, // Function to play a sample
+    playMusic: audio.playMusic, // Function to loop a music track
+    stopMusic: audio.stopMusic, // Function to stop the music
+    synth: audio.synth, // Function to play a procedural sound
+    setVolume: audio.setVolume, // Function to change a bus volume
+    setMuted: audio.setMuted, // Function to mute or unmute a bus
+  };
+
+  return (
+    <SoundContext.Provider value={soundValue}>{children}</SoundContext.Provider>
+  );
+}
+
+export default AudioProvider;
@@ -0,0 +1,184 @@
+/**
+ * CameraProvider Component
+ *
+ * Drives the GameWrapper's camera (see lib/camera.ts) from the game loop
+ * and shares it through useCamera(). GameWrapper renders this provider
+ * around the game area.
+ */
+import { createContext, useContext, useEffect, useState } from "react";
+import { EventPriority } from "../../lib/eventBus";
+import {
+  CameraBounds,
+  CameraOptions,
+  CameraState,
+  CameraTarget,
+  FollowOptions,
+  createCamera,
+} from "../../lib/camera";
+import { Point, useGameLoop } from "./GameLoopContext";
+
+/**
+ * CameraProvider Props
+ *
+ * - options: Initial camera settings, read once on mount
+ * - viewport: The game area; the camera's viewport follows its size
+ * - children: Components that can use useCamera()
+ */
+export interface CameraProviderProps {
+  options?: CameraOptions;
+  viewport: React.RefObject<HTMLElement | null>;
+  children?: React.ReactNode;
+}
+
+/**
+ * Camera Context Value
+ *
+ * Everything useCamera() exposes to components inside the GameWrapper.
+ */
+interface CameraContextValue extends CameraState {
+  transform: string;
+  getState: () => CameraState;
+  follow: (target: CameraTarget | null, options?: FollowOptions) => void;
+  moveTo: (x: number, y: number) => void;
+  setZoom: (zoom: number) => void;
+  setBounds: (bounds: CameraBounds | null) => void;
+  shake: (intensity: number, duration: number) => void;
+  worldToScreen: (point: Point) => Point;
+  screenToWorld: (point: Point) => Point;
+}
+
+const CameraContext = createContext<CameraContextValue | null>(null);
+
+/**
+ * useCamera Hook
+ *
+ * Custom hook that provides the GameWrapper's camera. Draw world-space
+ * objects inside an element placed at the top-left of the game area with
+ * the camera's transform:
+ *
+ * ```tsx
+ * const camera = useCamera();
+ * <div style={{ position: "absolute", left: 0, top: 0,
+ *   transformOrigin: "0 0", transform: camera.transform }}>...</div>
+ * ```
+ *
+ * The camera updates once per frame at EventPriority.Camera, after physics
+ * and game logic have moved the target and before effects run.
+ *
+ * @returns Object containing:
+ *   - x / y / zoom: Current view (see CameraState)
+ *   - shakeX / shakeY: Current shake offset in pixels
+ *   - viewportWidth / viewportHeight: Size of the game area
+ *   - transform: CSS transform for the world-space layer
+ *   - getState: Function returning the camera as of now, for code that
+ *     runs in the loop (the fields above are the last rendered snapshot)
+ *   - follow: Function to follow a point or body (null stops following)
+ *   - moveTo / setZoom / setBounds: Functions to place the camera
+ *   - shake: Function to start a screen shake
+ *   - worldToScreen / screenToWorld: Position conversion functions
+ * @throws Error if used outside of a GameWrapper
+ */
+export function useCamera() {
+  const context = useContext(CameraContext);
+  if (!context) {
+    throw new Error("useCamera must be used within a GameWrapper");
+  }
+  return context;
+}
+
+/**
+ * CameraProvider Component
+ *
+ * Keeps the camera's viewport in line with the game area, moves the
+ * camera every frame and re-renders with a snapshot when it changes.
+ *
+ * @param props - See CameraProviderProps
+ */
+export function CameraProvider({
+  options,
+  viewport,
+  children,
+}: CameraProviderProps) {
+  const { subscribe, fixedDeltaTime } = useGameLoop();
+
+  // The camera itself, created once
+  const [camera] = useState(() => createCamera(options));
+
+  // Snapshot of the camera taken after every update, used for rendering
+  const [cameraState, setCameraState] = useState<CameraState>(() =>
+    camera.getState()
+  );
+
+  /**
+   * Camera Viewport Setup
+   *
+   * Keeps the camera's viewport in sync with the size of the game area.
+   */
+  useEffect(() => {
+    const element = viewport.current;
+    if (!element) return;
+
+    const measure = () => {
+      camera.setViewport(element.clientWidth, element.clientHeight);
+      setCameraState(camera.getState());
+    };
+    measure();
+
+    // Not available in every test environment; the first size still counts
+    if (typeof ResizeObserver === "undefined") return;
+    const observer = new ResizeObserver(measure);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [camera, viewport]);
+
+  /**
+   * Camera Update
+   *
+   * Moves the camera once per frame, after physics and game logic. In
+   * fixed-timestep mode it runs on "render", after the frame's fixed ticks.
+   */
+  useEffect(() => {
+    return subscribe(
+      fixedDeltaTime !== null ? "render" : "tick",
+      (event) => {
+        camera.update(event.payload.deltaTime);
+        const next = camera.getState();
+        setCameraState((prev) =>
+          (Object.keys(next) as (keyof CameraState)[]).some(
+            (key) => prev[key] !== next[key]
+          )
+            ? next
+            : prev
+        );
+      },
+      { priority: EventPriority.Camera }
+    );
+  }, [subscribe, camera, fixedDeltaTime]);
+
+  /**
+   * Camera Context Value
+   *
+   * Latest camera snapshot plus its controls. Controls that move the
+   * camera take effect on screen at the next camera update.
+   */
+  const cameraValue = {
+    ...cameraState, // Position, zoom, shake and viewport size
+    transform: camera.getTransform(), // CSS transform for world space
+    getState: camera.getState, // Latest camera, for loop subscribers
+    follow: camera.follow, // Function to follow a target
+    moveTo: camera.moveTo, // Function to place the camera
+    setZoom: camera.setZoom, // Function to change the zoom
+    setBounds: camera.setBounds, // Function to limit the view
+    shake: camera.shake, // Function to start a screen shake
+    worldToScreen: camera.worldToScreen, // World → game area pixels
+    screenToWorld: camera.screenToWorld, // Game area pixels → world
+  };
+
+  return (
+    <CameraContext.Provider value={cameraValue}>
+      {children}
+    </CameraContext.Provider>
+  );
+}
+
+export default CameraProvider;
@@ -0,0 +1,273 @@
+/**
+ * Game Loop Context
+ *
+ * The event types and the context behind useGameLoop(). GameWrapper runs
+ * the loop and provides the context; the subsystem providers next to this
+ * file read it to subscribe to the bus, so they don't import GameWrapper.
+ */
+import { createContext, useContext } from "react";
+import { ActionState } from "../../lib/input";
+import { SubscribeOptions, WILDCARD } from "../../lib/eventBus";
+import { InputRecording } from "../../lib/recording";
+import { CollisionSide } from "../../lib/physics";
+
+/**
+ * Point Interface
+ *
+ * A 2D position in pixels.
+ */
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Built-in Event Payloads
+ *
+ * Data carried by the events GameWrapper and the example games emit.
+ */
+export interface TickPayload {
+  deltaTime: number; // Scaled seconds since the last frame
+  rawDeltaTime: number; // Unscaled seconds since the last frame
+}
+
+export interface FixedTickPayload {
+  deltaTime: number; // Constant seconds per fixed tick
+  step: number; // Index of this fixed tick within the frame
+}
+
+export interface RenderPayload {
+  deltaTime: number; // Scaled seconds since the last frame
+  alpha: number; // 0..1 progress between the last two fixed ticks
+}
+
+export interface CollisionPayload {
+  type: string; // Kind of collision, e.g. "land", "ceiling" or "wall"
+  platform?: string; // ID of the platform involved, if any
+  position: Point; // Where the collision happened
+  body?: string; // ID of the physics body that collided, if any
+  side?: CollisionSide; // Side of the body that made contact
+  normal?: Point; // Unit vector pointing away from the surface that was hit
+  impactSpeed?: number; // Speed into the surface just before impact (px/s)
+}
+
+export interface KeyChangePayload {
+  key: string; // Action that changed
+  pressed: boolean; // Whether the action is now pressed
+  input: string; // Physical input that caused the change, e.g. "key:w"
+  state: ActionState; // State of every action after the change
+}
+
+export interface GamepadChangePayload {
+  index: number; // Gamepad index
+  id: string; // Controller name reported by the browser
+  connected: boolean; // Whether it connected or disconnected
+}
+
+export interface PointerEventPayload {
+  screen: Point; // Position from the top-left of the game area
+  world: Point; // Position in centered world space
+  button: number; // Button that changed (0 left, 1 middle, 2 right)
+  buttons: { left: boolean; middle: boolean; right: boolean }; // Held buttons
+  pointerId: number; // Identifies the mouse/pen/finger
+  pointerType: string; // "mouse", "pen" or "touch"
+}
+
+export interface ReplayEndPayload {
+  recording: InputRecording; // Recording that finished
+  looping: boolean; // Whether the replay starts over
+}
+
+/**
+ * Game Events
+ *
+ * Maps each built-in event name to its payload type:
+ * - tick: Emitted every frame with the scaled deltaTime (and the unscaled
+ *   rawDeltaTime); not emitted while the loop is paused
+ * - fixedTick: Emitted zero or more times per frame at a fixed rate
+ *   (only when GameWrapper is given a fixedTickRate)
+ * - render: Emitted once per frame after fixed ticks with an interpolation
+ *   alpha (only when GameWrapper is given a fixedTickRate)
+ * - collision: Emitted when game objects collide
+ * - keyChange: Emitted when a key is pressed or released
+ * - gamepadChange: Emitted when a controller connects or disconnects
+ * - pointerDown / pointerUp / pointerMove: Emitted for mouse, pen and touch
+ *   input inside the game area
+ * - replayEnd: Emitted when a replay reaches its last frame
+ * - custom: For quick one-off events; prefer declaring your own event map
+ *
+ * Games add their own events by passing an event map to useGameLoop<T>()
+ * (and GameWrapper<T>), or app-wide by augmenting this interface.
+ */
+export interface GameEvents {
+  tick: TickPayload;
+  fixedTick: FixedTickPayload;
+  render: RenderPayload;
+  collision: CollisionPayload;
+  keyChange: KeyChangePayload;
+  gamepadChange: GamepadChangePayload;
+  pointerDown: PointerEventPayload;
+  pointerUp: PointerEventPayload;
+  pointerMove: PointerEventPayload;
+  replayEnd: ReplayEndPayload;
+  custom: unknown;
+}
+
+/**
+ * Event Map Helpers
+ *
+ * - AllEvents: Built-in events merged with a game's own event map
+ * - GameEventType: Every event name available to a game
+ * - EventPayload: Payload type of a single event
+ */
+type AllEvents<TEvents extends object> = GameEvents & TEvents;
+
+export type GameEventType<TEvents extends object = object> = Extract<
+  keyof AllEvents<TEvents>,
+  string
+>;
+
+export type EventPayload<
+  TEvents extends object,
+  TType extends GameEventType<TEvents>
+> = AllEvents<TEvents>[TType];
+
+/**
+ * Game Event Interface
+ *
+ * Structure for events in the game system:
+ * - type: The category of event
+ * - payload: Data associated with the event
+ * - timestamp: When the event occurred
+ */
+export interface GameEvent<TType extends string = string, TPayload = unknown> {
+  type: TType;
+  payload: TPayload;
+  timestamp: number;
+}
+
+/**
+ * Event Callback Type
+ *
+ * Function signature for event subscribers.
+ * Takes a GameEvent as parameter.
+ */
+export type EventCallback<TEvent extends GameEvent = GameEvent> = (
+  event: TEvent
+) => void;
+
+/**
+ * Payload Arguments
+ *
+ * Makes the payload argument of emit() optional for events whose payload
+ * may be undefined, and required otherwise.
+ */
+type PayloadArgs<TPayload> = undefined extends TPayload
+  ? [payload?: TPayload]
+  : [payload: TPayload];
+
+/**
+ * Any Game Event Type
+ *
+ * Union of every event a game can receive, as delivered to "*" subscribers.
+ */
+export type AnyGameEvent<TEvents extends object = object> = {
+  [TType in GameEventType<TEvents>]: GameEvent<
+    TType,
+    EventPayload<TEvents, TType>
+  >;
+}[GameEventType<TEvents>];
+
+/**
+ * Subscribe / Emit Function Types
+ *
+ * Typed against a game's event map so payloads are checked at compile time.
+ * Subscribing to "*" receives every event (useful for logging).
+ */
+export interface SubscribeFunction<TEvents extends object = object> {
+  <TType extends GameEventType<TEvents>>(
+    type: TType,
+    callback: EventCallback<GameEvent<TType, EventPayload<TEvents, TType>>>,
+    options?: SubscribeOptions
+  ): () => void;
+  (
+    type: typeof WILDCARD,
+    callback: EventCallback<AnyGameEvent<TEvents>>,
+    options?: SubscribeOptions
+  ): () => void;
+}
+
+export type SubscribeOnceFunction<TEvents extends object = object> =
+  SubscribeFunction<TEvents>;
+
+export type EmitFunction<TEvents extends object = object> = <
+  TType extends GameEventType<TEvents>
+>(
+  type: TType,
+  ...args: PayloadArgs<EventPayload<TEvents, TType>>
+) => void;
+
+/**
+ * Game Loop Context Value
+ *
+ * Everything useGameLoop() exposes to components inside the GameWrapper.
+ */
+export interface GameLoopContextValue<TEvents extends object = object> {
+  subscribe: SubscribeFunction<TEvents>;
+  subscribeOnce: SubscribeOnceFunction<TEvents>;
+  emit: EmitFunction<TEvents>;
+  enqueue: EmitFunction<TEvents>;
+  deltaTime: number;
+  fps: number;
+  fixedDeltaTime: number | null;
+  pause: (reason?: string) => void;
+  resume: (reason?: string) => void;
+  isPaused: boolean;
+  timeScale: number;
+  setTimeScale: (scale: number) => void;
+  beforeFrame: (callback: () => void) => () => void;
+}
+
+/**
+ * Game Loop Context
+ *
+ * Provides access to the game loop, timing, and event system.
+ */
+export const GameLoopContext = createContext<GameLoopContextValue | null>(
+  null
+);
+
+/**
+ * useGameLoop Hook
+ *
+ * Custom hook that provides access to the game loop and event system.
+ * Can be used by any component inside the GameWrapper. Pass the game's own
+ * event map to type-check its events:
+ * `const { emit } = useGameLoop<{ scored: { points: number } }>()`.
+ *
+ * @returns Object containing:
+ *   - subscribe: Function to subscribe to game events
+ *   - emit: Function to emit game events
+ *   - deltaTime: Scaled time in seconds since last frame
+ *   - fps: Current frames per second
+ *   - fixedDeltaTime: Seconds per fixed tick, or null when fixed-timestep
+ *     mode is off
+ *   - pause / resume: Stop and restart time for all game systems. A
+ *     pause can be given a reason; resume(reason) lifts only that one,
+ *     and resume() lifts them all
+ *   - isPaused: Whether the loop is currently paused
+ *   - timeScale / setTimeScale: Multiplier applied to deltaTime (1 is
+ *     normal speed, 0.5 is slow motion)
+ *   - beforeFrame: Function to run a callback at the start of every frame,
+ *     paused or not, before queued events are delivered (for input
+ *     sources that have to be polled)
+ * @throws Error if used outside of a GameWrapper
+ */
+export function useGameLoop<TEvents extends object = object>() {
+  const context = useContext(GameLoopContext);
+  if (!context) {
+    throw new Error("useGameLoop must be used within a GameWrapper");
+  }
+  // The bus is untyped at runtime; the event map only narrows the API
+  return context as unknown as GameLoopContextValue<TEvents>;
+}
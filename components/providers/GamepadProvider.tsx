@@ -0,0 +1,215 @@
+/**
+ * GamepadProvider Component
+ *
+ * Polls connected controllers once per frame, feeds their buttons, d-pad
+ * and stick directions into the GameWrapper's action state, and shares
+ * their analog values through useGamepad().
+ */
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { buildInputLookup } from "../../lib/input";
+import {
+  DEFAULT_DEADZONE,
+  GamepadAxes,
+  NEUTRAL_AXES,
+  axesChanged,
+  getConnectedGamepads,
+  readGamepad,
+} from "../../lib/gamepad";
+import { ActionContext } from "./ActionContext";
+import { useGameLoop } from "./GameLoopContext";
+
+/**
+ * GamepadProvider Props
+ *
+ * - deadzone: Analog stick deadzone, 0..1 (defaults to 0.25)
+ * - children: Components that can use useGamepad()
+ */
+export interface GamepadProviderProps {
+  deadzone?: number;
+  children?: React.ReactNode;
+}
+
+/**
+ * Gamepad Info Interface
+ *
+ * A connected controller and its latest analog values.
+ */
+export interface GamepadInfo extends GamepadAxes {
+  index: number;
+  id: string;
+}
+
+const GamepadContext = createContext<GamepadInfo[] | null>(null);
+
+/**
+ * useGamepad Hook
+ *
+ * Custom hook that provides the analog values of a controller. Buttons,
+ * the d-pad and stick directions already feed into action state; use this
+ * for smooth analog movement.
+ *
+ * @param index - Gamepad index (defaults to the first connected controller)
+ * @returns Object containing:
+ *   - connected: Whether a controller is connected at that index
+ *   - id: Controller name reported by the browser
+ *   - leftStick / rightStick: Stick positions after the deadzone
+ *   - leftTrigger / rightTrigger: Trigger values 0..1
+ * @throws Error if used outside of a GameWrapper
+ */
+export function useGamepad(index?: number) {
+  const gamepads = useContext(GamepadContext);
+  if (!gamepads) {
+    throw new Error("useGamepad must be used within a GameWrapper");
+  }
+  const pad =
+    index === undefined
+      ? gamepads[0]
+      : gamepads.find((gamepad) => gamepad.index === index);
+
+  return pad
+    ? { connected: true, ...pad }
+    : { connected: false, index: index ?? 0, id: "", ...NEUTRAL_AXES };
+}
+
+/**
+ * GamepadProvider Component
+ *
+ * Must be placed inside the GameWrapper's action context.
+ *
+ * @param props - See GamepadProviderProps
+ */
+export function GamepadProvider({
+  deadzone = DEFAULT_DEADZONE,
+  children,
+}: GamepadProviderProps) {
+  const { emit, beforeFrame } = useGameLoop();
+  const actions = useContext(ActionContext);
+  if (!actions) {
+    throw new Error("GamepadProvider must be used within a GameWrapper");
+  }
+  const { bindings, setInputHeld, releaseInputs } = actions;
+
+  /**
+   * Gamepad State
+   *
+   * - gamepads: Connected controllers with their latest analog values
+   * - gamepadInputsRef: Inputs each controller held at the last poll, used
+   *   to detect presses and releases between frames
+   * - pollGamepadsRef: Latest pollGamepads function, so the long-lived
+   *   frame callback always polls with the current bindings
+   */
+  const [gamepads, setGamepads] = useState<GamepadInfo[]>([]);
+  const gamepadInputsRef = useRef<Map<number, Set<string>>>(new Map());
+  const pollGamepadsRef = useRef<() => void>(() => {});
+
+  // Normalized input → actions map, rebuilt whenever bindings change
+  const inputLookup = useMemo(() => buildInputLookup(bindings), [bindings]);
+
+  /**
+   * Gamepad Polling
+   *
+   * Called at the start of every frame. The Gamepad API has no button
+   * events, so presses and releases are found by diffing each controller's
+   * held inputs against the previous poll.
+   */
+  pollGamepadsRef.current = () => {
+    const pads = getConnectedGamepads();
+    if (pads.length === 0 && gamepads.length === 0) return;
+
+    let axesDirty = pads.length !== gamepads.length;
+    const nextGamepads = pads.map((pad) => {
+      const { inputs, axes } = readGamepad(pad, deadzone);
+      const previousInputs = gamepadInputsRef.current.get(pad.index) ?? new Set();
+
+      // Report changed inputs for every action they are bound to
+      inputs.forEach((input) => {
+        if (!previousInputs.has(input)) {
+          inputLookup
+            .get(input)
+            ?.forEach((action) =>
+              setInputHeld(action, `pad${pad.index}:${input}`, true)
+            );
+        }
+      });
+      previousInputs.forEach((input) => {
+        if (!inputs.has(input)) {
+          inputLookup
+            .get(input)
+            ?.forEach((action) =>
+              setInputHeld(action, `pad${pad.index}:${input}`, false)
+            );
+        }
+      });
+      gamepadInputsRef.current.set(pad.index, inputs);
+
+      const previous = gamepads.find((gamepad) => gamepad.index === pad.index);
+      if (!previous || axesChanged(previous, axes)) axesDirty = true;
+
+      return { index: pad.index, id: pad.id, ...axes };
+    });
+
+    // Only re-render when a stick or trigger actually moved
+    if (axesDirty) setGamepads(nextGamepads);
+  };
+
+  /**
+   * Frame Polling Setup
+   *
+   * Polls before the loop's pause check, so a controller can still
+   * unpause the game.
+   */
+  useEffect(() => {
+    return beforeFrame(() => pollGamepadsRef.current());
+  }, [beforeFrame]);
+
+  /**
+   * Gamepad Connection Setup
+   *
+   * Emits gamepadChange events when controllers come and go, and releases
+   * everything a disconnected controller was holding.
+   */
+  useEffect(() => {
+    const handleConnected = (e: GamepadEvent) => {
+      emit("gamepadChange", {
+        index: e.gamepad.index,
+        id: e.gamepad.id,
+        connected: true,
+      });
+    };
+
+    const handleDisconnected = (e: GamepadEvent) => {
+      const prefix = `pad${e.gamepad.index}:`;
+      releaseInputs((_, input) => input.startsWith(prefix));
+      gamepadInputsRef.current.delete(e.gamepad.index);
+
+      emit("gamepadChange", {
+        index: e.gamepad.index,
+        id: e.gamepad.id,
+        connected: false,
+      });
+    };
+
+    window.addEventListener("gamepadconnected", handleConnected);
+    window.addEventListener("gamepaddisconnected", handleDisconnected);
+
+    return () => {
+      window.removeEventListener("gamepadconnected", handleConnected);
+      window.removeEventListener("gamepaddisconnected", handleDisconnected);
+    };
+  }, [emit, releaseInputs]);
+
+  return (
+    <GamepadContext.Provider value={gamepads}>
+      {children}
+    </GamepadContext.Provider>
+  );
+}
+
+export default GamepadProvider;
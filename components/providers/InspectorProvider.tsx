@@ -0,0 +1,113 @@
+/**
+ * InspectorProvider Component
+ *
+ * Holds the values games register with useDevValue() and renders the dev
+ * overlay (components/DevOverlay.tsx) that shows them. The overlay is left
+ * out of production builds; registering values still works there.
+ */
+import { createContext, useContext, useEffect, useRef, useState } from "react";
+import dynamic from "next/dynamic";
+import {
+  InspectedValue,
+  Inspector,
+  InspectorEntry,
+  createInspector,
+} from "../../lib/devtools";
+
+/**
+ * Dev Overlay
+ *
+ * Loaded on demand in development only. NODE_ENV is inlined at build
+ * time, so production bundles don't contain the overlay at all.
+ */
+const DevOverlay =
+  process.env.NODE_ENV === "production"
+    ? null
+    : dynamic(() => import("../DevOverlay"), { ssr: false });
+
+/**
+ * InspectorProvider Props
+ *
+ * - overlay: Let the ` key open the dev overlay (defaults to true)
+ * - children: Components that can use useDevValue()
+ */
+export interface InspectorProviderProps {
+  overlay?: boolean;
+  children?: React.ReactNode;
+}
+
+const InspectorContext = createContext<Inspector | null>(null);
+
+/**
+ * useDevValue Hook
+ *
+ * Shows a value in the dev overlay's inspector for as long as the calling
+ * component is mounted, and lets it be edited there if `set` is given:
+ *
+ * ```tsx
+ * useDevValue("player.speed", () => speedRef.current, (speed) => {
+ *   speedRef.current = speed;
+ * });
+ * ```
+ *
+ * The value is read while the overlay is open, so `get` should be cheap.
+ * Registering costs next to nothing, so there's no need to strip calls
+ * from production builds. The functions may change on every render.
+ *
+ * @param name - Label in the inspector, e.g. "player.x"
+ * @param get - Returns the current value
+ * @param set - Applies a value edited in the overlay (optional)
+ * @param options - Step of number inputs (see InspectorEntry)
+ * @throws Error if used outside of a GameWrapper
+ */
+export function useDevValue<T extends InspectedValue>(
+  name: string,
+  get: () => T,
+  set?: (value: T) => void,
+  options: Pick<InspectorEntry<T>, "step"> = {}
+) {
+  const inspector = useContext(InspectorContext);
+  if (!inspector) {
+    throw new Error("useDevValue must be used within a GameWrapper");
+  }
+
+  const getRef = useRef(get);
+  getRef.current = get;
+  const setRef = useRef(set);
+  setRef.current = set;
+
+  const editable = set !== undefined;
+  const { step } = options;
+  useEffect(() => {
+    return inspector.register<T>(name, {
+      get: () => getRef.current(),
+      set: editable ? (value) => setRef.current?.(value) : undefined,
+      step,
+    });
+  }, [inspector, name, editable, step]);
+}
+
+/**
+ * InspectorProvider Component
+ *
+ * Creates the inspector once and renders the dev overlay after its
+ * children.
+ *
+ * @param props - See InspectorProviderProps
+ */
+export function InspectorProvider({
+  overlay = true,
+  children,
+}: InspectorProviderProps) {
+  // Values registered with useDevValue(), shown in the dev overlay
+  const [inspector] = useState(createInspector);
+
+  return (
+    <InspectorContext.Provider value={inspector}>
+      {children}
+      {DevOverlay && overlay && <DevOverlay inspector={inspector} />}
+    </InspectorContext.Provider>
+  );
+}
+
+export default InspectorProvider;
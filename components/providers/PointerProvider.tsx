@@ -0,0 +1,224 @@
+/**
+ * PointerProvider Component
+ *
+ * Tracks mouse, pen and touch input over the game area, emits pointer
+ * events on the bus, and shares the latest pointer state through
+ * usePointerState(). World positions come from the camera, so it must be
+ * placed inside the CameraProvider.
+ */
+import { createContext, useContext, useEffect, useRef, useState } from "react";
+import { Point, useGameLoop } from "./GameLoopContext";
+import { useCamera } from "./CameraProvider";
+
+/**
+ * PointerProvider Props
+ *
+ * - viewport: The game area; pointer positions are relative to it
+ * - children: Components that can use usePointerState()
+ */
+export interface PointerProviderProps {
+  viewport: React.RefObject<HTMLElement | null>;
+  children?: React.ReactNode;
+}
+
+/**
+ * Pointer State Interface
+ *
+ * Latest mouse/pen/touch state inside the game area:
+ * - screen: Position relative to the top-left of the game area
+ * - world: Position in the centered world space used by game objects
+ *   (positive Y down), seen through the camera. With the camera at rest
+ *   the origin is the middle of the game area, i.e. the same x/y you
+ *   would put in `calc(50% + xpx)`
+ * - buttons: Which mouse buttons are held
+ * - isDown: Whether any button (or a touch) is held
+ * - isInside: Whether the pointer is over the game area
+ * - wheelDelta: Vertical wheel movement during the last frame
+ */
+export interface PointerState {
+  screen: Point;
+  world: Point;
+  buttons: { left: boolean; middle: boolean; right: boolean };
+  isDown: boolean;
+  isInside: boolean;
+  wheelDelta: number;
+}
+
+/**
+ * Initial Pointer State
+ */
+const INITIAL_POINTER_STATE: PointerState = {
+  screen: { x: 0, y: 0 },
+  world: { x: 0, y: 0 },
+  buttons: { left: false, middle: false, right: false },
+  isDown: false,
+  isInside: false,
+  wheelDelta: 0,
+};
+
+const PointerContext = createContext<PointerState | null>(null);
+
+/**
+ * usePointerState Hook
+ *
+ * Custom hook that provides the mouse/pointer position (in screen and world
+ * space), button state and wheel movement. For click or drag handling,
+ * subscribe to the pointerDown/pointerUp/pointerMove events instead.
+ *
+ * @returns Current pointer state (see PointerState)
+ * @throws Error if used outside of a GameWrapper
+ */
+export function usePointerState() {
+  const context = useContext(PointerContext);
+  if (!context) {
+    throw new Error("usePointerState must be used within a GameWrapper");
+  }
+  return context;
+}
+
+/**
+ * PointerProvider Component
+ *
+ * @param props - See PointerProviderProps
+ */
+export function PointerProvider({ viewport, children }: PointerProviderProps) {
+  const { emit, beforeFrame } = useGameLoop();
+  const { screenToWorld } = useCamera();
+
+  /**
+   * Pointer State
+   *
+   * - pointerState: Latest pointer position, buttons and wheel movement
+   * - wheelAccumulatorRef: Wheel movement since the start of the frame
+   */
+  const [pointerState, setPointerState] = useState<PointerState>(
+    INITIAL_POINTER_STATE
+  );
+  const wheelAccumulatorRef = useRef<number>(0);
+
+  /**
+   * Wheel Publishing
+   *
+   * Publishes each frame's wheel movement (and clears last frame's) at the
+   * start of the frame, paused or not.
+   */
+  useEffect(() => {
+    return beforeFrame(() => {
+      const wheelDelta = wheelAccumulatorRef.current;
+      wheelAccumulatorRef.current = 0;
+      setPointerState((prev) =>
+        prev.wheelDelta === wheelDelta ? prev : { ...prev, wheelDelta }
+      );
+    });
+  }, [beforeFrame]);
+
+  /**
+   * Pointer Input Setup
+   *
+   * Tracks mouse, pen and touch input over the game area and emits
+   * pointerDown/pointerUp/pointerMove events with screen and world
+   * positions.
+   */
+  useEffect(() => {
+    const element = viewport.current;
+    if (!element) return;
+
+    /**
+     * Read Pointer
+     *
+     * Converts a DOM pointer event into screen and world positions plus
+     * button state.
+     *
+     * @param e - Pointer or wheel event
+     */
+    const readPointer = (e: PointerEvent | WheelEvent) => {
+      const rect = element.getBoundingClientRect();
+      const screen = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+      const world = screenToWorld(screen);
+      const buttons = {
+        left: (e.buttons & 1) !== 0,
+        right: (e.buttons & 2) !== 0,
+        middle: (e.buttons & 4) !== 0,
+      };
+      return { screen, world, buttons };
+    };
+
+    /**
+     * Pointer Handler Factory
+     *
+     * Builds a handler that updates pointer state and emits the given event.
+     *
+     * @param type - Event to emit, or null to only update state
+     */
+    const handlePointer =
+      (type: "pointerDown" | "pointerUp" | "pointerMove" | null) =>
+      (e: PointerEvent) => {
+        const { screen, world, buttons } = readPointer(e);
+        const isDown = e.buttons !== 0;
+        const isInside = e.type !== "pointerleave";
+
+        setPointerState((prev) => ({
+          ...prev,
+          screen,
+          world,
+          buttons,
+          isDown,
+          isInside,
+        }));
+
+        if (type) {
+          emit(type, {
+            screen,
+            world,
+            button: e.button,
+            buttons,
+            pointerId: e.pointerId,
+            pointerType: e.pointerType,
+          });
+        }
+      };
+
+    const handlePointerDown = handlePointer("pointerDown");
+    const handlePointerUp = handlePointer("pointerUp");
+    const handlePointerMove = handlePointer("pointerMove");
+    const handlePointerLeave = handlePointer(null);
+
+    /**
+     * Wheel Handler
+     *
+     * Accumulates wheel movement; the game loop publishes it once per frame.
+     */
+    const handleWheel = (e: WheelEvent) => {
+      wheelAccumulatorRef.current += e.deltaY;
+    };
+
+    // Right-click is a game input here, not a browser menu
+    const handleContextMenu = (e: MouseEvent) => e.preventDefault();
+
+    element.addEventListener("pointerdown", handlePointerDown);
+    element.addEventListener("pointerup", handlePointerUp);
+    element.addEventListener("pointercancel", handlePointerUp);
+    element.addEventListener("pointermove", handlePointerMove);
+    element.addEventListener("pointerleave", handlePointerLeave);
+    element.addEventListener("wheel", handleWheel, { passive: true });
+    element.addEventListener("contextmenu", handleContextMenu);
+
+    return () => {
+      element.removeEventListener("pointerdown", handlePointerDown);
+      element.removeEventListener("pointerup", handlePointerUp);
+      element.removeEventListener("pointercancel", handlePointerUp);
+      element.removeEventListener("pointermove", handlePointerMove);
+      element.removeEventListener("pointerleave", handlePointerLeave);
+      element.removeEventListener("wheel", handleWheel);
+      element.removeEventListener("contextmenu", handleContextMenu);
+    };
+  }, [emit, screenToWorld, viewport]);
+
+  return (
+    <PointerContext.Provider value={pointerState}>
+      {children}
+    </PointerContext.Provider>
+  );
+}
+
+export default PointerProvider;
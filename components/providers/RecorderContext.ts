@@ -0,0 +1,64 @@
+/**
+ * Recorder Context
+ *
+ * The context behind useRecorder(). GameWrapper records and replays input
+ * as part of its loop and provides the context; hooks that end a run, like
+ * useScoreSubmit(), read it from here.
+ */
+import { createContext, useContext } from "react";
+import { InputRecording } from "../../lib/recording";
+
+/**
+ * Replay Options
+ *
+ * - loop: Start over from the first frame when the replay ends
+ */
+export interface ReplayOptions {
+  loop?: boolean;
+}
+
+/**
+ * Recorder Context Value
+ *
+ * Everything useRecorder() exposes to components inside the GameWrapper.
+ */
+export interface RecorderContextValue {
+  isRecording: boolean;
+  isReplaying: boolean;
+  startRecording: (meta?: Record<string, unknown>) => void;
+  stopRecording: () => InputRecording | null;
+  startReplay: (recording: InputRecording, options?: ReplayOptions) => void;
+  stopReplay: () => void;
+}
+
+/**
+ * Recorder Context
+ *
+ * Provides input recording and replay controls.
+ */
+export const RecorderContext = createContext<RecorderContextValue | null>(
+  null
+);
+
+/**
+ * useRecorder Hook
+ *
+ * Custom hook for recording play sessions and replaying them. Recordings
+ * can be exported with serializeRecording() and imported with
+ * parseRecording() from lib/recording.
+ *
+ * @returns Object containing:
+ *   - isRecording / isReplaying: Current recorder state
+ *   - startRecording: Function to start capturing input and frame timing
+ *   - stopRecording: Function to stop and return the recording
+ *   - startReplay: Function to play a recording back in place of live input
+ *   - stopReplay: Function to return control to the player
+ * @throws Error if used outside of a GameWrapper
+ */
+export function useRecorder() {
+  const context = useContext(RecorderContext);
+  if (!context) {
+    throw new Error("useRecorder must be used within a GameWrapper");
+  }
+  return context;
+}
@@ -0,0 +1,258 @@
+/**
+ * SaveProvider Component
+ *
+ * Owns the GameWrapper's save system (see lib/save.ts) and shares it
+ * through useSaveGame() and useSaveState(), and autosaves when configured
+ * to.
+ */
+import { createContext, useContext, useEffect, useRef, useState } from "react";
+import { EventPriority } from "../../lib/eventBus";
+import {
+  LoadResult,
+  SaveSlotInfo,
+  SaveSystem,
+  SaveSystemOptions,
+  createSaveSystem,
+} from "../../lib/save";
+import { GameEventType, useGameLoop } from "./GameLoopContext";
+
+/**
+ * Autosave Options
+ *
+ * - slot: Slot autosaves are written to and loaded from (defaults to
+ *   "autosave")
+ * - interval: Seconds of game time between autosaves, so a paused game
+ *   isn't saved over and over (defaults to no interval)
+ * - events: Bus events that trigger an autosave, e.g. "levelComplete"
+ * - onHide: Save when the tab is hidden or the page is closed (defaults
+ *   to true)
+ * - load: Load the slot when the wrapper mounts (defaults to true)
+ */
+export interface AutosaveOptions {
+  slot?: string;
+  interval?: number;
+  events?: string[];
+  onHide?: boolean;
+  load?: boolean;
+}
+
+/**
+ * Save Options
+ *
+ * Save system settings (see SaveSystemOptions) plus:
+ * - autosave: When to save automatically (see AutosaveOptions); leave
+ *   unset to only save and load on request
+ */
+export interface SaveOptions extends SaveSystemOptions {
+  autosave?: AutosaveOptions;
+}
+
+/**
+ * Save Context Value
+ *
+ * Everything useSaveGame() exposes to components inside the GameWrapper:
+ * the save system's functions plus its slots as of the last render.
+ */
+interface SaveContextValue
+  extends Pick<SaveSystem, "register" | "save" | "load" | "remove"> {
+  slots: SaveSlotInfo[];
+  lastLoad: LoadResult | null;
+}
+
+/**
+ * SaveProvider Props
+ *
+ * - options: Save version, migrations and autosave settings (read once)
+ * - children: Components that can use useSaveGame() and useSaveState()
+ */
+export interface SaveProviderProps {
+  options?: SaveOptions;
+  children?: React.ReactNode;
+}
+
+const SaveContext = createContext<SaveContextValue | null>(null);
+
+/**
+ * useSaveGame Hook
+ *
+ * Custom hook that provides the GameWrapper's save slots, e.g. for a
+ * save/load menu:
+ *
+ * ```tsx
+ * const { save, load, slots } = useSaveGame();
+ * <button onClick={() => save("slot-1")}>Save</button>
+ * {slots.map(({ slot }) => <button onClick={() => load(slot)}>{slot}</button>)}
+ * ```
+ *
+ * @returns Object containing:
+ *   - slots: Slots with a save in them, most recent first
+ *   - lastLoad: Result of the last load (see LoadResult), or null
+ *   - save: Function to save every registered piece of state to a slot
+ *   - load: Function to load a slot
+ *   - remove: Function to delete a slot
+ *   - register: Function to register state outside of useSaveState()
+ * @throws Error if used outside of a GameWrapper
+ */
+export function useSaveGame() {
+  const context = useContext(SaveContext);
+  if (!context) {
+    throw new Error("useSaveGame must be used within a GameWrapper");
+  }
+  return context;
+}
+
+/**
+ * useSaveState Hook
+ *
+ * Includes a piece of the calling component's state in every save for as
+ * long as it's mounted:
+ *
+ * ```tsx
+ * useSaveState(
+ *   "score",
+ *   () => scoreRef.current,
+ *   (score: number) => (scoreRef.current = score)
+ * );
+ * ```
+ *
+ * Loading restores the state, including a load that happened before the
+ * component mounted. The functions may change on every render.
+ *
+ * @param name - Unique name of the state in save files
+ * @param save - Returns the state to store; must be JSON-serializable
+ * @param load - Restores the state from a save
+ * @throws Error if used outside of a GameWrapper
+ */
+export function useSaveState<T>(
+  name: string,
+  save: () => T,
+  load: (data: T) => void
+) {
+  const { register } = useSaveGame();
+
+  const saveRef = useRef(save);
+  saveRef.current = save;
+  const loadRef = useRef(load);
+  loadRef.current = load;
+
+  useEffect(() => {
+    return register<T>(name, {
+      save: () => saveRef.current(),
+      load: (data) => loadRef.current(data),
+    });
+  }, [register, name]);
+}
+
+/**
+ * SaveProvider Component
+ *
+ * Loads the autosave slot after mount, once children have registered
+ * their state.
+ *
+ * @param props - See SaveProviderProps
+ */
+export function SaveProvider({ options, children }: SaveProviderProps) {
+  const { subscribe } = useGameLoop();
+
+  /**
+   * Save State
+   *
+   * - saves: The wrapper's save system, created once
+   * - saveSlots / lastLoad: Mirrors of the save system for rendering
+   */
+  const [saves] = useState(() => createSaveSystem(options));
+  const [saveSlots, setSaveSlots] = useState<SaveSlotInfo[]>([]);
+  const [lastLoad, setLastLoad] = useState<LoadResult | null>(null);
+  const autosaveRef = useRef(options?.autosave);
+
+  /**
+   * Save Setup
+   *
+   * Mirrors the save system for rendering and loads the autosave slot.
+   * Children register their state in their own effects, which run before
+   * this one, so the load reaches them straight away.
+   */
+  useEffect(() => {
+    const unsubscribe = saves.subscribe(() => {
+      setSaveSlots(saves.listSlots());
+      setLastLoad(saves.lastLoad);
+    });
+    setSaveSlots(saves.listSlots());
+
+    const autosave = autosaveRef.current;
+    if (autosave && autosave.load !== false) {
+      saves.load(autosave.slot);
+    }
+
+    return unsubscribe;
+  }, [saves]);
+
+  /**
+   * Autosave
+   *
+   * Saves to the autosave slot every `interval` seconds of game time,
+   * whenever one of the autosave events is emitted, and when the page is
+   * hidden or closed.
+   */
+  useEffect(() => {
+    const autosave = autosaveRef.current;
+    if (!autosave) return;
+    const { slot, interval, events = [], onHide = true } = autosave;
+    const saveNow = () => {
+      saves.save(slot);
+    };
+
+    // Autosave events are the game's own, so they aren't in the event map
+    const unsubscribes = events.map((type) =>
+      subscribe(type as GameEventType, saveNow, {
+        priority: EventPriority.Logging,
+      })
+    );
+
+    if (interval && interval > 0) {
+      let elapsed = 0;
+      unsubscribes.push(
+        subscribe("tick", ({ payload }) => {
+          elapsed += payload.deltaTime;
+          if (elapsed < interval) return;
+          elapsed = 0;
+          saveNow();
+        })
+      );
+    }
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") saveNow();
+    };
+    if (onHide) {
+      document.addEventListener("visibilitychange", handleVisibilityChange);
+      window.addEventListener("pagehide", saveNow);
+    }
+
+    return () => {
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.removeEventListener("pagehide", saveNow);
+    };
+  }, [subscribe, saves]);
+
+  /**
+   * Save Context Value
+   *
+   * Save slots and state registration provided to child components.
+   */
+  const saveValue = {
+    slots: saveSlots, // Slots with a save in them, most recent first
+    lastLoad, // Result of the last load
+    register: saves.register, // Function to add state to every save
+    save: saves.save, // Function to save to a slot
+    load: saves.load, // Function to load a slot
+    remove: saves.remove, // Function to delete a slot
+  };
+
+  return (
+    <SaveContext.Provider value={saveValue}>{children}</SaveContext.Provider>
+  );
+}
+
+export default SaveProvider;
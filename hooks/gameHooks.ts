@@ -8,15 +8,217 @@
 import { 
   useKeyState, 
   useGameLoop, 
+  useActionState,
+  useInputBindings,
+  useGamepad,
+  useVirtualInput,
+  usePointerState,
+  useRecorder,
+  useWorld,
+  useQuery,
+  usePhysics,
+  useParticles,
+  useParticleEmitter,
+  useAnimation,
+  useCamera,
+  useAudio,
+  useSoundEvents,
+  useSaveGame,
+  useSaveState,
+  useScoreSubmit,
+  useDevValue,
+  SoundTrigger,
+  SaveOptions,
+  ScoreSubmitOptions,
   GameEventType, 
   GameEvent, 
-  EventCallback 
+  AnyGameEvent,
+  EventCallback,
+  GameEvents,
+  EventPayload,
+  CollisionPayload,
+  KeyChangePayload,
+  PointerState,
+  Point
 } from '../components/GameWrapper';
+import {
+  keyStateBindings,
+  ActionState,
+  InputBindings,
+  KeyState
+} from '../lib/input';
+import { EventPriority, SubscribeOptions } from '../lib/eventBus';
+import { createWorld, Entity, World, QueryRow, System } from '../lib/ecs';
+import {
+  createPhysicsWorld,
+  PhysicsBody,
+  PhysicsWorld,
+  Contact,
+  CollisionSide
+} from '../lib/physics';
+import { parseLevel, loadLevel, getLevelColliders, getSpawn, Level } from '../lib/level';
+import { importTiledMap, loadTiledMap } from '../lib/tiled';
+import { CameraBounds, CameraTarget, FollowOptions } from '../lib/camera';
+import { useDrawLayer, DrawFrame, RenderBackend } from '../components/GameCanvas';
+import { useScene, SceneDefinition } from '../components/SceneManager';
+import { createSceneManager, SceneScope } from '../lib/scenes';
+import { createDrawList, DrawList, DrawCommand } from '../lib/render';
+import {
+  createParticleSystem,
+  ParticleSystem,
+  EmitterConfig
+} from '../lib/particles';
+import {
+  createGridSheet,
+  parseAtlas,
+  loadAtlas,
+  drawSprite,
+  SpriteSheet
+} from '../lib/sprites';
+import {
+  createAnimator,
+  createAnimationMachine,
+  AnimationClip,
+  AnimationMachine,
+  AnimationMachineConfig
+} from '../lib/animation';
+import {
+  createAudioManager,
+  SYNTH_PRESETS,
+  AudioManager,
+  PlayOptions,
+  SoundHandle,
+  SynthOptions
+} from '../lib/audio';
+import {
+  createSaveSystem,
+  expectNumbers,
+  SaveDataError,
+  LoadResult,
+  SaveMigration
+} from '../lib/save';
+import {
+  fetchScores,
+  submitScore,
+  loadBestScores,
+  getBestScore,
+  ScoreEntry,
+  ScoreSubmission,
+  SubmittedScore
+} from '../lib/scores';
+import { InspectedValue } from '../lib/devtools';
+import {
+  serializeRecording,
+  parseRecording,
+  simulateRecording,
+  InputRecording
+} from '../lib/recording';
 
 export { 
   useKeyState, 
   useGameLoop, 
+  useActionState,
+  useInputBindings,
+  useGamepad,
+  useVirtualInput,
+  usePointerState,
+  useRecorder,
+  useWorld,
+  useQuery,
+  usePhysics,
+  useParticles,
+  useParticleEmitter,
+  useAnimation,
+  useCamera,
+  useAudio,
+  useSoundEvents,
+  useSaveGame,
+  useSaveState,
+  useScoreSubmit,
+  useDevValue,
+  useDrawLayer,
+  useScene,
+  createWorld,
+  createPhysicsWorld,
+  parseLevel,
+  loadLevel,
+  getLevelColliders,
+  getSpawn,
+  importTiledMap,
+  loadTiledMap,
+  createDrawList,
+  createParticleSystem,
+  createGridSheet,
+  parseAtlas,
+  loadAtlas,
+  drawSprite,
+  createAnimator,
+  createAnimationMachine,
+  createAudioManager,
+  SYNTH_PRESETS,
+  createSaveSystem,
+  expectNumbers,
+  SaveDataError,
+  fetchScores,
+  submitScore,
+  loadBestScores,
+  getBestScore,
+  createSceneManager,
+  keyStateBindings,
+  EventPriority,
+  serializeRecording,
+  parseRecording,
+  simulateRecording,
+  type SubscribeOptions,
+  type InputRecording,
+  type Entity,
+  type World,
+  type QueryRow,
+  type System,
+  type PhysicsBody,
+  type PhysicsWorld,
+  type Contact,
+  type CollisionSide,
+  type Level,
+  type CameraBounds,
+  type CameraTarget,
+  type FollowOptions,
+  type DrawList,
+  type DrawCommand,
+  type DrawFrame,
+  type RenderBackend,
+  type ParticleSystem,
+  type EmitterConfig,
+  type SpriteSheet,
+  type AnimationClip,
+  type AnimationMachine,
+  type AnimationMachineConfig,
+  type AudioManager,
+  type PlayOptions,
+  type SoundHandle,
+  type SynthOptions,
+  type SoundTrigger,
+  type SaveOptions,
+  type LoadResult,
+  type SaveMigration,
+  type ScoreSubmitOptions,
+  type ScoreEntry,
+  type ScoreSubmission,
+  type SubmittedScore,
+  type InspectedValue,
+  type SceneDefinition,
+  type SceneScope,
   type GameEventType, 
   type GameEvent, 
-  type EventCallback 
+  type AnyGameEvent,
+  type EventCallback,
+  type GameEvents,
+  type EventPayload,
+  type CollisionPayload,
+  type KeyChangePayload,
+  type PointerState,
+  type Point,
+  type ActionState,
+  type InputBindings,
+  type KeyState
 };
\ No newline at end of file
@@ -0,0 +1,73 @@
+/**
+ * useAnimation Hook
+ *
+ * Advances an animation state machine (see lib/animation.ts) from the
+ * game loop.
+ */
+import { useEffect, useRef, useState } from "react";
+import { EventPriority } from "../lib/eventBus";
+import {
+  AnimationMachine,
+  AnimationMachineConfig,
+  createAnimationMachine,
+} from "../lib/animation";
+import { useGameLoop } from "../components/providers/GameLoopContext";
+import { WorldOptions } from "./useWorld";
+
+/**
+ * useAnimation Hook
+ *
+ * Creates an animation state machine that lives as long as the calling
+ * component and advances on every game loop tick at
+ * EventPriority.Animation, after game logic has moved the entity. Time
+ * comes from the loop's deltaTime, so animations follow pause and time
+ * scaling:
+ *
+ * ```tsx
+ * const hero = useAnimation(HERO_ANIMATION, () => physics.getBody("hero"));
+ * useDrawLayer((draw) => hero.draw(draw, HERO_SHEET, body.x, body.y));
+ * ```
+ *
+ * The config is read once, when the machine is created. getContext may
+ * change on every render; the latest one is used, and the machine holds
+ * still while it returns null or undefined. For many entities, create a
+ * machine per entity with createAnimationMachine() and update them from
+ * an ECS system instead.
+ *
+ * @param config - Clips, states and transitions (see
+ *   AnimationMachineConfig)
+ * @param getContext - Returns the entity's current state for transitions
+ * @param options - See WorldOptions
+ * @returns The component's animation machine
+ * @throws Error if used outside of a GameWrapper
+ */
+export function useAnimation<
+  TState extends string,
+  TContext,
+  TClip extends string = string,
+>(
+  config: AnimationMachineConfig<TState, TContext, TClip>,
+  getContext: () => TContext | null | undefined,
+  options: WorldOptions = {}
+): AnimationMachine<TState, TContext, TClip> {
+  const { subscribe } = useGameLoop();
+  const [machine] = useState(() => createAnimationMachine(config));
+  const { step = "tick", priority = EventPriority.Animation } = options;
+
+  const getContextRef = useRef(getContext);
+  getContextRef.current = getContext;
+
+  useEffect(() => {
+    return subscribe(
+      step,
+      (event) => {
+        const context = getContextRef.current();
+        if (context === null || context === undefined) return;
+        machine.update(event.payload.deltaTime, context);
+      },
+      { priority }
+    );
+  }, [subscribe, machine, step, priority]);
+
+  return machine;
+}
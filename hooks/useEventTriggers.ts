@@ -0,0 +1,78 @@
+/**
+ * useEventTriggers Hook
+ *
+ * Turns a list of event triggers into bus subscriptions. useSoundEvents()
+ * and useParticleEmitter() are built on it.
+ */
+import { useEffect, useRef } from "react";
+import {
+  EventPayload,
+  GameEventType,
+  useGameLoop,
+} from "../components/providers/GameLoopContext";
+
+/**
+ * Event Trigger
+ *
+ * Fires whenever an event is emitted:
+ * - event: Event to listen for
+ * - when: Only fire when this returns true for the event's payload
+ */
+export type EventTrigger<TEvents extends object = object> = {
+  [TType in GameEventType<TEvents>]: {
+    event: TType;
+    when?: (payload: EventPayload<TEvents, TType>) => boolean;
+  };
+}[GameEventType<TEvents>];
+
+/**
+ * useEventTriggers Hook
+ *
+ * Calls `fire` for every trigger whose event is emitted (and whose `when`
+ * passes), for as long as the calling component is mounted. It subscribes
+ * once per event type, so the triggers and `fire` may change on every
+ * render.
+ *
+ * @param triggers - Events to listen for (see EventTrigger)
+ * @param fire - Called with the trigger and the event's payload. The
+ *   payload always matches the trigger's event, which TypeScript can't
+ *   tell from a list of triggers, so it is typed `never` and can be passed
+ *   straight to the trigger's own callbacks
+ * @throws Error if used outside of a GameWrapper
+ */
+export function useEventTriggers<
+  TEvents extends object = object,
+  TTrigger extends {
+    event: GameEventType<TEvents>;
+    when?: (payload: never) => boolean;
+  } = EventTrigger<TEvents>,
+>(triggers: TTrigger[], fire: (trigger: TTrigger, payload: never) => void) {
+  const { subscribe } = useGameLoop<TEvents>();
+
+  // Latest triggers and callback, read by the subscriptions below
+  const triggersRef = useRef(triggers);
+  triggersRef.current = triggers;
+  const fireRef = useRef(fire);
+  fireRef.current = fire;
+
+  // Event types as a string, so the effect only reruns when they change
+  const triggerEvents = Array.from(
+    new Set(triggers.map((trigger) => trigger.event))
+  ).join("\n");
+
+  useEffect(() => {
+    if (!triggerEvents) return;
+    const unsubscribes = triggerEvents.split("\n").map((type) =>
+      subscribe(type as GameEventType<TEvents>, (event) => {
+        triggersRef.current.forEach((trigger) => {
+          if (trigger.event !== type) return;
+          // The trigger's type guarantees the payload matches its event
+          const payload = event.payload as never;
+          if (trigger.when && !trigger.when(payload)) return;
+          fireRef.current(trigger, payload);
+        });
+      })
+    );
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [subscribe, triggerEvents]);
+}
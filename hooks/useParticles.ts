@@ -0,0 +1,181 @@
+/**
+ * useParticles Hook
+ *
+ * Updates a pooled particle system (see lib/particles.ts) from the game
+ * loop, and adds emitters to it that burst on bus events.
+ */
+import { useEffect, useRef, useState } from "react";
+import { EventPriority } from "../lib/eventBus";
+import {
+  Emitter,
+  EmitterConfig,
+  ParticleSystem,
+  ParticleSystemOptions,
+  createParticleSystem,
+} from "../lib/particles";
+import {
+  EventPayload,
+  GameEventType,
+  Point,
+  useGameLoop,
+} from "../components/providers/GameLoopContext";
+import { WorldOptions } from "./useWorld";
+import { useEventTriggers } from "./useEventTriggers";
+
+/**
+ * useParticles Hook
+ *
+ * Creates a pooled particle system that lives as long as the calling
+ * component and updates on every game loop tick, at
+ * EventPriority.Effects by default. Add emitters with
+ * useParticleEmitter() and draw the particles from a draw layer:
+ *
+ * ```tsx
+ * const particles = useParticles();
+ * useDrawLayer((draw) => particles.draw(draw));
+ * ```
+ *
+ * Options are read once, when the system is created.
+ *
+ * @param options - Pool settings plus the loop event and priority to
+ *   update on (see ParticleSystemOptions and WorldOptions)
+ * @returns The component's particle system
+ * @throws Error if used outside of a GameWrapper
+ */
+export function useParticles(
+  options: ParticleSystemOptions & WorldOptions = {}
+): ParticleSystem {
+  const { subscribe } = useGameLoop();
+  const [particles] = useState(() => createParticleSystem(options));
+  const { step = "tick", priority = EventPriority.Effects } = options;
+
+  useEffect(() => {
+    return subscribe(
+      step,
+      (event) => {
+        particles.update(event.payload.deltaTime);
+      },
+      { priority }
+    );
+  }, [subscribe, particles, step, priority]);
+
+  return particles;
+}
+
+/**
+ * Emitter Trigger
+ *
+ * Bursts an emitter whenever an event is emitted:
+ * - event: Event to listen for
+ * - when: Only burst when this returns true for the event's payload
+ * - at: Where to burst, from the payload (defaults to the payload's
+ *   `position` if it has one, otherwise the emitter's position)
+ * - count: Particles per burst (defaults to the config's burst)
+ */
+export type EmitterTrigger<TEvents extends object = object> = {
+  [TType in GameEventType<TEvents>]: {
+    event: TType;
+    when?: (payload: EventPayload<TEvents, TType>) => boolean;
+    at?: (payload: EventPayload<TEvents, TType>) => Point | undefined;
+    count?: number;
+  };
+}[GameEventType<TEvents>];
+
+/**
+ * Emitter Options
+ *
+ * - x / y: Starting position of the emitter (defaults to the origin)
+ * - triggers: Events that burst the emitter (see EmitterTrigger)
+ */
+export interface EmitterOptions<TEvents extends object = object> {
+  x?: number;
+  y?: number;
+  triggers?: EmitterTrigger<TEvents>[];
+}
+
+/**
+ * Emitter Controls
+ *
+ * An emitter owned by useParticleEmitter(), which removes it on unmount.
+ */
+export type EmitterControls = Omit<Emitter, "remove">;
+
+/**
+ * useParticleEmitter Hook
+ *
+ * Adds an emitter to a particle system for as long as the calling
+ * component is mounted, and bursts it from bus events:
+ *
+ * ```tsx
+ * useParticleEmitter(particles, DUST, {
+ *   triggers: [{ event: "collision", when: (c) => c.type === "land" }],
+ * });
+ * ```
+ *
+ * The config and starting position are read when the emitter is added
+ * after mount (again if the particle system changes); triggers may change
+ * on every render.
+ *
+ * @param particles - Particle system from useParticles()
+ * @param config - Emitter settings (see EmitterConfig)
+ * @param options - Starting position and triggers (see EmitterOptions)
+ * @returns Emitter controls (burst, moveTo, start, stop)
+ * @throws Error if used outside of a GameWrapper
+ */
+export function useParticleEmitter<TEvents extends object = object>(
+  particles: ParticleSystem,
+  config: EmitterConfig,
+  options: EmitterOptions<TEvents> = {}
+): EmitterControls {
+  // Latest config and options, read when the emitter is (re)created
+  const configRef = useRef(config);
+  configRef.current = config;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  /**
+   * Emitter Lifetime
+   *
+   * Adds the emitter after mount (and again when the particle system
+   * changes) and removes it on unmount.
+   */
+  const emitterRef = useRef<Emitter | null>(null);
+  useEffect(() => {
+    const { x, y } = optionsRef.current;
+    const created = particles.addEmitter(configRef.current, x, y);
+    emitterRef.current = created;
+    return () => {
+      created.remove();
+      emitterRef.current = null;
+    };
+  }, [particles]);
+
+  /**
+   * Emitter Controls
+   *
+   * Stable for the component's lifetime; they act on the current emitter
+   * and do nothing before it's added.
+   */
+  const [controls] = useState<EmitterControls>(() => ({
+    burst: (count, at) => emitterRef.current?.burst(count, at),
+    moveTo: (x, y) => emitterRef.current?.moveTo(x, y),
+    start: () => emitterRef.current?.start(),
+    stop: () => emitterRef.current?.stop(),
+    get running() {
+      return emitterRef.current?.running ?? false;
+    },
+  }));
+
+  // Burst at the trigger's position, the payload's, or the emitter's
+  useEventTriggers<TEvents, EmitterTrigger<TEvents>>(
+    options.triggers ?? [],
+    (trigger, payload) => {
+      const position =
+        trigger.at?.(payload) ??
+        (payload as { position?: Point } | undefined)?.position;
+      emitterRef.current?.burst(trigger.count, position);
+    }
+  );
+
+  return controls;
+}
@@ -0,0 +1,75 @@
+/**
+ * usePhysics Hook
+ *
+ * Steps a physics world (see lib/physics.ts) from the game loop and emits
+ * its contacts as collision events.
+ */
+import { useEffect, useState } from "react";
+import { EventPriority } from "../lib/eventBus";
+import {
+  CollisionSide,
+  PhysicsOptions,
+  PhysicsWorld,
+  createPhysicsWorld,
+} from "../lib/physics";
+import { useGameLoop } from "../components/providers/GameLoopContext";
+import { WorldOptions } from "./useWorld";
+
+/**
+ * Collision types reported for each side of a physics body
+ */
+const COLLISION_TYPES: Record<CollisionSide, string> = {
+  bottom: "land",
+  top: "ceiling",
+  left: "wall",
+  right: "wall",
+};
+
+/**
+ * usePhysics Hook
+ *
+ * Creates a physics world that lives as long as the calling component and
+ * steps it on every game loop tick. Each new contact is emitted as a
+ * "collision" event: landing on a body is "land", hitting one from below
+ * is "ceiling", and hitting one from the side is "wall", with `platform`
+ * set to the ID of the static body that was hit.
+ *
+ * Physics options are read once, when the world is created. The world
+ * runs at EventPriority.Physics by default, so tick subscribers with
+ * EventPriority.Input can set velocities before it moves anything.
+ *
+ * @param options - Physics settings plus the loop event and priority to
+ *   step on (see PhysicsOptions and WorldOptions)
+ * @returns The component's physics world
+ * @throws Error if used outside of a GameWrapper
+ */
+export function usePhysics(
+  options: PhysicsOptions & WorldOptions = {}
+): PhysicsWorld {
+  const { subscribe, emit } = useGameLoop();
+  const [physics] = useState(() => createPhysicsWorld(options));
+  const { step = "tick", priority = EventPriority.Physics } = options;
+
+  useEffect(() => {
+    return subscribe(
+      step,
+      (event) => {
+        const contacts = physics.step(event.payload.deltaTime);
+        contacts.forEach((contact) => {
+          emit("collision", {
+            type: COLLISION_TYPES[contact.side],
+            platform: contact.other,
+            position: contact.position,
+            body: contact.body,
+            side: contact.side,
+            normal: contact.normal,
+            impactSpeed: contact.impactSpeed,
+          });
+        });
+      },
+      { priority }
+    );
+  }, [subscribe, emit, physics, step, priority]);
+
+  return physics;
+}
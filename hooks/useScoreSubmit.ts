@@ -0,0 +1,125 @@
+/**
+ * useScoreSubmit Hook
+ *
+ * Submits a run's score to the /api/scores routes when the game emits the
+ * event that ends the run.
+ */
+import { useEffect, useRef, useState } from "react";
+import { SubmittedScore, recordBestScore, submitScore } from "../lib/scores";
+import {
+  EventPayload,
+  GameEventType,
+  useGameLoop,
+} from "../components/providers/GameLoopContext";
+
+/**
+ * Score Submit Options
+ *
+ * - game / level: Score table to submit to (see ScoreSubmission)
+ * - name: Player name, or a function returning it at submission time
+ * - event: Event that ends a run, e.g. "gameOver"
+ * - score: Returns the run's score from the event's payload, or null to
+ *   skip submitting
+ */
+export type ScoreSubmitOptions<TEvents extends object = object> = {
+  [TType in GameEventType<TEvents>]: {
+    event: TType;
+    score: (payload: EventPayload<TEvents, TType>) => number | null;
+  };
+}[GameEventType<TEvents>] & {
+  game: string;
+  level?: string;
+  name: string | (() => string);
+};
+
+/**
+ * Score Submit Status Type
+ */
+export type ScoreSubmitStatus = "idle" | "submitting" | "submitted" | "failed";
+
+/**
+ * useScoreSubmit Hook
+ *
+ * Submits a score to /api/scores whenever a run ends:
+ *
+ * ```tsx
+ * const { status, result } = useScoreSubmit<MyEvents>({
+ *   game: "platformer",
+ *   name: "Ada",
+ *   event: "gameOver",
+ *   score: ({ score }) => score,
+ * });
+ * {result && <div>You placed #{result.rank}</div>}
+ * ```
+ *
+ * Scores are also kept as the player's local best (see recordBestScore()),
+ * even when the submission fails. The options may change on every render.
+ *
+ * @param options - See ScoreSubmitOptions
+ * @returns Object containing:
+ *   - status: "idle", "submitting", "submitted" or "failed"
+ *   - result: The stored entry and its rank after a submission
+ *   - error: Why the last submission failed (e.g. rate limited)
+ *   - submit: Function to submit a score without waiting for the event
+ * @throws Error if used outside of a GameWrapper
+ */
+export function useScoreSubmit<TEvents extends object = object>(
+  options: ScoreSubmitOptions<TEvents>
+) {
+  const { subscribe } = useGameLoop<TEvents>();
+  const [status, setStatus] = useState<ScoreSubmitStatus>("idle");
+  const [result, setResult] = useState<SubmittedScore | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // Aborts the submission in flight when the component unmounts
+  const controllerRef = useRef<AbortController | null>(null);
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  /**
+   * Submit
+   *
+   * @param score - Score to submit
+   */
+  const [submit] = useState(() => async (score: number) => {
+    const { game, level, name } = optionsRef.current;
+    recordBestScore(game, level ?? "", score);
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setStatus("submitting");
+    setError(null);
+    try {
+      const submitted = await submitScore(
+        {
+          game,
+          level,
+          name: typeof name === "function" ? name() : name,
+          score,
+        },
+        { signal: controller.signal }
+      );
+      setResult(submitted);
+      setStatus("submitted");
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      setError((e as Error).message);
+      setStatus("failed");
+    }
+  });
+
+  const { event } = options;
+  useEffect(() => {
+    return subscribe(event as GameEventType<TEvents>, ({ payload }) => {
+      // The options' type guarantees the payload matches the event
+      const score = optionsRef.current.score(payload as never);
+      if (score === null) return;
+      void submit(score);
+    });
+  }, [subscribe, submit, event]);
+
+  return { status, result, error, submit };
+}
@@ -0,0 +1,88 @@
+/**
+ * useWorld Hook
+ *
+ * Runs an ECS world (see lib/ecs.ts) from the game loop, plus the
+ * WorldOptions shared by the other loop-driven hooks.
+ */
+import { useEffect, useState } from "react";
+import { ComponentName, QueryRow, World, createWorld } from "../lib/ecs";
+import { useGameLoop } from "../components/providers/GameLoopContext";
+
+/**
+ * World Options
+ *
+ * - step: Loop event that updates the world: "tick" (every frame, the
+ *   default) or "fixedTick" (requires fixedTickRate on the GameWrapper)
+ * - priority: Bus priority of the update, to order it against other
+ *   subscribers of the same event (defaults to EventPriority.Default)
+ */
+export interface WorldOptions {
+  step?: "tick" | "fixedTick";
+  priority?: number;
+}
+
+/**
+ * useWorld Hook
+ *
+ * Creates an ECS world that lives as long as the calling component and
+ * runs its systems on every game loop tick. Register systems in an effect
+ * and remove them on cleanup:
+ *
+ * ```tsx
+ * const world = useWorld<Components>();
+ * useEffect(() => world.addSystem(movementSystem), [world]);
+ * ```
+ *
+ * The world doesn't trigger React renders by itself; use useQuery() to
+ * render entities.
+ *
+ * @param options - See WorldOptions
+ * @returns The component's world
+ * @throws Error if used outside of a GameWrapper
+ */
+export function useWorld<TComponents extends object>(
+  options: WorldOptions = {}
+): World<TComponents> {
+  const { subscribe } = useGameLoop();
+  const [world] = useState(() => createWorld<TComponents>());
+  const { step = "tick", priority } = options;
+
+  useEffect(() => {
+    return subscribe(
+      step,
+      (event) => {
+        world.update(event.payload.deltaTime);
+      },
+      { priority }
+    );
+  }, [subscribe, world, step, priority]);
+
+  return world;
+}
+
+/**
+ * useQuery Hook
+ *
+ * Renders the entities that have all the given components. The component
+ * re-renders at most once per world update (plus once per structural
+ * change made outside systems), no matter how many entities match.
+ *
+ * @param world - World to query, usually from useWorld()
+ * @param names - Components the entities must have
+ * @returns Rows with the entity and each requested component
+ */
+export function useQuery<
+  TComponents extends object,
+  K extends ComponentName<TComponents>,
+>(
+  world: World<TComponents>,
+  ...names: K[]
+): ReadonlyArray<QueryRow<TComponents, K>> {
+  const [, setVersion] = useState(world.version);
+
+  useEffect(() => {
+    return world.onChange(() => setVersion(world.version));
+  }, [world]);
+
+  return world.query(...names);
+}
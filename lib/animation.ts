@@ -0,0 +1,304 @@
+/**
+ * Sprite Animation
+ *
+ * Plays named clips of sprite sheet frames (see lib/sprites.ts):
+ * - Clips list their frames with a frame rate and whether they loop
+ * - An animator plays one clip at a time, advanced by the game loop's
+ *   deltaTime so it follows pause and time scaling
+ * - An animation state machine picks the clip from the entity's state
+ *   (e.g. idle, run, jump and fall), switching when a transition's
+ *   condition becomes true
+ *
+ * Animators only track time and frames, so they run before a sheet's
+ * image has loaded and one sheet can be shared by any number of entities.
+ */
+
+import { DrawList, DrawStyle } from "./render";
+import { FrameRef, SpriteSheet, drawSprite } from "./sprites";
+
+/**
+ * Animation Clip
+ *
+ * - frames: Frames in playback order, by index or name
+ * - fps: Frames per second (defaults to 10)
+ * - loop: Start over after the last frame; clips that don't loop hold it
+ *   (defaults to true)
+ */
+export interface AnimationClip {
+  frames: FrameRef[];
+  fps?: number;
+  loop?: boolean;
+}
+
+/**
+ * Playback Info
+ *
+ * How far the current clip has played, as passed to transitions:
+ * - time: Seconds since the clip started
+ * - finished: Whether a clip that doesn't loop has shown its last frame
+ *   for a full frame
+ */
+export interface PlaybackInfo {
+  time: number;
+  finished: boolean;
+}
+
+/**
+ * Animation Transition
+ *
+ * - to: State to switch to
+ * - when: Switches when this returns true for the entity's state
+ */
+export interface AnimationTransition<TState extends string, TContext> {
+  to: TState;
+  when: (context: TContext, playback: PlaybackInfo) => boolean;
+}
+
+/**
+ * Animation State
+ *
+ * - clip: Clip played while in this state
+ * - speed: Playback speed multiplier, or a function of the entity's state,
+ *   e.g. to run faster at top speed (defaults to 1)
+ * - transitions: Checked in order on every update; the first that matches
+ *   wins
+ */
+export interface AnimationState<
+  TState extends string,
+  TContext,
+  TClip extends string = string,
+> {
+  clip: TClip;
+  speed?: number | ((context: TContext) => number);
+  transitions?: AnimationTransition<TState, TContext>[];
+}
+
+/**
+ * Animation Machine Config
+ *
+ * - clips: Clips by name
+ * - states: States by name
+ * - initial: State to start in
+ * - transitions: Checked from every state before the state's own
+ *   transitions, e.g. "fall whenever airborne and moving down"
+ */
+export interface AnimationMachineConfig<
+  TState extends string,
+  TContext,
+  TClip extends string = string,
+> {
+  clips: Record<TClip, AnimationClip>;
+  states: Record<TState, AnimationState<TState, TContext, TClip>>;
+  initial: TState;
+  transitions?: AnimationTransition<TState, TContext>[];
+}
+
+/**
+ * Default frame rate of clips
+ */
+const DEFAULT_FPS = 10;
+
+/**
+ * Create Animator
+ *
+ * Plays one clip at a time. Call update() once per frame.
+ *
+ * @param clips - Clips by name
+ * @param initial - Clip to start playing
+ * @returns Animator with its controls
+ */
+export function createAnimator<TClip extends string>(
+  clips: Record<TClip, AnimationClip>,
+  initial: TClip
+) {
+  let clip = initial;
+  let time = 0;
+
+  /**
+   * Frame Index
+   *
+   * Position within the current clip's frame list at the current time.
+   */
+  const frameIndex = () => {
+    const { frames, fps = DEFAULT_FPS, loop = true } = clips[clip];
+    if (frames.length === 0) return -1;
+    const index = Math.floor(time * fps);
+    return loop ? index % frames.length : Math.min(index, frames.length - 1);
+  };
+
+  /**
+   * Play
+   *
+   * Switches to a clip. Playing the current clip again carries on where
+   * it is unless restart is set.
+   *
+   * @param name - Clip to play
+   * @param restart - Start the clip from its first frame
+   */
+  const play = (name: TClip, restart = false) => {
+    if (name === clip && !restart) return;
+    clip = name;
+    time = 0;
+  };
+
+  /**
+   * Update
+   *
+   * @param deltaTime - Time since the last update in seconds
+   * @param speed - Playback speed multiplier (defaults to 1)
+   */
+  const update = (deltaTime: number, speed = 1) => {
+    time += Math.max(0, deltaTime * speed);
+  };
+
+  /**
+   * Draw
+   *
+   * Appends the current frame to a draw list.
+   *
+   * @param list - Draw list, e.g. from useDrawLayer()
+   * @param sheet - Sprite sheet the clip's frames come from
+   * @param x / y - Center of the sprite
+   * @param width / height - Drawn size in pixels (defaults to the frame's)
+   * @param style - Opacity and transform; scaleX: -1 faces the sprite left
+   */
+  const draw = (
+    list: DrawList,
+    sheet: SpriteSheet,
+    x: number,
+    y: number,
+    width?: number,
+    height?: number,
+    style?: DrawStyle
+  ) => {
+    const index = frameIndex();
+    if (index < 0) return;
+    drawSprite(
+      list,
+      sheet,
+      clips[clip].frames[index],
+      x,
+      y,
+      width,
+      height,
+      style
+    );
+  };
+
+  return {
+    play,
+    update,
+    draw,
+    get clip() {
+      return clip;
+    },
+    /** Current frame's index or name in the sheet */
+    get frame(): FrameRef | undefined {
+      return clips[clip].frames[frameIndex()];
+    },
+    get time() {
+      return time;
+    },
+    get finished() {
+      const { frames, fps = DEFAULT_FPS, loop = true } = clips[clip];
+      return !loop && time * fps >= frames.length;
+    },
+  };
+}
+
+export type Animator<TClip extends string = string> = ReturnType<
+  typeof createAnimator<TClip>
+>;
+
+/**
+ * Create Animation Machine
+ *
+ * Picks an entity's clip from its state. On every update the machine
+ * checks the shared transitions, then the current state's, switches to
+ * the first state whose condition is true (at most once per update) and
+ * advances the clip.
+ *
+ * ```ts
+ * const machine = createAnimationMachine<"idle" | "run", PhysicsBody>({
+ *   clips: { idle: { frames: [0, 1], fps: 2 }, run: { frames: [2, 3, 4] } },
+ *   initial: "idle",
+ *   states: {
+ *     idle: { clip: "idle", transitions: [{ to: "run", when: isMoving }] },
+ *     run: { clip: "run", transitions: [{ to: "idle", when: isStill }] },
+ *   },
+ * });
+ * machine.update(deltaTime, body);
+ * ```
+ *
+ * @param config - See AnimationMachineConfig
+ * @returns Animation machine with its animator
+ */
+export function createAnimationMachine<
+  TState extends string,
+  TContext,
+  TClip extends string = string,
+>(config: AnimationMachineConfig<TState, TContext, TClip>) {
+  const animator = createAnimator(
+    config.clips,
+    config.states[config.initial].clip
+  );
+  let state = config.initial;
+
+  /**
+   * Set State
+   *
+   * Switches state straight away. Entering a state restarts its clip,
+   * unless the previous state played the same clip.
+   *
+   * @param next - State to switch to
+   */
+  const setState = (next: TState) => {
+    if (next === state) return;
+    state = next;
+    animator.play(config.states[next].clip);
+  };
+
+  /**
+   * Update
+   *
+   * @param deltaTime - Time since the last update in seconds
+   * @param context - The entity's current state, passed to transitions
+   */
+  const update = (deltaTime: number, context: TContext) => {
+    const playback: PlaybackInfo = {
+      time: animator.time,
+      finished: animator.finished,
+    };
+    const candidates = [
+      ...(config.transitions ?? []),
+      ...(config.states[state].transitions ?? []),
+    ];
+    const match = candidates.find(
+      (transition) =>
+        transition.to !== state && transition.when(context, playback)
+    );
+    if (match) setState(match.to);
+
+    const { speed = 1 } = config.states[state];
+    animator.update(
+      deltaTime,
+      typeof speed === "function" ? speed(context) : speed
+    );
+  };
+
+  return {
+    update,
+    setState,
+    draw: animator.draw,
+    animator,
+    get state() {
+      return state;
+    },
+  };
+}
+
+export type AnimationMachine<
+  TState extends string = string,
+  TContext = unknown,
+  TClip extends string = string,
+> = ReturnType<typeof createAnimationMachine<TState, TContext, TClip>>;
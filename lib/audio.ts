@@ -0,0 +1,578 @@
+/**
+ * Audio
+ *
+ * A small Web Audio manager for games:
+ * - Samples loaded from URLs and played as one-shots or loops
+ * - Music and SFX buses with their own volume and mute, under a master bus
+ * - Autoplay unlock: browsers keep audio suspended until the player
+ *   interacts with the page, so call unlock() from an input handler
+ *   (GameWrapper does this for you)
+ * - A procedural synth with presets for blips, jumps and hits, so a game
+ *   can have sound before it has any audio files
+ *
+ * The AudioContext is created the first time it's needed, so creating a
+ * manager is safe during server rendering and in environments without Web
+ * Audio (where every call does nothing).
+ */
+
+/**
+ * Audio Bus Type
+ *
+ * - music: Background music, one track at a time
+ * - sfx: Sound effects
+ */
+export type AudioBus = "music" | "sfx";
+
+/**
+ * Audio State Type
+ *
+ * - locked: Waiting for a user gesture before sound can play
+ * - running: Sound is playing normally
+ * - unavailable: No Web Audio support (server rendering, tests)
+ */
+export type AudioState = "locked" | "running" | "unavailable";
+
+/**
+ * Play Options
+ *
+ * - bus: Bus to play on (defaults to "sfx")
+ * - volume: 0..1, relative to the bus (defaults to 1)
+ * - loop: Repeat until stopped (defaults to false)
+ * - playbackRate: Speed and pitch multiplier (defaults to 1)
+ */
+export interface PlayOptions {
+  bus?: AudioBus;
+  volume?: number;
+  loop?: boolean;
+  playbackRate?: number;
+}
+
+/**
+ * Sound Handle
+ *
+ * Controls a sound that was started with play(), playMusic() or synth():
+ * - stop: Stop the sound, fading out over the given seconds
+ * - setVolume: Change the sound's own volume (0..1), optionally fading
+ *   over the given seconds
+ * - playing: Whether the sound is still playing
+ */
+export interface SoundHandle {
+  stop: (fadeOut?: number) => void;
+  setVolume: (volume: number, fadeTime?: number) => void;
+  readonly playing: boolean;
+}
+
+/**
+ * Music Options
+ *
+ * - volume: 0..1, relative to the music bus (defaults to 1)
+ * - fadeIn: Seconds to fade the track in over (defaults to 0)
+ */
+export interface MusicOptions {
+  volume?: number;
+  fadeIn?: number;
+}
+
+/**
+ * Synth Options
+ *
+ * - wave: Oscillator shape, or "noise" for hits and explosions (defaults
+ *   to "square")
+ * - frequency: Starting pitch in Hz; for noise, the low-pass cutoff
+ *   (defaults to 440)
+ * - endFrequency: Pitch to slide to over the sound (defaults to frequency)
+ * - duration: Length in seconds (defaults to 0.15)
+ * - attack: Fade-in time in seconds (defaults to 0.005)
+ * - volume: 0..1 (defaults to 0.5)
+ * - bus: Bus to play on (defaults to "sfx")
+ */
+export interface SynthOptions {
+  wave?: OscillatorType | "noise";
+  frequency?: number;
+  endFrequency?: number;
+  duration?: number;
+  attack?: number;
+  volume?: number;
+  bus?: AudioBus;
+}
+
+/**
+ * Synth Presets
+ *
+ * Ready-made retro sounds for synth("jump") and friends.
+ */
+export const SYNTH_PRESETS = {
+  blip: { wave: "square", frequency: 880, duration: 0.06, volume: 0.3 },
+  jump: {
+    wave: "square",
+    frequency: 300,
+    endFrequency: 700,
+    duration: 0.15,
+    volume: 0.3,
+  },
+  land: {
+    wave: "triangle",
+    frequency: 180,
+    endFrequency: 60,
+    duration: 0.12,
+    volume: 0.5,
+  },
+  coin: {
+    wave: "square",
+    frequency: 990,
+    endFrequency: 1320,
+    duration: 0.2,
+    volume: 0.25,
+  },
+  hit: { wave: "noise", frequency: 2000, duration: 0.12, volume: 0.5 },
+  explosion: {
+    wave: "noise",
+    frequency: 1200,
+    endFrequency: 100,
+    duration: 0.6,
+    volume: 0.7,
+  },
+} satisfies Record<string, SynthOptions>;
+
+export type SynthPreset = keyof typeof SYNTH_PRESETS;
+
+/**
+ * Audio Options
+ *
+ * Starting mixer settings:
+ * - volume: Master volume, 0..1 (defaults to 1)
+ * - musicVolume / sfxVolume: Bus volumes, 0..1 (default to 1)
+ * - muted: Start with all sound muted
+ */
+export interface AudioOptions {
+  volume?: number;
+  musicVolume?: number;
+  sfxVolume?: number;
+  muted?: boolean;
+}
+
+/**
+ * Mixer Settings
+ *
+ * Volume and mute of the master bus ("master") and each audio bus.
+ */
+export type MixerSettings = Record<
+  AudioBus | "master",
+  { volume: number; muted: boolean }
+>;
+
+/**
+ * Silent Sound
+ *
+ * Returned when a sound can't play (locked, not loaded, no Web Audio).
+ */
+const SILENT: SoundHandle = {
+  stop: () => {},
+  setVolume: () => {},
+  playing: false,
+};
+
+/**
+ * Smallest gain exponential ramps can reach (they can't ramp to 0)
+ */
+const MIN_GAIN = 0.0001;
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+/**
+ * Create Audio Manager
+ *
+ * @param options - See AudioOptions
+ * @returns Audio manager with its mixer, sample and synth functions
+ */
+export function createAudioManager(options: AudioOptions = {}) {
+  const mixer: MixerSettings = {
+    master: { volume: clamp01(options.volume ?? 1), muted: !!options.muted },
+    music: { volume: clamp01(options.musicVolume ?? 1), muted: false },
+    sfx: { volume: clamp01(options.sfxVolume ?? 1), muted: false },
+  };
+
+  let context: AudioContext | null = null;
+  let gains: Record<AudioBus | "master", GainNode> | null = null;
+  let state: AudioState =
+    typeof window !== "undefined" && "AudioContext" in window
+      ? "locked"
+      : "unavailable";
+
+  const buffers = new Map<string, AudioBuffer>();
+  const loading = new Map<string, Promise<void>>();
+  const listeners = new Set<() => void>();
+  let noiseBuffer: AudioBuffer | null = null;
+
+  // Current music track, and the one requested while audio was locked
+  let music: { name: string; handle: SoundHandle } | null = null;
+  let pendingMusic: { name: string; options: MusicOptions } | null = null;
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  const setState = (next: AudioState) => {
+    if (next === state) return;
+    state = next;
+    notify();
+  };
+
+  /**
+   * Apply Mixer
+   *
+   * Copies the mixer settings onto the bus gain nodes.
+   */
+  const applyMixer = () => {
+    if (!context || !gains) return;
+    const now = context.currentTime;
+    (Object.keys(mixer) as (keyof MixerSettings)[]).forEach((bus) => {
+      const { volume, muted } = mixer[bus];
+      gains![bus].gain.setTargetAtTime(muted ? 0 : volume, now, 0.01);
+    });
+  };
+
+  /**
+   * Ensure Context
+   *
+   * Creates the AudioContext and bus graph on first use.
+   *
+   * @returns The context, or null without Web Audio support
+   */
+  const ensureContext = () => {
+    if (context || state === "unavailable") return context;
+
+    context = new AudioContext();
+    const master = context.createGain();
+    master.connect(context.destination);
+    const musicGain = context.createGain();
+    musicGain.connect(master);
+    const sfxGain = context.createGain();
+    sfxGain.connect(master);
+    gains = { master, music: musicGain, sfx: sfxGain };
+    applyMixer();
+
+    // The browser may suspend audio again, e.g. when the device sleeps
+    context.onstatechange = () => {
+      setState(context?.state === "running" ? "running" : "locked");
+    };
+    return context;
+  };
+
+  /**
+   * Start Source
+   *
+   * Connects a source through its own gain node to a bus and wraps it in
+   * a handle.
+   */
+  const startSource = (
+    ctx: AudioContext,
+    source: AudioScheduledSourceNode,
+    output: AudioNode,
+    gain: GainNode,
+    bus: AudioBus
+  ): SoundHandle => {
+    let playing = true;
+    output.connect(gain);
+    gain.connect(gains![bus]);
+    source.onended = () => {
+      playing = false;
+      gain.disconnect();
+    };
+    source.start();
+
+    return {
+      stop: (fadeOut = 0) => {
+        if (!playing) return;
+        const now = ctx.currentTime;
+        gain.gain.cancelScheduledValues(now);
+        gain.gain.setValueAtTime(gain.gain.value, now);
+        gain.gain.linearRampToValueAtTime(0, now + fadeOut);
+        source.stop(now + fadeOut);
+      },
+      setVolume: (volume: number, fadeTime = 0) => {
+        const now = ctx.currentTime;
+        gain.gain.cancelScheduledValues(now);
+        gain.gain.setValueAtTime(gain.gain.value, now);
+        gain.gain.linearRampToValueAtTime(
+          clamp01(volume),
+          now + Math.max(fadeTime, 0.01)
+        );
+      },
+      get playing() {
+        return playing;
+      },
+    };
+  };
+
+  /**
+   * Unlock
+   *
+   * Resumes audio after a user gesture. Call it from an input handler;
+   * calls outside a gesture are ignored by the browser.
+   */
+  const unlock = async () => {
+    const ctx = ensureContext();
+    if (!ctx) return;
+    if (ctx.state !== "running") {
+      try {
+        await ctx.resume();
+      } catch {
+        return;
+      }
+    }
+    if (ctx.state !== "running") return;
+    setState("running");
+    if (pendingMusic) {
+      const { name, options: musicOptions } = pendingMusic;
+      pendingMusic = null;
+      playMusic(name, musicOptions);
+    }
+  };
+
+  /**
+   * Load
+   *
+   * Fetches and decodes a sample. Loading the same name twice reuses the
+   * first request.
+   *
+   * @param name - Name to play the sample by
+   * @param url - Audio file URL, e.g. "/sounds/jump.wav"
+   * @throws Error if the request fails or the file can't be decoded
+   */
+  const load = (name: string, url: string) => {
+    const existing = loading.get(name);
+    if (existing) return existing;
+
+    const request = (async () => {
+      const ctx = ensureContext();
+      if (!ctx) return;
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`Failed to load sound ${url}: ${response.status}`);
+      }
+      const buffer = await ctx.decodeAudioData(await response.arrayBuffer());
+      buffers.set(name, buffer);
+    })();
+    // Let a failed load be retried
+    request.catch(() => loading.delete(name));
+    loading.set(name, request);
+    return request;
+  };
+
+  /**
+   * Load All
+   *
+   * @param sounds - Sample URLs by name
+   */
+  const loadAll = (sounds: Record<string, string>) =>
+    Promise.all(Object.entries(sounds).map(([name, url]) => load(name, url)));
+
+  /**
+   * Play
+   *
+   * Starts a loaded sample. Sounds that aren't loaded yet, or requested
+   * while audio is locked, are skipped.
+   *
+   * @param name - Sample name given to load()
+   * @param playOptions - See PlayOptions
+   * @returns Handle to stop or adjust the sound
+   */
+  const play = (name: string, playOptions: PlayOptions = {}): SoundHandle => {
+    const buffer = buffers.get(name);
+    if (!buffer || state !== "running" || !context) return SILENT;
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = !!playOptions.loop;
+    source.playbackRate.value = playOptions.playbackRate ?? 1;
+    const gain = context.createGain();
+    gain.gain.value = clamp01(playOptions.volume ?? 1);
+    return startSource(context, source, source, gain, playOptions.bus ?? "sfx");
+  };
+
+  /**
+   * Play Music
+   *
+   * Loops a sample on the music bus, replacing the current track. Music
+   * requested while audio is locked starts as soon as it unlocks.
+   *
+   * @param name - Sample name given to load()
+   * @param musicOptions - See MusicOptions
+   */
+  const playMusic = (name: string, musicOptions: MusicOptions = {}) => {
+    if (music?.name === name && music.handle.playing) return;
+    stopMusic();
+
+    if (state !== "running") {
+      pendingMusic = { name, options: musicOptions };
+      return;
+    }
+    const handle = play(name, {
+      bus: "music",
+      loop: true,
+      volume: musicOptions.fadeIn ? 0 : musicOptions.volume,
+    });
+    if (musicOptions.fadeIn) {
+      handle.setVolume(musicOptions.volume ?? 1, musicOptions.fadeIn);
+    }
+    music = { name, handle };
+  };
+
+  /**
+   * Stop Music
+   *
+   * @param fadeOut - Fade-out time in seconds
+   */
+  const stopMusic = (fadeOut = 0) => {
+    pendingMusic = null;
+    music?.handle.stop(fadeOut);
+    music = null;
+  };
+
+  /**
+   * Synth
+   *
+   * Plays a procedural sound: an oscillator (or filtered noise) with a
+   * pitch slide and a short envelope.
+   *
+   * @param sound - Preset name or synth settings (see SynthOptions)
+   * @returns Handle to stop the sound early
+   */
+  const synth = (sound: SynthPreset | SynthOptions): SoundHandle => {
+    if (state !== "running" || !context) return SILENT;
+    const {
+      wave = "square",
+      frequency = 440,
+      endFrequency = frequency,
+      duration = 0.15,
+      attack = 0.005,
+      volume = 0.5,
+      bus = "sfx",
+    }: SynthOptions = typeof sound === "string" ? SYNTH_PRESETS[sound] : sound;
+
+    const now = context.currentTime;
+    const end = now + Math.max(duration, attack + 0.01);
+    const gain = context.createGain();
+    gain.gain.setValueAtTime(MIN_GAIN, now);
+    gain.gain.exponentialRampToValueAtTime(
+      Math.max(clamp01(volume), MIN_GAIN),
+      now + attack
+    );
+    gain.gain.exponentialRampToValueAtTime(MIN_GAIN, end);
+
+    let source: AudioScheduledSourceNode;
+    let output: AudioNode;
+    let pitch: AudioParam;
+    if (wave === "noise") {
+      if (!noiseBuffer) {
+        // One second of white noise, looped
+        const { sampleRate } = context;
+        noiseBuffer = context.createBuffer(1, sampleRate, sampleRate);
+        const data = noiseBuffer.getChannelData(0);
+        for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+      }
+      const noise = context.createBufferSource();
+      noise.buffer = noiseBuffer;
+      noise.loop = true;
+      const filter = context.createBiquadFilter();
+      filter.type = "lowpass";
+      noise.connect(filter);
+      source = noise;
+      output = filter;
+      pitch = filter.frequency;
+    } else {
+      const oscillator = context.createOscillator();
+      oscillator.type = wave;
+      source = oscillator;
+      output = oscillator;
+      pitch = oscillator.frequency;
+    }
+
+    pitch.setValueAtTime(frequency, now);
+    if (endFrequency !== frequency) {
+      pitch.exponentialRampToValueAtTime(Math.max(endFrequency, 1), end);
+    }
+
+    const handle = startSource(context, source, output, gain, bus);
+    source.stop(end);
+    return handle;
+  };
+
+  /**
+   * Set Volume
+   *
+   * @param bus - "master", "music" or "sfx"
+   * @param volume - 0..1
+   */
+  const setVolume = (bus: keyof MixerSettings, volume: number) => {
+    mixer[bus] = { ...mixer[bus], volume: clamp01(volume) };
+    applyMixer();
+    notify();
+  };
+
+  /**
+   * Set Muted
+   *
+   * @param bus - "master", "music" or "sfx"
+   * @param muted - Whether the bus is silent
+   */
+  const setMuted = (bus: keyof MixerSettings, muted: boolean) => {
+    mixer[bus] = { ...mixer[bus], muted };
+    applyMixer();
+    notify();
+  };
+
+  /**
+   * Subscribe
+   *
+   * Listens for unlocks and mixer changes.
+   *
+   * @returns Function to stop listening
+   */
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Close
+   *
+   * Stops every sound and releases the AudioContext. The manager can be
+   * used again afterwards; it creates a new context on demand.
+   */
+  const close = () => {
+    stopMusic();
+    if (context) {
+      context.onstatechange = null;
+      void context.close();
+    }
+    context = null;
+    gains = null;
+    noiseBuffer = null;
+    buffers.clear();
+    loading.clear();
+    if (state === "running") setState("locked");
+  };
+
+  return {
+    unlock,
+    load,
+    loadAll,
+    play,
+    playMusic,
+    stopMusic,
+    synth,
+    setVolume,
+    setMuted,
+    subscribe,
+    close,
+    isLoaded: (name: string) => buffers.has(name),
+    getMixer: (): MixerSettings => ({ ...mixer }),
+    get state() {
+      return state;
+    },
+  };
+}
+
+export type AudioManager = ReturnType<typeof createAudioManager>;
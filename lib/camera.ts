@@ -0,0 +1,360 @@
+/**
+ * 2D Camera
+ *
+ * Maps world space (the centered, Y-down coordinates used by game objects
+ * and lib/physics.ts) onto the game area:
+ * - Following a target with a deadzone and frame-rate independent smoothing
+ * - Clamping to level bounds, so the view never shows outside the level
+ * - Zoom around the camera's center
+ * - Screen shake that fades out over its duration
+ * - World ↔ screen conversion
+ *
+ * The camera's position is the world point shown in the middle of the
+ * viewport. A camera at (0, 0) with zoom 1 puts the world origin at the
+ * center of the game area, the same layout as `calc(50% + xpx)`.
+ */
+
+import { Vector } from "./physics";
+
+/**
+ * Camera Bounds
+ *
+ * World-space rectangle the view should stay inside, e.g. a level's
+ * extent.
+ */
+export interface CameraBounds {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+/**
+ * Camera Target Type
+ *
+ * What the camera follows: a point read on every update (a physics body
+ * works, since bodies are updated in place), or a function returning the
+ * current point (null or undefined holds the camera still).
+ */
+export type CameraTarget = Vector | (() => Vector | null | undefined);
+
+/**
+ * Follow Options
+ *
+ * - deadzone: Size in screen pixels of the box around the view's center
+ *   the target can move in without moving the camera (defaults to none)
+ * - smoothing: Seconds it takes the camera to cover about two thirds of
+ *   the distance to where it should be; 0 (the default) snaps instantly
+ * - offset: World-space offset from the target to the point the camera
+ *   aims at, e.g. to show more of the level ahead of the player
+ */
+export interface FollowOptions {
+  deadzone?: { width: number; height: number };
+  smoothing?: number;
+  offset?: Vector;
+}
+
+/**
+ * Camera Options
+ *
+ * - x / y: Starting position (defaults to the world origin)
+ * - zoom: Starting zoom, 1 is one world unit per screen pixel
+ * - minZoom / maxZoom: Range setZoom() clamps to (defaults to 0.1..10)
+ * - bounds: Area the view is clamped to (defaults to unbounded)
+ */
+export interface CameraOptions {
+  x?: number;
+  y?: number;
+  zoom?: number;
+  minZoom?: number;
+  maxZoom?: number;
+  bounds?: CameraBounds | null;
+}
+
+/**
+ * Camera State
+ *
+ * Snapshot of what the camera shows:
+ * - x / y: World point at the center of the viewport (before shake)
+ * - zoom: Current zoom
+ * - shakeX / shakeY: Current shake offset in screen pixels
+ * - viewportWidth / viewportHeight: Size of the game area in pixels
+ */
+export interface CameraState {
+  x: number;
+  y: number;
+  zoom: number;
+  shakeX: number;
+  shakeY: number;
+  viewportWidth: number;
+  viewportHeight: number;
+}
+
+/**
+ * Zoom Defaults
+ */
+const DEFAULT_MIN_ZOOM = 0.1;
+const DEFAULT_MAX_ZOOM = 10;
+
+/**
+ * Clamp Axis
+ *
+ * Keeps one axis of the view inside the bounds, centering the view when
+ * the bounds are smaller than it.
+ */
+function clampAxis(center: number, halfView: number, min: number, max: number) {
+  if (max - min <= halfView * 2) return (min + max) / 2;
+  return Math.min(Math.max(center, min + halfView), max - halfView);
+}
+
+/**
+ * Create Camera
+ *
+ * @param options - See CameraOptions
+ * @returns Camera with its controls
+ */
+export function createCamera(options: CameraOptions = {}) {
+  const minZoom = options.minZoom ?? DEFAULT_MIN_ZOOM;
+  const maxZoom = options.maxZoom ?? DEFAULT_MAX_ZOOM;
+
+  const state: CameraState = {
+    x: options.x ?? 0,
+    y: options.y ?? 0,
+    zoom: Math.min(Math.max(options.zoom ?? 1, minZoom), maxZoom),
+    shakeX: 0,
+    shakeY: 0,
+    viewportWidth: 0,
+    viewportHeight: 0,
+  };
+  let bounds: CameraBounds | null = options.bounds ?? null;
+
+  // Current follow target and its options
+  let target: CameraTarget | null = null;
+  let follow: FollowOptions = {};
+
+  // Active shake: strength in pixels, total and remaining time in seconds
+  let shakeState = { intensity: 0, duration: 0, remaining: 0 };
+
+  /**
+   * Clamp To Bounds
+   *
+   * Moves the camera back inside the bounds for the current viewport and
+   * zoom.
+   */
+  const clampToBounds = () => {
+    if (!bounds) return;
+    state.x = clampAxis(
+      state.x,
+      state.viewportWidth / 2 / state.zoom,
+      bounds.left,
+      bounds.right
+    );
+    state.y = clampAxis(
+      state.y,
+      state.viewportHeight / 2 / state.zoom,
+      bounds.top,
+      bounds.bottom
+    );
+  };
+
+  /**
+   * Read Target
+   *
+   * @returns The point the camera should aim at, or null without a target
+   */
+  const readTarget = (): Vector | null => {
+    const point = typeof target === "function" ? target() : target;
+    if (!point) return null;
+    return {
+      x: point.x + (follow.offset?.x ?? 0),
+      y: point.y + (follow.offset?.y ?? 0),
+    };
+  };
+
+  /**
+   * Desired Position
+   *
+   * Where the camera needs to be for the target to sit inside the
+   * deadzone.
+   */
+  const desiredPosition = (point: Vector): Vector => {
+    const halfWidth = (follow.deadzone?.width ?? 0) / 2 / state.zoom;
+    const halfHeight = (follow.deadzone?.height ?? 0) / 2 / state.zoom;
+    return {
+      x: Math.min(Math.max(state.x, point.x - halfWidth), point.x + halfWidth),
+      y: Math.min(
+        Math.max(state.y, point.y - halfHeight),
+        point.y + halfHeight
+      ),
+    };
+  };
+
+  /**
+   * Update
+   *
+   * Moves the camera towards its target, applies the bounds and advances
+   * the shake. Call once per frame.
+   *
+   * @param deltaTime - Time since the last update in seconds
+   * @param random - Random source for the shake direction
+   */
+  const update = (deltaTime: number, random: () => number = Math.random) => {
+    const point = readTarget();
+    if (point) {
+      const desired = desiredPosition(point);
+      const smoothing = follow.smoothing ?? 0;
+      const amount =
+        smoothing > 0 ? 1 - Math.exp(-deltaTime / smoothing) : 1;
+      state.x += (desired.x - state.x) * amount;
+      state.y += (desired.y - state.y) * amount;
+    }
+    clampToBounds();
+
+    if (shakeState.remaining > 0) {
+      shakeState.remaining = Math.max(0, shakeState.remaining - deltaTime);
+      const strength =
+        shakeState.intensity * (shakeState.remaining / shakeState.duration);
+      state.shakeX = (random() * 2 - 1) * strength;
+      state.shakeY = (random() * 2 - 1) * strength;
+    } else {
+      state.shakeX = 0;
+      state.shakeY = 0;
+    }
+  };
+
+  /**
+   * Follow
+   *
+   * Starts following a target, or stops following with null. The camera
+   * jumps to the target straight away unless smoothing is set.
+   *
+   * @param nextTarget - Point or point getter to follow
+   * @param nextOptions - See FollowOptions
+   */
+  const setTarget = (
+    nextTarget: CameraTarget | null,
+    nextOptions: FollowOptions = {}
+  ) => {
+    target = nextTarget;
+    follow = nextOptions;
+    if (!(nextOptions.smoothing && nextOptions.smoothing > 0)) {
+      update(0);
+    }
+  };
+
+  /**
+   * Move To
+   *
+   * Places the camera at a world position (within the bounds).
+   */
+  const moveTo = (x: number, y: number) => {
+    state.x = x;
+    state.y = y;
+    clampToBounds();
+  };
+
+  /**
+   * Set Zoom
+   *
+   * @param zoom - New zoom, clamped to minZoom..maxZoom
+   */
+  const setZoom = (zoom: number) => {
+    state.zoom = Math.min(Math.max(zoom, minZoom), maxZoom);
+    clampToBounds();
+  };
+
+  /**
+   * Set Bounds
+   *
+   * @param nextBounds - Area to keep the view inside, or null for none
+   */
+  const setBounds = (nextBounds: CameraBounds | null) => {
+    bounds = nextBounds;
+    clampToBounds();
+  };
+
+  /**
+   * Set Viewport
+   *
+   * @param width - Game area width in pixels
+   * @param height - Game area height in pixels
+   */
+  const setViewport = (width: number, height: number) => {
+    state.viewportWidth = width;
+    state.viewportHeight = height;
+    clampToBounds();
+  };
+
+  /**
+   * Shake
+   *
+   * Starts a screen shake that fades out linearly. A weaker shake doesn't
+   * cut a stronger one short.
+   *
+   * @param intensity - Largest offset in screen pixels
+   * @param duration - Length in seconds
+   */
+  const shake = (intensity: number, duration: number) => {
+    if (intensity <= 0 || duration <= 0) return;
+    const current =
+      shakeState.remaining > 0
+        ? shakeState.intensity * (shakeState.remaining / shakeState.duration)
+        : 0;
+    if (intensity < current) return;
+    shakeState = { intensity, duration, remaining: duration };
+  };
+
+  /**
+   * World To Screen
+   *
+   * @param point - World position
+   * @returns Position in pixels from the top-left of the game area, as
+   *   currently drawn (including shake)
+   */
+  const worldToScreen = (point: Vector): Vector => ({
+    x: (point.x - state.x) * state.zoom + state.viewportWidth / 2 + state.shakeX,
+    y:
+      (point.y - state.y) * state.zoom + state.viewportHeight / 2 + state.shakeY,
+  });
+
+  /**
+   * Screen To World
+   *
+   * @param point - Position in pixels from the top-left of the game area
+   * @returns World position drawn at that pixel
+   */
+  const screenToWorld = (point: Vector): Vector => ({
+    x: (point.x - state.viewportWidth / 2 - state.shakeX) / state.zoom + state.x,
+    y:
+      (point.y - state.viewportHeight / 2 - state.shakeY) / state.zoom +
+      state.y,
+  });
+
+  /**
+   * Get Transform
+   *
+   * @returns CSS transform that draws world space through the camera, for
+   *   an element positioned at the top-left of the game area with
+   *   `transform-origin: 0 0`
+   */
+  const getTransform = () => {
+    const origin = worldToScreen({ x: 0, y: 0 });
+    return `translate(${origin.x}px, ${origin.y}px) scale(${state.zoom})`;
+  };
+
+  return {
+    update,
+    follow: setTarget,
+    moveTo,
+    setZoom,
+    setBounds,
+    setViewport,
+    shake,
+    worldToScreen,
+    screenToWorld,
+    getTransform,
+    getState: (): CameraState => ({ ...state }),
+  };
+}
+
+export type Camera = ReturnType<typeof createCamera>;
@@ -0,0 +1,168 @@
+/**
+ * Developer Tools
+ *
+ * The pieces behind the dev overlay (components/DevOverlay.tsx):
+ * - An inspector that games register live values with, so the overlay
+ *   can show them and edit them while the game runs
+ * - A fixed-size history for the event log and the frame-time graph
+ * - A short, safe text summary of event payloads
+ *
+ * Nothing here touches the DOM, so the inspector can be created on the
+ * server and in production builds, where the overlay itself is left out.
+ */
+
+/**
+ * Inspected Value Type
+ *
+ * Values the overlay knows how to show and edit.
+ */
+export type InspectedValue = number | boolean | string;
+
+/**
+ * Inspector Entry
+ *
+ * - get: Reads the current value; called while the overlay is open
+ * - set: Writes a value typed into the overlay; leave unset for values
+ *   that are read-only
+ * - step: Step of the number input, for number values (defaults to 1)
+ */
+export interface InspectorEntry<T extends InspectedValue = InspectedValue> {
+  get: () => T;
+  set?: (value: T) => void;
+  step?: number;
+}
+
+/**
+ * Create Inspector
+ *
+ * Holds the values registered for inspection, by name, in the order they
+ * were registered.
+ *
+ * @returns Inspector with its register, entries and subscribe functions
+ */
+export function createInspector() {
+  const entries = new Map<string, InspectorEntry>();
+  const listeners = new Set<() => void>();
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  /**
+   * Register
+   *
+   * Adds a value to the inspector. Registering a name again replaces the
+   * earlier entry.
+   *
+   * @param name - Label shown in the overlay, e.g. "player.x"
+   * @param entry - How to read (and optionally write) the value
+   * @returns Function that removes the entry again
+   */
+  const register = <T extends InspectedValue>(
+    name: string,
+    entry: InspectorEntry<T>
+  ) => {
+    const stored = entry as unknown as InspectorEntry;
+    entries.set(name, stored);
+    notify();
+
+    return () => {
+      // A later registration of the same name stays in place
+      if (entries.get(name) !== stored) return;
+      entries.delete(name);
+      notify();
+    };
+  };
+
+  /**
+   * Subscribe
+   *
+   * @param listener - Called whenever an entry is added or removed
+   * @returns Function to unsubscribe
+   */
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    register,
+    subscribe,
+    /** Registered entries as [name, entry] pairs */
+    entries: () => Array.from(entries),
+  };
+}
+
+export type Inspector = ReturnType<typeof createInspector>;
+
+/**
+ * Create History
+ *
+ * A ring buffer keeping the most recent items, e.g. logged events or
+ * frame times.
+ *
+ * @param capacity - Number of items kept; older items are dropped
+ * @returns History with its push, items and clear functions
+ */
+export function createHistory<T>(capacity: number) {
+  const buffer: T[] = [];
+  let start = 0;
+
+  /**
+   * Push
+   *
+   * Adds an item, dropping the oldest one once the history is full.
+   */
+  const push = (item: T) => {
+    if (buffer.length < capacity) {
+      buffer.push(item);
+    } else {
+      buffer[start] = item;
+      start = (start + 1) % capacity;
+    }
+  };
+
+  /**
+   * Items
+   *
+   * @returns Items from oldest to newest
+   */
+  const items = () => [...buffer.slice(start), ...buffer.slice(0, start)];
+
+  const clear = () => {
+    buffer.length = 0;
+    start = 0;
+  };
+
+  return { push, items, clear, capacity };
+}
+
+export type History<T> = ReturnType<typeof createHistory<T>>;
+
+/**
+ * Summarize Payload
+ *
+ * Turns an event payload into one line of text for the event log.
+ * Payloads that can't be serialized (cycles, DOM nodes) are described
+ * instead of throwing.
+ *
+ * @param payload - Event payload
+ * @param maxLength - Longest summary, in characters
+ * @returns The summary ("" when there's no payload)
+ */
+export function summarizePayload(payload: unknown, maxLength = 120) {
+  if (payload === undefined) return "";
+
+  let text: string;
+  try {
+    text =
+      JSON.stringify(payload, (_, value) =>
+        typeof value === "number" && !Number.isInteger(value)
+          ? Math.round(value * 100) / 100
+          : value
+      ) ?? String(payload);
+  } catch {
+    text = `[${Object.prototype.toString.call(payload).slice(8, -1)}]`;
+  }
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
@@ -0,0 +1,390 @@
+/**
+ * Entity Component System
+ *
+ * A small ECS for games with many similar objects (particles, enemies,
+ * pickups). Entities are plain numeric IDs, components are plain objects
+ * stored per component type, and systems are functions that run in a fixed
+ * order every time the world is updated.
+ *
+ * The component types are declared once per world as a map:
+ *
+ * ```ts
+ * interface Components {
+ *   position: { x: number; y: number };
+ *   velocity: { x: number; y: number };
+ *   life: number;
+ * }
+ * const world = createWorld<Components>();
+ * ```
+ *
+ * Component objects are stored by reference, so systems update them in
+ * place; only adding or removing entities and components counts as a change
+ * to the world's structure.
+ */
+
+import { EventPriority } from "./eventBus";
+
+/**
+ * Entity Type
+ *
+ * Identifies an entity within its world. IDs are never reused.
+ */
+export type Entity = number;
+
+/**
+ * Component Name Type
+ *
+ * Names of the components declared in a world's component map.
+ */
+export type ComponentName<TComponents extends object> = Extract<
+  keyof TComponents,
+  string
+>;
+
+/**
+ * Query Row Type
+ *
+ * One result of a query: the entity plus each requested component.
+ */
+export type QueryRow<
+  TComponents extends object,
+  K extends ComponentName<TComponents>,
+> = { entity: Entity } & { [P in K]: TComponents[P] };
+
+/**
+ * System Type
+ *
+ * Called once per world update with the world and the frame's deltaTime
+ * in seconds.
+ */
+export type System<TComponents extends object> = (
+  world: World<TComponents>,
+  deltaTime: number
+) => void;
+
+/**
+ * System Options
+ *
+ * - priority: Lower numbers run first (same scale as EventPriority);
+ *   systems with equal priority run in the order they were added.
+ *   Defaults to EventPriority.Default.
+ * - name: Label for debugging
+ */
+export interface SystemOptions {
+  priority?: number;
+  name?: string;
+}
+
+/**
+ * World Interface
+ *
+ * - createEntity: Add an entity, optionally with initial components
+ * - destroyEntity: Remove an entity and all its components
+ * - hasEntity: Whether an entity is still alive
+ * - addComponent: Attach (or replace) a component on an entity
+ * - removeComponent: Detach a component from an entity
+ * - getComponent / hasComponent: Read a single component
+ * - query: Every entity that has all the given components
+ * - addSystem: Register a system, returns a function to remove it
+ * - update: Run every system once
+ * - clear: Remove every entity (systems are kept)
+ * - onChange: Listen for updates and structural changes, returns a
+ *   function to stop listening
+ * - entityCount: Number of living entities
+ * - version: Increases on every update and structural change
+ */
+export interface World<TComponents extends object> {
+  createEntity: (components?: Partial<TComponents>) => Entity;
+  destroyEntity: (entity: Entity) => void;
+  hasEntity: (entity: Entity) => boolean;
+  addComponent: <K extends ComponentName<TComponents>>(
+    entity: Entity,
+    name: K,
+    value: TComponents[K]
+  ) => void;
+  removeComponent: (
+    entity: Entity,
+    name: ComponentName<TComponents>
+  ) => void;
+  getComponent: <K extends ComponentName<TComponents>>(
+    entity: Entity,
+    name: K
+  ) => TComponents[K] | undefined;
+  hasComponent: (entity: Entity, name: ComponentName<TComponents>) => boolean;
+  query: <K extends ComponentName<TComponents>>(
+    ...names: K[]
+  ) => ReadonlyArray<QueryRow<TComponents, K>>;
+  addSystem: (
+    system: System<TComponents>,
+    options?: SystemOptions
+  ) => () => void;
+  update: (deltaTime: number) => void;
+  clear: () => void;
+  onChange: (listener: () => void) => () => void;
+  readonly entityCount: number;
+  readonly version: number;
+}
+
+/**
+ * Cached Query
+ *
+ * - names: Components an entity needs to match
+ * - rows: Matching entities and their row objects
+ * - list: Rows as an array, rebuilt lazily after membership changes
+ */
+interface CachedQuery {
+  names: string[];
+  rows: Map<Entity, Record<string, unknown>>;
+  list: Record<string, unknown>[] | null;
+}
+
+/**
+ * Registered System
+ *
+ * - order: Registration sequence number, breaks priority ties
+ */
+interface SystemEntry<TComponents extends object> {
+  system: System<TComponents>;
+  priority: number;
+  order: number;
+  name?: string;
+}
+
+/**
+ * Create World
+ *
+ * @returns Empty world for the given component map
+ */
+export function createWorld<TComponents extends object>(): World<TComponents> {
+  type Name = ComponentName<TComponents>;
+
+  // Living entities
+  const entities = new Set<Entity>();
+
+  // Component values by component name, then entity
+  const stores = new Map<string, Map<Entity, unknown>>();
+
+  // Queries by their sorted component list, e.g. "position,velocity"
+  const queries = new Map<string, CachedQuery>();
+
+  // Systems sorted by priority
+  let systems: SystemEntry<TComponents>[] = [];
+
+  const listeners = new Set<() => void>();
+
+  let nextEntity = 1;
+  let nextSystemOrder = 0;
+  let version = 0;
+  let updating = false;
+
+  /**
+   * Changed
+   *
+   * Bumps the version and notifies listeners. Structural changes made by
+   * systems are reported once, when the update finishes.
+   */
+  const changed = () => {
+    version++;
+    if (!updating) {
+      listeners.forEach((listener) => listener());
+    }
+  };
+
+  const store = (name: string) => {
+    let values = stores.get(name);
+    if (!values) {
+      values = new Map();
+      stores.set(name, values);
+    }
+    return values;
+  };
+
+  /**
+   * Refresh Queries
+   *
+   * Re-checks an entity against every cached query that involves one of
+   * the changed components.
+   */
+  const refreshQueries = (entity: Entity, changedNames: string[]) => {
+    queries.forEach((query) => {
+      if (!query.names.some((name) => changedNames.includes(name))) return;
+
+      const matches =
+        entities.has(entity) &&
+        query.names.every((name) => stores.get(name)?.has(entity));
+
+      if (matches) {
+        const row: Record<string, unknown> = { entity };
+        query.names.forEach((name) => {
+          row[name] = stores.get(name)!.get(entity);
+        });
+        query.rows.set(entity, row);
+        query.list = null;
+      } else if (query.rows.delete(entity)) {
+        query.list = null;
+      }
+    });
+  };
+
+  const createEntity = (components: Partial<TComponents> = {}) => {
+    const entity = nextEntity++;
+    entities.add(entity);
+
+    const names = Object.keys(components) as Name[];
+    names.forEach((name) => {
+      store(name).set(entity, components[name]);
+    });
+    refreshQueries(entity, names);
+    changed();
+
+    return entity;
+  };
+
+  const destroyEntity = (entity: Entity) => {
+    if (!entities.delete(entity)) return;
+
+    const names: string[] = [];
+    stores.forEach((values, name) => {
+      if (values.delete(entity)) names.push(name);
+    });
+    refreshQueries(entity, names);
+    changed();
+  };
+
+  const addComponent = <K extends Name>(
+    entity: Entity,
+    name: K,
+    value: TComponents[K]
+  ) => {
+    if (!entities.has(entity)) {
+      throw new Error(`Entity ${entity} does not exist`);
+    }
+    store(name).set(entity, value);
+    refreshQueries(entity, [name]);
+    changed();
+  };
+
+  const removeComponent = (entity: Entity, name: Name) => {
+    if (!stores.get(name)?.delete(entity)) return;
+    refreshQueries(entity, [name]);
+    changed();
+  };
+
+  const getComponent = <K extends Name>(entity: Entity, name: K) =>
+    stores.get(name)?.get(entity) as TComponents[K] | undefined;
+
+  const hasComponent = (entity: Entity, name: Name) =>
+    stores.get(name)?.has(entity) ?? false;
+
+  /**
+   * Query
+   *
+   * Returns every entity that has all the given components. Results are
+   * cached and kept up to date as components change, so calling this every
+   * frame is cheap. The returned array is never modified afterwards, so
+   * it's safe to create or destroy entities while iterating it.
+   *
+   * @param names - Components the entities must have
+   * @returns Rows with the entity and each requested component
+   */
+  const query = <K extends Name>(...names: K[]) => {
+    const sorted = Array.from(new Set<string>(names)).sort();
+    const key = sorted.join(",");
+
+    let cached = queries.get(key);
+    if (!cached) {
+      const created: CachedQuery = {
+        names: sorted,
+        rows: new Map(),
+        list: null,
+      };
+      queries.set(key, created);
+      entities.forEach((entity) => refreshQueries(entity, sorted));
+      cached = created;
+    }
+
+    if (!cached.list) {
+      cached.list = Array.from(cached.rows.values());
+    }
+    return cached.list as unknown as ReadonlyArray<QueryRow<TComponents, K>>;
+  };
+
+  const addSystem = (
+    system: System<TComponents>,
+    options: SystemOptions = {}
+  ) => {
+    const entry: SystemEntry<TComponents> = {
+      system,
+      priority: options.priority ?? EventPriority.Default,
+      order: nextSystemOrder++,
+      name: options.name,
+    };
+    systems = [...systems, entry].sort(
+      (a, b) => a.priority - b.priority || a.order - b.order
+    );
+
+    return () => {
+      systems = systems.filter((existing) => existing !== entry);
+    };
+  };
+
+  /**
+   * Update
+   *
+   * Runs every system in priority order, then notifies listeners once.
+   *
+   * @param deltaTime - Time since the last update in seconds
+   */
+  const update = (deltaTime: number) => {
+    updating = true;
+    try {
+      // Snapshot so systems can add or remove systems while running
+      systems.slice().forEach((entry) => entry.system(world, deltaTime));
+    } finally {
+      updating = false;
+    }
+    changed();
+  };
+
+  const clear = () => {
+    if (entities.size === 0) return;
+
+    entities.clear();
+    stores.clear();
+    queries.forEach((cached) => {
+      cached.rows.clear();
+      cached.list = null;
+    });
+    changed();
+  };
+
+  const onChange = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const world: World<TComponents> = {
+    createEntity,
+    destroyEntity,
+    hasEntity: (entity) => entities.has(entity),
+    addComponent,
+    removeComponent,
+    getComponent,
+    hasComponent,
+    query,
+    addSystem,
+    update,
+    clear,
+    onChange,
+    get entityCount() {
+      return entities.size;
+    },
+    get version() {
+      return version;
+    },
+  };
+
+  return world;
+}
@@ -0,0 +1,255 @@
+/**
+ * Event Bus
+ *
+ * The publish/subscribe core behind useGameLoop(). Supports:
+ * - Immediate emission (emit) and a deferred per-frame queue (enqueue/flush)
+ * - One-shot subscribers (subscribeOnce)
+ * - Numeric priorities so systems run in a predictable order
+ * - A "*" wildcard that receives every event, e.g. for logging
+ *
+ * The bus is untyped at runtime; GameWrapper layers the event map types on
+ * top of it.
+ */
+
+/**
+ * Bus Event Interface
+ *
+ * - type: Event name
+ * - payload: Data associated with the event
+ * - timestamp: Clock time when the event was emitted or queued
+ */
+export interface BusEvent {
+  type: string;
+  payload: unknown;
+  timestamp: number;
+}
+
+/**
+ * Bus Callback Type
+ */
+export type BusCallback = (event: BusEvent) => void;
+
+/**
+ * Subscribe Options
+ *
+ * - priority: Lower numbers run first (see EventPriority); subscribers with
+ *   equal priority run in subscription order. Defaults to
+ *   EventPriority.Default.
+ * - once: Unsubscribe automatically after the first event
+ */
+export interface SubscribeOptions {
+  priority?: number;
+  once?: boolean;
+}
+
+/**
+ * Event Priorities
+ *
+ * Suggested priorities for ordering game systems within a single event.
+ * Any number works; these leave room in between.
+ */
+export const EventPriority = {
+  Input: 100,
+  Physics: 200,
+  Default: 500,
+  Animation: 600,
+  Camera: 700,
+  Effects: 800,
+  Render: 900,
+  Logging: 1000,
+} as const;
+
+/**
+ * Wildcard event name that receives every event
+ */
+export const WILDCARD = "*";
+
+/**
+ * Subscriber Record
+ *
+ * - order: Subscription sequence number, breaks priority ties
+ * - active: Cleared on unsubscribe so in-flight dispatches skip it
+ */
+interface Subscriber {
+  type: string;
+  callback: BusCallback;
+  priority: number;
+  order: number;
+  once: boolean;
+  active: boolean;
+}
+
+/**
+ * Compare Subscribers
+ *
+ * Sorts by priority, then by subscription order.
+ */
+function compareSubscribers(a: Subscriber, b: Subscriber) {
+  return a.priority - b.priority || a.order - b.order;
+}
+
+/**
+ * Create Event Bus
+ *
+ * @param now - Clock used to timestamp events (milliseconds)
+ * @returns Event bus with subscribe/emit/queue functions
+ */
+export function createEventBus(now: () => number) {
+  // Subscribers by event type, each list kept sorted by priority
+  const subscribers = new Map<string, Subscriber[]>();
+
+  // Events waiting for the next flush
+  let queue: BusEvent[] = [];
+
+  // Monotonic counter for stable ordering of equal priorities
+  let nextOrder = 0;
+
+  /**
+   * Subscribe
+   *
+   * Registers a callback for an event type, or "*" for every event.
+   *
+   * @param type - Event type to subscribe to
+   * @param callback - Function to call when the event occurs
+   * @param options - Priority and once behaviour
+   * @returns Function to unsubscribe
+   */
+  const subscribe = (
+    type: string,
+    callback: BusCallback,
+    options: SubscribeOptions = {}
+  ) => {
+    const subscriber: Subscriber = {
+      type,
+      callback,
+      priority: options.priority ?? EventPriority.Default,
+      order: nextOrder++,
+      once: options.once ?? false,
+      active: true,
+    };
+
+    const list = subscribers.get(type) ?? [];
+    list.push(subscriber);
+    list.sort(compareSubscribers);
+    subscribers.set(type, list);
+
+    return () => removeSubscriber(subscriber);
+  };
+
+  /**
+   * Remove Subscriber
+   *
+   * Deactivates a subscriber and drops it from its type's list.
+   */
+  const removeSubscriber = (subscriber: Subscriber) => {
+    if (!subscriber.active) return;
+    subscriber.active = false;
+
+    const remaining = (subscribers.get(subscriber.type) ?? []).filter(
+      (entry) => entry !== subscriber
+    );
+    if (remaining.length === 0) {
+      subscribers.delete(subscriber.type);
+    } else {
+      subscribers.set(subscriber.type, remaining);
+    }
+  };
+
+  /**
+   * Subscribe Once
+   *
+   * Like subscribe, but the callback runs for the next event only.
+   */
+  const subscribeOnce = (
+    type: string,
+    callback: BusCallback,
+    options: Omit<SubscribeOptions, "once"> = {}
+  ) => subscribe(type, callback, { ...options, once: true });
+
+  /**
+   * Dispatch
+   *
+   * Calls every subscriber of the event's type plus wildcard subscribers,
+   * merged in priority order. Works on a snapshot so subscribers can
+   * (un)subscribe while the event is being delivered.
+   *
+   * @param event - Event to deliver
+   */
+  const dispatch = (event: BusEvent) => {
+    const typed = subscribers.get(event.type) ?? [];
+    const wildcard =
+      event.type === WILDCARD ? [] : subscribers.get(WILDCARD) ?? [];
+
+    const targets =
+      wildcard.length === 0
+        ? typed.slice()
+        : [...typed, ...wildcard].sort(compareSubscribers);
+
+    for (const subscriber of targets) {
+      // Skip anything unsubscribed by an earlier callback
+      if (!subscriber.active) continue;
+
+      // Remove before calling so re-entrant emits can't fire it twice
+      if (subscriber.once) removeSubscriber(subscriber);
+
+      subscriber.callback(event);
+    }
+  };
+
+  /**
+   * Emit
+   *
+   * Delivers an event to its subscribers immediately.
+   *
+   * @param type - Type of event to emit
+   * @param payload - Data to include with the event
+   */
+  const emit = (type: string, payload?: unknown) => {
+    dispatch({ type, payload, timestamp: now() });
+  };
+
+  /**
+   * Enqueue
+   *
+   * Queues an event to be delivered at the next flush. Use this from
+   * places that must not run game logic synchronously, such as DOM event
+   * handlers or React state updates.
+   *
+   * @param type - Type of event to queue
+   * @param payload - Data to include with the event
+   */
+  const enqueue = (type: string, payload?: unknown) => {
+    queue.push({ type, payload, timestamp: now() });
+  };
+
+  /**
+   * Flush
+   *
+   * Delivers every queued event in the order it was queued. Events queued
+   * while flushing wait for the next flush, so a handler that re-queues
+   * can't stall the frame.
+   */
+  const flush = () => {
+    if (queue.length === 0) return;
+
+    const pending = queue;
+    queue = [];
+    pending.forEach(dispatch);
+  };
+
+  /**
+   * Clear Queue
+   *
+   * Drops queued events without delivering them.
+   */
+  const clearQueue = () => {
+    queue = [];
+  };
+
+  return { subscribe, subscribeOnce, emit, enqueue, flush, clearQueue };
+}
+
+/**
+ * Event Bus Type
+ */
+export type EventBus = ReturnType<typeof createEventBus>;
@@ -0,0 +1,213 @@
+/**
+ * Gamepad Input
+ *
+ * Helpers for reading controllers through the Gamepad API. GameWrapper
+ * polls every connected pad once per frame and turns buttons, the d-pad and
+ * stick directions into input identifiers that can be bound to actions just
+ * like keyboard keys:
+ *
+ * - Buttons: "Pad:A", "Pad:B", "Pad:X", "Pad:Y", "Pad:LB", "Pad:RB",
+ *   "Pad:LT", "Pad:RT", "Pad:Select", "Pad:Start", "Pad:LS", "Pad:RS",
+ *   "Pad:Home"
+ * - D-pad: "Pad:DPadUp", "Pad:DPadDown", "Pad:DPadLeft", "Pad:DPadRight"
+ * - Sticks: "Pad:LeftStickUp", "Pad:LeftStickDown", "Pad:LeftStickLeft",
+ *   "Pad:LeftStickRight" and the same for "Pad:RightStick..."
+ *
+ * Names follow the browser's "standard" mapping (Xbox layout).
+ */
+
+/**
+ * Standard Mapping Button Names
+ *
+ * Index in this array is the button index in `Gamepad.buttons`.
+ */
+const STANDARD_BUTTONS = [
+  "A",
+  "B",
+  "X",
+  "Y",
+  "LB",
+  "RB",
+  "LT",
+  "RT",
+  "Select",
+  "Start",
+  "LS",
+  "RS",
+  "DPadUp",
+  "DPadDown",
+  "DPadLeft",
+  "DPadRight",
+  "Home",
+];
+
+/**
+ * Analog Defaults
+ *
+ * - DEFAULT_DEADZONE: Stick magnitude below which input is ignored
+ * - STICK_PRESS_THRESHOLD: Stick value (after deadzone) at which a stick
+ *   direction counts as a pressed input
+ * - BUTTON_PRESS_THRESHOLD: Analog button value (triggers) that counts as
+ *   pressed
+ */
+export const DEFAULT_DEADZONE = 0.25;
+const STICK_PRESS_THRESHOLD = 0.5;
+const BUTTON_PRESS_THRESHOLD = 0.5;
+
+/**
+ * Stick Interface
+ *
+ * Analog stick position after the deadzone, each axis in -1..1
+ * (positive X is right, positive Y is down).
+ */
+export interface Stick {
+  x: number;
+  y: number;
+}
+
+/**
+ * Gamepad Axes Interface
+ *
+ * Analog values read from a single controller.
+ */
+export interface GamepadAxes {
+  leftStick: Stick;
+  rightStick: Stick;
+  leftTrigger: number;
+  rightTrigger: number;
+}
+
+/**
+ * Gamepad Reading Interface
+ *
+ * Everything read from a controller in one poll:
+ * - inputs: Input identifiers currently held (e.g. "Pad:A")
+ * - axes: Analog values for the useGamepad() hook
+ */
+export interface GamepadReading {
+  inputs: Set<string>;
+  axes: GamepadAxes;
+}
+
+/**
+ * Neutral Axes
+ *
+ * Axis values for a disconnected or untouched controller.
+ */
+export const NEUTRAL_AXES: GamepadAxes = {
+  leftStick: { x: 0, y: 0 },
+  rightStick: { x: 0, y: 0 },
+  leftTrigger: 0,
+  rightTrigger: 0,
+};
+
+/**
+ * Apply Deadzone
+ *
+ * Applies a radial deadzone to a stick and rescales the remaining range so
+ * output still goes smoothly from 0 to 1.
+ *
+ * @param x - Raw horizontal axis value
+ * @param y - Raw vertical axis value
+ * @param deadzone - Magnitude below which the stick reads as centered
+ * @returns Stick position after the deadzone
+ */
+export function applyDeadzone(x: number, y: number, deadzone: number): Stick {
+  const magnitude = Math.hypot(x, y);
+  if (magnitude < deadzone || magnitude === 0) return { x: 0, y: 0 };
+
+  const scaled = Math.min(1, (magnitude - deadzone) / (1 - deadzone));
+  return { x: (x / magnitude) * scaled, y: (y / magnitude) * scaled };
+}
+
+/**
+ * Stick Inputs
+ *
+ * Adds the directional inputs for a stick that is pushed far enough.
+ *
+ * @param inputs - Set to add held inputs to
+ * @param prefix - "LeftStick" or "RightStick"
+ * @param stick - Stick position after the deadzone
+ */
+function addStickInputs(inputs: Set<string>, prefix: string, stick: Stick) {
+  if (stick.y <= -STICK_PRESS_THRESHOLD) inputs.add(`Pad:${prefix}Up`);
+  if (stick.y >= STICK_PRESS_THRESHOLD) inputs.add(`Pad:${prefix}Down`);
+  if (stick.x <= -STICK_PRESS_THRESHOLD) inputs.add(`Pad:${prefix}Left`);
+  if (stick.x >= STICK_PRESS_THRESHOLD) inputs.add(`Pad:${prefix}Right`);
+}
+
+/**
+ * Read Gamepad
+ *
+ * Reads the held inputs and analog values of a controller.
+ *
+ * @param pad - Gamepad snapshot from navigator.getGamepads()
+ * @param deadzone - Stick deadzone
+ * @returns Held inputs and axes
+ */
+export function readGamepad(pad: Gamepad, deadzone: number): GamepadReading {
+  const inputs = new Set<string>();
+
+  pad.buttons.forEach((button, index) => {
+    const name = STANDARD_BUTTONS[index];
+    if (name && (button.pressed || button.value >= BUTTON_PRESS_THRESHOLD)) {
+      inputs.add(`Pad:${name}`);
+    }
+  });
+
+  const leftStick = applyDeadzone(pad.axes[0] ?? 0, pad.axes[1] ?? 0, deadzone);
+  const rightStick = applyDeadzone(
+    pad.axes[2] ?? 0,
+    pad.axes[3] ?? 0,
+    deadzone
+  );
+  addStickInputs(inputs, "LeftStick", leftStick);
+  addStickInputs(inputs, "RightStick", rightStick);
+
+  return {
+    inputs,
+    axes: {
+      leftStick,
+      rightStick,
+      leftTrigger: pad.buttons[6]?.value ?? 0,
+      rightTrigger: pad.buttons[7]?.value ?? 0,
+    },
+  };
+}
+
+/**
+ * Axes Changed
+ *
+ * Compares two axis readings, ignoring jitter below the tolerance, so React
+ * state is only updated when a stick actually moves.
+ *
+ * @param a - Previous axes
+ * @param b - Next axes
+ * @param tolerance - Smallest change worth reporting
+ * @returns Whether any value moved by more than the tolerance
+ */
+export function axesChanged(a: GamepadAxes, b: GamepadAxes, tolerance = 0.01) {
+  return (
+    Math.abs(a.leftStick.x - b.leftStick.x) > tolerance ||
+    Math.abs(a.leftStick.y - b.leftStick.y) > tolerance ||
+    Math.abs(a.rightStick.x - b.rightStick.x) > tolerance ||
+    Math.abs(a.rightStick.y - b.rightStick.y) > tolerance ||
+    Math.abs(a.leftTrigger - b.leftTrigger) > tolerance ||
+    Math.abs(a.rightTrigger - b.rightTrigger) > tolerance
+  );
+}
+
+/**
+ * Get Connected Gamepads
+ *
+ * Wraps navigator.getGamepads(), which is missing in some environments and
+ * returns sparse arrays with null holes.
+ *
+ * @returns Connected gamepads
+ */
+export function getConnectedGamepads(): Gamepad[] {
+  if (typeof navigator === "undefined" || !navigator.getGamepads) return [];
+  return Array.from(navigator.getGamepads()).filter(
+    (pad): pad is Gamepad => pad !== null && pad.connected
+  );
+}
@@ -0,0 +1,146 @@
+/**
+ * Game Registry
+ *
+ * Every playable game, by slug. The launcher on the home page lists them
+ * and app/game/[slug] plays them, so adding a game only takes an entry
+ * here. The last game played is remembered in localStorage.
+ */
+
+import type { ComponentType } from "react";
+import type { GameWrapperProps } from "../components/GameWrapper";
+import GameExample from "../components/GameExample";
+import EventDemo from "../components/EventDemo";
+import PlatformerDemo from "../components/PlatformerDemo";
+import ExampleGame from "../components/ExampleGame";
+
+/**
+ * Game Control
+ *
+ * One line of a game's controls, e.g. { keys: ["←", "→"], action: "Move" }.
+ */
+export interface GameControl {
+  keys: string[];
+  action: string;
+}
+
+/**
+ * Game Info
+ *
+ * - slug: URL segment of the game, e.g. /game/platformer
+ * - title: Display name
+ * - description: One or two sentences shown on the launcher and in the
+ *   page's metadata
+ * - thumbnail: Image URL, 16:9
+ * - component: Game rendered inside the GameWrapper
+ * - controls: How to play
+ * - wrapper: Extra GameWrapper props for the game, e.g. its bindings
+ */
+export interface GameInfo {
+  slug: string;
+  title: string;
+  description: string;
+  thumbnail: string;
+  component: ComponentType;
+  controls: GameControl[];
+  wrapper?: Omit<GameWrapperProps, "children">;
+}
+
+/**
+ * Games in launcher order
+ */
+export const GAMES: GameInfo[] = [
+  {
+    slug: "platformer",
+    title: "Platformer",
+    description:
+      "Run and jump across a level with physics, a following camera, dust and sound.",
+    thumbnail: "/thumbnails/platformer.svg",
+    component: PlatformerDemo,
+    controls: [
+      { keys: ["←", "→"], action: "Move" },
+      { keys: ["↑", "Space"], action: "Jump" },
+    ],
+  },
+  {
+    slug: "hero",
+    title: "Hero",
+    description:
+      "Walk an animated hero around the screen, and fly while boosting.",
+    thumbnail: "/thumbnails/hero.svg",
+    component: GameExample,
+    controls: [
+      { keys: ["←", "↑", "→", "↓"], action: "Move" },
+      { keys: ["Space"], action: "Fly" },
+    ],
+  },
+  {
+    slug: "sparkles",
+    title: "Sparkles",
+    description:
+      "Every key press emits a game event and bursts pooled particles.",
+    thumbnail: "/thumbnails/sparkles.svg",
+    component: EventDemo,
+    controls: [{ keys: ["←", "↑", "→", "↓", "Space"], action: "Sparkle" }],
+  },
+  {
+    slug: "emoji-walker",
+    title: "Emoji Walker",
+    description: "The simplest game: an emoji moved with the keyboard hooks.",
+    thumbnail: "/thumbnails/emoji.svg",
+    component: ExampleGame,
+    controls: [
+      { keys: ["←", "↑", "→", "↓"], action: "Move" },
+      { keys: ["Space"], action: "Dash" },
+    ],
+  },
+];
+
+/**
+ * Get Game
+ *
+ * @param slug - Game slug
+ * @returns The game, or undefined if no game has the slug
+ */
+export function getGame(slug: string): GameInfo | undefined {
+  return GAMES.find((game) => game.slug === slug);
+}
+
+/**
+ * Default storage key for the last game played
+ */
+export const LAST_PLAYED_STORAGE_KEY = "game-last-played";
+
+/**
+ * Save Last Played
+ *
+ * @param slug - Game that was just started
+ * @param storageKey - localStorage key to write to
+ */
+export function saveLastPlayed(
+  slug: string,
+  storageKey = LAST_PLAYED_STORAGE_KEY
+) {
+  try {
+    window.localStorage.setItem(storageKey, slug);
+  } catch {
+    // Storage full or unavailable - the launcher just won't highlight it
+  }
+}
+
+/**
+ * Load Last Played
+ *
+ * @param storageKey - localStorage key to read from
+ * @returns The last game played, or undefined if there isn't one (or it
+ *   has been removed from the registry)
+ */
+export function loadLastPlayed(
+  storageKey = LAST_PLAYED_STORAGE_KEY
+): GameInfo | undefined {
+  try {
+    const slug = window.localStorage.getItem(storageKey);
+    return slug === null ? undefined : getGame(slug);
+  } catch {
+    return undefined;
+  }
+}
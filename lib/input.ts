@@ -0,0 +1,186 @@
+/**
+ * Input Actions
+ *
+ * Games describe their controls as named actions ("jump", "dash", "pause")
+ * bound to one or more physical inputs. GameWrapper turns raw keyboard
+ * events and gamepad polls into action state using these helpers, so game
+ * code never has to know which key or button the player actually pressed.
+ */
+
+/**
+ * Input Bindings
+ *
+ * Maps each action to the inputs that trigger it. Keyboard inputs use the
+ * normalized `KeyboardEvent.key` value (see normalizeKey), e.g. "w",
+ * "ArrowUp", "Space", "Shift", "Escape". Gamepad inputs use the "Pad:"
+ * identifiers described in lib/gamepad.ts, e.g. "Pad:A", "Pad:DPadUp".
+ */
+export type InputBindings<TAction extends string = string> = Record<
+  TAction,
+  string[]
+>;
+
+/**
+ * Action State
+ *
+ * The pressed/released state of every bound action.
+ */
+export type ActionState<TAction extends string = string> = Record<
+  TAction,
+  boolean
+>;
+
+/**
+ * KeyState Actions
+ *
+ * The five actions behind the classic useKeyState() hook.
+ */
+export type KeyStateAction =
+  | "ArrowUp"
+  | "ArrowDown"
+  | "ArrowLeft"
+  | "ArrowRight"
+  | "Space";
+
+/**
+ * KeyState Interface
+ *
+ * Tracks the current pressed/released state of game control keys
+ * including arrow keys and space bar.
+ */
+export type KeyState = ActionState<KeyStateAction>;
+
+/**
+ * KeyState Preset
+ *
+ * Default bindings used when a GameWrapper isn't given its own. Supports
+ * both WASD and arrow keys for movement, plus space bar, and the d-pad,
+ * left stick and A button on gamepads.
+ */
+export const keyStateBindings: InputBindings<KeyStateAction> = {
+  ArrowUp: ["ArrowUp", "w", "Pad:DPadUp", "Pad:LeftStickUp"],
+  ArrowDown: ["ArrowDown", "s", "Pad:DPadDown", "Pad:LeftStickDown"],
+  ArrowLeft: ["ArrowLeft", "a", "Pad:DPadLeft", "Pad:LeftStickLeft"],
+  ArrowRight: ["ArrowRight", "d", "Pad:DPadRight", "Pad:LeftStickRight"],
+  Space: ["Space", "Pad:A"],
+};
+
+/**
+ * Default storage key for rebound controls
+ */
+export const DEFAULT_BINDINGS_STORAGE_KEY = "game-input-bindings";
+
+/**
+ * Normalize Key
+ *
+ * Turns a `KeyboardEvent.key` value into the identifier used in bindings.
+ * Single characters are lower-cased so Shift/Caps Lock don't change which
+ * action a letter triggers, and the space bar becomes "Space".
+ *
+ * @param key - Raw `KeyboardEvent.key` value
+ * @returns Normalized key identifier
+ */
+export function normalizeKey(key: string): string {
+  if (key === " ") return "Space";
+  return key.length === 1 ? key.toLowerCase() : key;
+}
+
+/**
+ * Build Input Lookup
+ *
+ * Inverts bindings into an input → actions map for fast event handling.
+ * One input may trigger several actions.
+ *
+ * @param bindings - Action bindings to invert
+ * @returns Map from normalized input identifier to the actions it triggers
+ */
+export function buildInputLookup<TAction extends string>(
+  bindings: InputBindings<TAction>
+): Map<string, TAction[]> {
+  const lookup = new Map<string, TAction[]>();
+
+  for (const action of Object.keys(bindings) as TAction[]) {
+    for (const input of bindings[action]) {
+      const key = normalizeKey(input);
+      const actions = lookup.get(key) ?? [];
+      if (!actions.includes(action)) actions.push(action);
+      lookup.set(key, actions);
+    }
+  }
+
+  return lookup;
+}
+
+/**
+ * Load Bindings
+ *
+ * Reads rebound controls from localStorage and merges them over the
+ * defaults. Unknown actions and malformed entries are ignored so a stale or
+ * hand-edited blob can't break input.
+ *
+ * @param storageKey - localStorage key to read from
+ * @param defaults - Bindings to fall back to
+ * @returns Bindings with any saved overrides applied
+ */
+export function loadBindings<TAction extends string>(
+  storageKey: string,
+  defaults: InputBindings<TAction>
+): InputBindings<TAction> {
+  try {
+    const raw = window.localStorage.getItem(storageKey);
+    if (!raw) return defaults;
+
+    const saved: unknown = JSON.parse(raw);
+    if (!saved || typeof saved !== "object") return defaults;
+
+    const merged = { ...defaults };
+    for (const action of Object.keys(defaults) as TAction[]) {
+      const inputs = (saved as Record<string, unknown>)[action];
+      if (
+        Array.isArray(inputs) &&
+        inputs.every((input) => typeof input === "string")
+      ) {
+        merged[action] = inputs;
+      }
+    }
+    return merged;
+  } catch {
+    // Storage unavailable (private mode, SSR) or corrupt JSON
+    return defaults;
+  }
+}
+
+/**
+ * Save Bindings
+ *
+ * Persists bindings to localStorage. Failures are ignored; rebinding still
+ * works for the current session.
+ *
+ * @param storageKey - localStorage key to write to
+ * @param bindings - Bindings to save
+ */
+export function saveBindings<TAction extends string>(
+  storageKey: string,
+  bindings: InputBindings<TAction>
+) {
+  try {
+    window.localStorage.setItem(storageKey, JSON.stringify(bindings));
+  } catch {
+    // Storage full or unavailable - keep the in-memory bindings
+  }
+}
+
+/**
+ * Clear Bindings
+ *
+ * Removes saved bindings so the defaults apply again on next load.
+ *
+ * @param storageKey - localStorage key to clear
+ */
+export function clearBindings(storageKey: string) {
+  try {
+    window.localStorage.removeItem(storageKey);
+  } catch {
+    // Nothing to clear
+  }
+}
@@ -0,0 +1,466 @@
+/**
+ * Levels
+ *
+ * A JSON level format for platforms, spawn points, tile layers and entity
+ * placements, with a validating parser and a runtime loader. Levels can be
+ * stored in public/ and fetched with loadLevel(), or imported as JSON
+ * modules and passed through parseLevel(). Maps made in Tiled can be
+ * converted with importTiledMap() from lib/tiled.ts.
+ *
+ * Coordinates are in pixels with (0, 0) at the center of the level and
+ * positive Y pointing down, matching lib/physics.ts. Platform and entity
+ * positions are centers.
+ */
+
+/**
+ * Current level format version
+ */
+export const LEVEL_VERSION = 1;
+
+/**
+ * Level Platform
+ *
+ * A solid rectangle, e.g. ground or a ledge.
+ *
+ * - color: CSS color used to draw it
+ */
+export interface LevelPlatform {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color?: string;
+}
+
+/**
+ * Spawn Point
+ *
+ * A named position where something appears, e.g. "player".
+ */
+export interface LevelSpawn {
+  id: string;
+  x: number;
+  y: number;
+}
+
+/**
+ * Level Entity
+ *
+ * A placed game object (enemy, coin, door...). The game decides what each
+ * type means.
+ *
+ * - width / height: Optional size, for area-based entities like triggers
+ * - properties: Type-specific settings
+ */
+export interface LevelEntity {
+  id: string;
+  type: string;
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+  properties?: Record<string, unknown>;
+}
+
+/**
+ * Tileset
+ *
+ * A grid of tiles cut from one image.
+ *
+ * - firstGid: Tile ID of the first tile; tiles are numbered row by row
+ * - image: URL of the tileset image
+ * - columns: Tiles per row in the image
+ * - tileCount: Number of tiles in the tileset
+ */
+export interface LevelTileset {
+  name: string;
+  firstGid: number;
+  image: string;
+  tileWidth: number;
+  tileHeight: number;
+  columns: number;
+  tileCount: number;
+}
+
+/**
+ * Tile Layer
+ *
+ * A grid of tile IDs covering the whole level, starting at its top-left
+ * corner. 0 means an empty cell.
+ *
+ * - data: Tile IDs row by row (columns × rows entries)
+ * - solid: Whether non-empty tiles collide (see getLevelColliders)
+ */
+export interface LevelTileLayer {
+  name: string;
+  tileWidth: number;
+  tileHeight: number;
+  columns: number;
+  rows: number;
+  data: number[];
+  solid?: boolean;
+}
+
+/**
+ * Level Interface
+ *
+ * - version: Format version (see LEVEL_VERSION)
+ * - name: Display name
+ * - width / height: Size of the level in pixels
+ * - background: Optional CSS background color
+ * - platforms / spawns / entities: Placed objects
+ * - tilesets / tiles: Optional tile graphics and layers
+ * - properties: Free-form level settings (music, time limit, ...)
+ */
+export interface Level {
+  version: number;
+  name: string;
+  width: number;
+  height: number;
+  background?: string;
+  platforms: LevelPlatform[];
+  spawns: LevelSpawn[];
+  entities: LevelEntity[];
+  tilesets: LevelTileset[];
+  tiles: LevelTileLayer[];
+  properties?: Record<string, unknown>;
+}
+
+/**
+ * Level Format Error
+ *
+ * Thrown when level data isn't a valid level.
+ */
+export class LevelFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LevelFormatError";
+  }
+}
+
+/**
+ * Validation Helpers
+ *
+ * Each one checks a single field and throws a LevelFormatError naming the
+ * field's path, e.g. "platforms[2].width".
+ */
+function record(value: unknown, path: string): Record<string, unknown> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new LevelFormatError(`${path} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function list(value: unknown, path: string, optional = false): unknown[] {
+  if (value === undefined && optional) return [];
+  if (!Array.isArray(value)) {
+    throw new LevelFormatError(`${path} must be an array`);
+  }
+  return value;
+}
+
+function finite(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new LevelFormatError(`${path} must be a number`);
+  }
+  return value;
+}
+
+function positive(value: unknown, path: string): number {
+  const number = finite(value, path);
+  if (number <= 0) {
+    throw new LevelFormatError(`${path} must be greater than 0`);
+  }
+  return number;
+}
+
+function count(value: unknown, path: string): number {
+  const number = finite(value, path);
+  if (!Number.isInteger(number) || number < 0) {
+    throw new LevelFormatError(`${path} must be a whole number`);
+  }
+  return number;
+}
+
+function text(value: unknown, path: string): string {
+  if (typeof value !== "string" || value === "") {
+    throw new LevelFormatError(`${path} must be a non-empty string`);
+  }
+  return value;
+}
+
+function optionalText(value: unknown, path: string): string | undefined {
+  return value === undefined ? undefined : text(value, path);
+}
+
+function optionalRecord(
+  value: unknown,
+  path: string
+): Record<string, unknown> | undefined {
+  return value === undefined ? undefined : record(value, path);
+}
+
+/**
+ * Unique IDs
+ *
+ * @throws LevelFormatError if two items in a list share an ID
+ */
+function assertUniqueIds(items: { id: string }[], path: string) {
+  const seen = new Set<string>();
+  items.forEach((item, index) => {
+    if (seen.has(item.id)) {
+      throw new LevelFormatError(
+        `${path}[${index}].id "${item.id}" is used more than once`
+      );
+    }
+    seen.add(item.id);
+  });
+}
+
+/**
+ * Parse Level
+ *
+ * Imports a level from JSON (or an already-parsed object, such as a JSON
+ * module import) and validates its structure.
+ *
+ * @param data - JSON string or parsed object
+ * @returns Validated level with every optional list present
+ * @throws LevelFormatError if the data isn't a supported level
+ */
+export function parseLevel(data: string | unknown): Level {
+  let value: unknown = data;
+  if (typeof data === "string") {
+    try {
+      value = JSON.parse(data);
+    } catch {
+      throw new LevelFormatError("Level is not valid JSON");
+    }
+  }
+
+  const level = record(value, "level");
+  if (level.version !== LEVEL_VERSION) {
+    throw new LevelFormatError(
+      `Unsupported level version: ${String(level.version)}`
+    );
+  }
+
+  const platforms = list(level.platforms, "platforms", true).map(
+    (item, index): LevelPlatform => {
+      const path = `platforms[${index}]`;
+      const platform = record(item, path);
+      return {
+        id: text(platform.id, `${path}.id`),
+        x: finite(platform.x, `${path}.x`),
+        y: finite(platform.y, `${path}.y`),
+        width: positive(platform.width, `${path}.width`),
+        height: positive(platform.height, `${path}.height`),
+        ...(platform.color !== undefined
+          ? { color: text(platform.color, `${path}.color`) }
+          : {}),
+      };
+    }
+  );
+  assertUniqueIds(platforms, "platforms");
+
+  const spawns = list(level.spawns, "spawns", true).map(
+    (item, index): LevelSpawn => {
+      const path = `spawns[${index}]`;
+      const spawn = record(item, path);
+      return {
+        id: text(spawn.id, `${path}.id`),
+        x: finite(spawn.x, `${path}.x`),
+        y: finite(spawn.y, `${path}.y`),
+      };
+    }
+  );
+  assertUniqueIds(spawns, "spawns");
+
+  const entities = list(level.entities, "entities", true).map(
+    (item, index): LevelEntity => {
+      const path = `entities[${index}]`;
+      const entity = record(item, path);
+      const properties = optionalRecord(
+        entity.properties,
+        `${path}.properties`
+      );
+      return {
+        id: text(entity.id, `${path}.id`),
+        type: text(entity.type, `${path}.type`),
+        x: finite(entity.x, `${path}.x`),
+        y: finite(entity.y, `${path}.y`),
+        ...(entity.width !== undefined
+          ? { width: positive(entity.width, `${path}.width`) }
+          : {}),
+        ...(entity.height !== undefined
+          ? { height: positive(entity.height, `${path}.height`) }
+          : {}),
+        ...(properties ? { properties } : {}),
+      };
+    }
+  );
+  assertUniqueIds(entities, "entities");
+
+  const tilesets = list(level.tilesets, "tilesets", true).map(
+    (item, index): LevelTileset => {
+      const path = `tilesets[${index}]`;
+      const tileset = record(item, path);
+      return {
+        name: text(tileset.name, `${path}.name`),
+        firstGid: positive(
+          count(tileset.firstGid, `${path}.firstGid`),
+          `${path}.firstGid`
+        ),
+        image: text(tileset.image, `${path}.image`),
+        tileWidth: positive(tileset.tileWidth, `${path}.tileWidth`),
+        tileHeight: positive(tileset.tileHeight, `${path}.tileHeight`),
+        columns: positive(
+          count(tileset.columns, `${path}.columns`),
+          `${path}.columns`
+        ),
+        tileCount: count(tileset.tileCount, `${path}.tileCount`),
+      };
+    }
+  );
+
+  const tiles = list(level.tiles, "tiles", true).map(
+    (item, index): LevelTileLayer => {
+      const path = `tiles[${index}]`;
+      const layer = record(item, path);
+      const columns = count(layer.columns, `${path}.columns`);
+      const rows = count(layer.rows, `${path}.rows`);
+      const data = list(layer.data, `${path}.data`).map((tile, cell) =>
+        count(tile, `${path}.data[${cell}]`)
+      );
+      if (data.length !== columns * rows) {
+        throw new LevelFormatError(
+          `${path}.data has ${data.length} tiles, expected ${columns * rows}`
+        );
+      }
+      const solid = layer.solid;
+      if (solid !== undefined && typeof solid !== "boolean") {
+        throw new LevelFormatError(`${path}.solid must be true or false`);
+      }
+      return {
+        name: text(layer.name, `${path}.name`),
+        tileWidth: positive(layer.tileWidth, `${path}.tileWidth`),
+        tileHeight: positive(layer.tileHeight, `${path}.tileHeight`),
+        columns,
+        rows,
+        data,
+        ...(solid !== undefined ? { solid } : {}),
+      };
+    }
+  );
+
+  const background = optionalText(level.background, "background");
+  const properties = optionalRecord(level.properties, "properties");
+
+  return {
+    version: LEVEL_VERSION,
+    name: text(level.name, "name"),
+    width: positive(level.width, "width"),
+    height: positive(level.height, "height"),
+    ...(background ? { background } : {}),
+    platforms,
+    spawns,
+    entities,
+    tilesets,
+    tiles,
+    ...(properties ? { properties } : {}),
+  };
+}
+
+/**
+ * Load Level
+ *
+ * Fetches and validates a level at runtime, e.g. from public/levels.
+ *
+ * @param url - Level URL, e.g. "/levels/platformer.json"
+ * @param init - Optional fetch options (e.g. an AbortSignal)
+ * @returns Validated level
+ * @throws Error if the request fails, LevelFormatError if the level is
+ *   invalid
+ */
+export async function loadLevel(
+  url: string,
+  init?: RequestInit
+): Promise<Level> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`Failed to load level ${url}: ${response.status}`);
+  }
+  return parseLevel(await response.text());
+}
+
+/**
+ * Serialize Level
+ *
+ * @param level - Level to export
+ * @returns Indented JSON suitable for saving to public/levels
+ */
+export function serializeLevel(level: Level): string {
+  return JSON.stringify(level, null, 2);
+}
+
+/**
+ * Get Spawn
+ *
+ * @param level - Level to search
+ * @param id - Spawn point ID, e.g. "player"
+ * @returns The spawn point, or the level's center if it has none
+ */
+export function getSpawn(level: Level, id: string): LevelSpawn {
+  return level.spawns.find((spawn) => spawn.id === id) ?? { id, x: 0, y: 0 };
+}
+
+/**
+ * Get Level Colliders
+ *
+ * Collects every solid rectangle in a level: its platforms plus the tiles
+ * of solid tile layers. Neighboring tiles in a row are merged into one
+ * rectangle to keep the number of physics bodies down.
+ *
+ * @param level - Level to read
+ * @returns Platforms and tile colliders, ready for physics.addBody()
+ */
+export function getLevelColliders(level: Level): LevelPlatform[] {
+  const colliders = [...level.platforms];
+
+  level.tiles
+    .filter((layer) => layer.solid)
+    .forEach((layer) => {
+      const left = -level.width / 2;
+      const top = -level.height / 2;
+
+      for (let row = 0; row < layer.rows; row++) {
+        let column = 0;
+        while (column < layer.columns) {
+          if (layer.data[row * layer.columns + column] === 0) {
+            column++;
+            continue;
+          }
+
+          // Extend the run across neighboring solid tiles
+          const start = column;
+          while (
+            column < layer.columns &&
+            layer.data[row * layer.columns + column] !== 0
+          ) {
+            column++;
+          }
+
+          const width = (column - start) * layer.tileWidth;
+          colliders.push({
+            id: `${layer.name}:${row}:${start}`,
+            x: left + start * layer.tileWidth + width / 2,
+            y: top + (row + 0.5) * layer.tileHeight,
+            width,
+            height: layer.tileHeight,
+          });
+        }
+      }
+    });
+
+  return colliders;
+}
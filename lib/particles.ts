@@ -0,0 +1,446 @@
+/**
+ * Particles
+ *
+ * A pooled particle system for effects such as dust, sparks and smoke:
+ * - Every particle comes from a pool allocated up front, so effects don't
+ *   create garbage while the game runs
+ * - Emitters are described by plain config objects (rate, bursts,
+ *   lifetime, velocity, gravity, and size/opacity/color over life)
+ * - Particles are drawn into a draw list (see lib/render.ts), so they work
+ *   with any render backend
+ *
+ * Positions are in world space, like physics bodies.
+ */
+
+import { DrawList } from "./render";
+
+/**
+ * Range Type
+ *
+ * A fixed number, or [min, max] to pick a random value per particle.
+ */
+export type Range = number | [min: number, max: number];
+
+/**
+ * Over Life
+ *
+ * A value that changes linearly from start to end over a particle's life.
+ */
+export interface OverLife {
+  start: number;
+  end: number;
+}
+
+/**
+ * Emitter Config
+ *
+ * - rate: Particles per second emitted continuously while the emitter is
+ *   running (defaults to 0, i.e. bursts only)
+ * - burst: Particles per burst() call (defaults to 10)
+ * - lifetime: Seconds each particle lives (defaults to 1)
+ * - speed: Initial speed in pixels per second (defaults to 0)
+ * - angle: Direction of travel in radians; 0 is right and -π/2 is up
+ *   (defaults to any direction)
+ * - spread: Half-size in pixels of the box particles spawn in around the
+ *   emitter (defaults to the emitter's exact position)
+ * - gravity: Downward acceleration in pixels/sec² (defaults to 0)
+ * - drag: Fraction of velocity lost per second, 0..1 (defaults to 0)
+ * - size: Diameter in pixels; a range picks one per particle, OverLife
+ *   grows or shrinks it (defaults to 8)
+ * - opacity: 0..1, or OverLife to fade (defaults to 1)
+ * - color: CSS color, or a list of hex colors blended evenly over the
+ *   particle's life (defaults to white)
+ * - shape: "circle" (default) or "square"
+ */
+export interface EmitterConfig {
+  rate?: number;
+  burst?: number;
+  lifetime?: Range;
+  speed?: Range;
+  angle?: Range;
+  spread?: { x: number; y: number };
+  gravity?: number;
+  drag?: number;
+  size?: Range | OverLife;
+  opacity?: number | OverLife;
+  color?: string | string[];
+  shape?: "circle" | "square";
+}
+
+/**
+ * Particle System Options
+ *
+ * - capacity: Size of the particle pool; once every particle is alive, new
+ *   ones are skipped until some expire (defaults to 1000)
+ * - random: Random source, e.g. a seeded one for deterministic replays
+ *   (defaults to Math.random)
+ */
+export interface ParticleSystemOptions {
+  capacity?: number;
+  random?: () => number;
+}
+
+/**
+ * Particle View
+ *
+ * What a live particle looks like this frame, as passed to forEach().
+ */
+export interface ParticleView {
+  x: number;
+  y: number;
+  size: number;
+  opacity: number;
+  color: string;
+  shape: "circle" | "square";
+}
+
+/**
+ * Pooled Particle
+ *
+ * - age / lifetime: Seconds alive and seconds to live
+ * - size: Start and end diameter
+ * - emitter: Config the particle was emitted with
+ */
+interface Particle {
+  x: number;
+  y: number;
+  velocityX: number;
+  velocityY: number;
+  age: number;
+  lifetime: number;
+  startSize: number;
+  endSize: number;
+  emitter: EmitterEntry;
+}
+
+/**
+ * Registered Emitter
+ *
+ * - colors: Parsed color stops, or null for a single (or non-hex) color
+ * - pending: Fraction of a particle owed by the continuous rate
+ */
+interface EmitterEntry {
+  config: EmitterConfig;
+  colors: [number, number, number][] | null;
+  x: number;
+  y: number;
+  running: boolean;
+  pending: number;
+}
+
+/**
+ * Defaults
+ */
+const DEFAULT_CAPACITY = 1000;
+const DEFAULT_BURST = 10;
+const DEFAULT_SIZE = 8;
+const DEFAULT_COLOR = "#ffffff";
+
+/**
+ * Parse Hex Color
+ *
+ * @returns [r, g, b] for #rgb or #rrggbb colors, otherwise null
+ */
+function parseHex(color: string): [number, number, number] | null {
+  const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim());
+  if (!match) return null;
+  const hex =
+    match[1].length === 3
+      ? match[1].replace(/./g, (digit) => digit + digit)
+      : match[1];
+  return [0, 2, 4].map((start) =>
+    parseInt(hex.slice(start, start + 2), 16)
+  ) as [number, number, number];
+}
+
+/**
+ * Parse Color Stops
+ *
+ * @returns Parsed stops if the config blends two or more hex colors
+ */
+function parseColorStops(color: EmitterConfig["color"]) {
+  if (!Array.isArray(color) || color.length < 2) return null;
+  const stops = color.map(parseHex);
+  return stops.every((stop) => stop !== null)
+    ? (stops as [number, number, number][])
+    : null;
+}
+
+/**
+ * Create Particle System
+ *
+ * @param options - See ParticleSystemOptions
+ * @returns Particle system with its emitters and pool
+ */
+export function createParticleSystem(options: ParticleSystemOptions = {}) {
+  const capacity = options.capacity ?? DEFAULT_CAPACITY;
+  const random = options.random ?? Math.random;
+
+  // Unused particles, plus the live ones in emission order
+  const free: Particle[] = [];
+  const live: Particle[] = [];
+  const emitters = new Set<EmitterEntry>();
+
+  const placeholder: EmitterEntry = {
+    config: {},
+    colors: null,
+    x: 0,
+    y: 0,
+    running: false,
+    pending: 0,
+  };
+  for (let i = 0; i < capacity; i++) {
+    free.push({
+      x: 0,
+      y: 0,
+      velocityX: 0,
+      velocityY: 0,
+      age: 0,
+      lifetime: 0,
+      startSize: 0,
+      endSize: 0,
+      emitter: placeholder,
+    });
+  }
+
+  // Reused by forEach() so iterating doesn't allocate
+  const view: ParticleView = {
+    x: 0,
+    y: 0,
+    size: 0,
+    opacity: 1,
+    color: DEFAULT_COLOR,
+    shape: "circle",
+  };
+
+  const pick = (range: Range | undefined, fallback: Range) => {
+    const value = range ?? fallback;
+    if (typeof value === "number") return value;
+    return value[0] + (value[1] - value[0]) * random();
+  };
+
+  /**
+   * Spawn
+   *
+   * Takes particles from the pool and starts them at the emitter.
+   */
+  const spawn = (entry: EmitterEntry, count: number, x: number, y: number) => {
+    const { config } = entry;
+    for (let i = 0; i < count; i++) {
+      const particle = free.pop();
+      if (!particle) return;
+
+      const speed = pick(config.speed, 0);
+      const angle = pick(config.angle, [0, Math.PI * 2]);
+      const spreadX = config.spread?.x ?? 0;
+      const spreadY = config.spread?.y ?? 0;
+      particle.x = x + (spreadX ? (random() * 2 - 1) * spreadX : 0);
+      particle.y = y + (spreadY ? (random() * 2 - 1) * spreadY : 0);
+      particle.velocityX = Math.cos(angle) * speed;
+      particle.velocityY = Math.sin(angle) * speed;
+      particle.age = 0;
+      particle.lifetime = Math.max(pick(config.lifetime, 1), 0.001);
+
+      const size = config.size;
+      if (typeof size === "object" && !Array.isArray(size)) {
+        particle.startSize = size.start;
+        particle.endSize = size.end;
+      } else {
+        particle.startSize = pick(size, DEFAULT_SIZE);
+        particle.endSize = particle.startSize;
+      }
+
+      particle.emitter = entry;
+      live.push(particle);
+    }
+  };
+
+  /**
+   * Add Emitter
+   *
+   * Creates an emitter at a world position. Emitters with a rate start
+   * running straight away.
+   *
+   * @param config - See EmitterConfig
+   * @param x / y - Emitter position
+   * @returns Emitter controls
+   */
+  const addEmitter = (config: EmitterConfig, x = 0, y = 0) => {
+    const entry: EmitterEntry = {
+      config,
+      colors: parseColorStops(config.color),
+      x,
+      y,
+      running: (config.rate ?? 0) > 0,
+      pending: 0,
+    };
+    emitters.add(entry);
+
+    return {
+      /**
+       * Burst
+       *
+       * Emits particles at once, at the emitter or at the given position.
+       *
+       * @param count - Number of particles (defaults to the config's burst)
+       * @param at - Position to burst at instead of the emitter's
+       */
+      burst: (
+        count = config.burst ?? DEFAULT_BURST,
+        at?: { x: number; y: number }
+      ) => spawn(entry, count, at?.x ?? entry.x, at?.y ?? entry.y),
+      moveTo: (nextX: number, nextY: number) => {
+        entry.x = nextX;
+        entry.y = nextY;
+      },
+      start: () => {
+        entry.running = true;
+      },
+      stop: () => {
+        entry.running = false;
+        entry.pending = 0;
+      },
+      /**
+       * Remove
+       *
+       * Stops the emitter for good; its live particles finish their life.
+       */
+      remove: () => {
+        emitters.delete(entry);
+      },
+      get running() {
+        return entry.running;
+      },
+    };
+  };
+
+  /**
+   * Update
+   *
+   * Runs continuous emitters, moves every particle and returns expired
+   * particles to the pool.
+   *
+   * @param deltaTime - Time since the last update in seconds
+   */
+  const update = (deltaTime: number) => {
+    emitters.forEach((entry) => {
+      const rate = entry.config.rate ?? 0;
+      if (!entry.running || rate <= 0) return;
+      entry.pending += rate * deltaTime;
+      const count = Math.floor(entry.pending);
+      entry.pending -= count;
+      spawn(entry, count, entry.x, entry.y);
+    });
+
+    let kept = 0;
+    for (let i = 0; i < live.length; i++) {
+      const particle = live[i];
+      particle.age += deltaTime;
+      if (particle.age >= particle.lifetime) {
+        free.push(particle);
+        continue;
+      }
+
+      const { gravity = 0, drag = 0 } = particle.emitter.config;
+      particle.velocityY += gravity * deltaTime;
+      if (drag > 0) {
+        const keep = Math.max(0, 1 - drag * deltaTime);
+        particle.velocityX *= keep;
+        particle.velocityY *= keep;
+      }
+      particle.x += particle.velocityX * deltaTime;
+      particle.y += particle.velocityY * deltaTime;
+      live[kept++] = particle;
+    }
+    live.length = kept;
+  };
+
+  /**
+   * Color At
+   *
+   * Blends the emitter's color stops at a point in a particle's life.
+   */
+  const colorAt = (entry: EmitterEntry, t: number) => {
+    const { colors } = entry;
+    const { color } = entry.config;
+    if (!colors) {
+      return (Array.isArray(color) ? color[0] : color) ?? DEFAULT_COLOR;
+    }
+    const position = t * (colors.length - 1);
+    const index = Math.min(Math.floor(position), colors.length - 2);
+    const blend = position - index;
+    const [r, g, b] = colors[index].map((channel, c) =>
+      Math.round(channel + (colors[index + 1][c] - channel) * blend)
+    );
+    return `rgb(${r}, ${g}, ${b})`;
+  };
+
+  /**
+   * For Each
+   *
+   * Visits every live particle as it looks this frame, oldest first. The
+   * view object is reused between calls; copy it to keep it.
+   *
+   * @param callback - Called with each particle's view
+   */
+  const forEach = (callback: (particle: ParticleView) => void) => {
+    live.forEach((particle) => {
+      const t = particle.age / particle.lifetime;
+      const { opacity = 1, shape = "circle" } = particle.emitter.config;
+      view.x = particle.x;
+      view.y = particle.y;
+      view.size =
+        particle.startSize + (particle.endSize - particle.startSize) * t;
+      view.opacity =
+        typeof opacity === "number"
+          ? opacity
+          : opacity.start + (opacity.end - opacity.start) * t;
+      view.color = colorAt(particle.emitter, t);
+      view.shape = shape;
+      callback(view);
+    });
+  };
+
+  /**
+   * Draw
+   *
+   * Appends every live particle to a draw list.
+   *
+   * @param list - Draw list, e.g. from useDrawLayer()
+   */
+  const draw = (list: DrawList) => {
+    forEach(({ x, y, size, opacity, color, shape }) => {
+      if (size <= 0 || opacity <= 0) return;
+      if (shape === "square") {
+        list.rect(x, y, size, size, { color, opacity });
+      } else {
+        list.circle(x, y, size / 2, { color, opacity });
+      }
+    });
+  };
+
+  /**
+   * Clear
+   *
+   * Returns every live particle to the pool (emitters are kept).
+   */
+  const clear = () => {
+    free.push(...live);
+    live.length = 0;
+  };
+
+  return {
+    addEmitter,
+    update,
+    forEach,
+    draw,
+    clear,
+    get count() {
+      return live.length;
+    },
+    capacity,
+  };
+}
+
+export type ParticleSystem = ReturnType<typeof createParticleSystem>;
+export type Emitter = ReturnType<ParticleSystem["addEmitter"]>;
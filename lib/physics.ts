@@ -0,0 +1,578 @@
+/**
+ * 2D Physics
+ *
+ * Axis-aligned bounding box (AABB) physics for platformers and top-down
+ * games:
+ * - Static bodies (platforms, walls) and dynamic bodies (players, enemies)
+ * - Gravity with a terminal velocity
+ * - Swept collision per axis, so fast bodies can't tunnel through thin
+ *   platforms, plus push-out for bodies that start a step overlapping
+ * - Contacts on all four sides, reported with the side and normal
+ * - A spatial-hash broadphase so only nearby static bodies are tested
+ *
+ * Dynamic bodies collide with static bodies only; they pass through each
+ * other. Positions are body centers in pixels, with positive Y pointing
+ * down, matching components/PlatformerDemo.tsx.
+ */
+
+/**
+ * Vector Interface
+ *
+ * A 2D vector in pixels (or pixels per second).
+ */
+export interface Vector {
+  x: number;
+  y: number;
+}
+
+/**
+ * Collision Side Type
+ *
+ * Side of a body that touched something: "bottom" means it landed on top of
+ * the other body, "top" means it hit a ceiling.
+ */
+export type CollisionSide = "top" | "bottom" | "left" | "right";
+
+/**
+ * Body Type
+ *
+ * - static: Never moves on its own; other bodies collide with it
+ * - dynamic: Moved by its velocity and gravity, stopped by static bodies
+ */
+export type BodyType = "static" | "dynamic";
+
+/**
+ * Body Definition
+ *
+ * What addBody() needs to create a body. Optional fields default to a
+ * dynamic body at rest with normal gravity.
+ */
+export interface BodyDefinition {
+  id: string;
+  type?: BodyType;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  velocityX?: number;
+  velocityY?: number;
+  gravityScale?: number;
+  data?: unknown;
+}
+
+/**
+ * Physics Body
+ *
+ * A body in the world. Game code may change velocityX/velocityY (and the
+ * position of dynamic bodies) directly; static bodies must be moved with
+ * moveBody() so the broadphase stays correct.
+ *
+ * - touching: Which sides touched a static body during the last step
+ * - data: Free-form game data, e.g. the platform's color
+ */
+export interface PhysicsBody {
+  id: string;
+  type: BodyType;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  velocityX: number;
+  velocityY: number;
+  gravityScale: number;
+  touching: Record<CollisionSide, boolean>;
+  data?: unknown;
+}
+
+/**
+ * Contact Interface
+ *
+ * - body: ID of the dynamic body that collided
+ * - other: ID of the static body it collided with
+ * - side: Side of `body` that made contact
+ * - normal: Unit vector pointing from `other` towards `body`
+ * - position: Center of `body` after the collision was resolved
+ * - impactSpeed: Speed along the normal just before impact (pixels/sec)
+ */
+export interface Contact {
+  body: string;
+  other: string;
+  side: CollisionSide;
+  normal: Vector;
+  position: Vector;
+  impactSpeed: number;
+}
+
+/**
+ * Physics Options
+ *
+ * - gravity: Downward acceleration in pixels/sec² (default 1500)
+ * - terminalVelocity: Maximum falling speed in pixels/sec (default 1000)
+ * - maxStep: Longest substep in seconds; longer steps are split so gravity
+ *   stays accurate on slow frames (default 1/30)
+ * - cellSize: Broadphase grid cell size in pixels (default 128)
+ */
+export interface PhysicsOptions {
+  gravity?: number;
+  terminalVelocity?: number;
+  maxStep?: number;
+  cellSize?: number;
+}
+
+/**
+ * Default physics settings, tuned for the platformer demo
+ */
+export const DEFAULT_GRAVITY = 1500;
+export const DEFAULT_TERMINAL_VELOCITY = 1000;
+const DEFAULT_MAX_STEP = 1 / 30;
+const DEFAULT_CELL_SIZE = 128;
+
+/**
+ * Tolerance for touching edges, so bodies resting exactly on a platform
+ * don't count as overlapping it
+ */
+const EPSILON = 1e-6;
+
+/**
+ * Outward normal of each side
+ */
+const SIDE_NORMALS: Record<CollisionSide, Vector> = {
+  top: { x: 0, y: 1 },
+  bottom: { x: 0, y: -1 },
+  left: { x: 1, y: 0 },
+  right: { x: -1, y: 0 },
+};
+
+/**
+ * Bounds Interface
+ *
+ * Edges of a box, used internally for overlap tests.
+ */
+interface Bounds {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+/**
+ * Get Bounds
+ *
+ * @param body - Center-based box
+ * @returns The box's edges
+ */
+export function getBounds(body: {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}): Bounds {
+  return {
+    left: body.x - body.width / 2,
+    right: body.x + body.width / 2,
+    top: body.y - body.height / 2,
+    bottom: body.y + body.height / 2,
+  };
+}
+
+/**
+ * Overlaps
+ *
+ * Whether two boxes overlap by more than touching edges.
+ */
+export function overlaps(a: Bounds, b: Bounds) {
+  return (
+    a.right - EPSILON > b.left &&
+    a.left + EPSILON < b.right &&
+    a.bottom - EPSILON > b.top &&
+    a.top + EPSILON < b.bottom
+  );
+}
+
+/**
+ * Create Physics World
+ *
+ * @param options - See PhysicsOptions
+ * @returns Physics world with body management and a step function
+ */
+export function createPhysicsWorld(options: PhysicsOptions = {}) {
+  const gravity = options.gravity ?? DEFAULT_GRAVITY;
+  const terminalVelocity =
+    options.terminalVelocity ?? DEFAULT_TERMINAL_VELOCITY;
+  const maxStep = options.maxStep ?? DEFAULT_MAX_STEP;
+  const cellSize = options.cellSize ?? DEFAULT_CELL_SIZE;
+
+  // Every body by ID
+  const bodies = new Map<string, PhysicsBody>();
+
+  // Broadphase: static bodies by grid cell ("column,row")
+  const grid = new Map<string, Set<PhysicsBody>>();
+
+  // Contacts from the previous step, to report only new ones
+  let previousContacts = new Set<string>();
+
+  /**
+   * Cells
+   *
+   * Calls back with the key of every grid cell a box covers.
+   */
+  const forEachCell = (bounds: Bounds, callback: (key: string) => void) => {
+    const minColumn = Math.floor(bounds.left / cellSize);
+    const maxColumn = Math.floor(bounds.right / cellSize);
+    const minRow = Math.floor(bounds.top / cellSize);
+    const maxRow = Math.floor(bounds.bottom / cellSize);
+
+    for (let column = minColumn; column <= maxColumn; column++) {
+      for (let row = minRow; row <= maxRow; row++) {
+        callback(`${column},${row}`);
+      }
+    }
+  };
+
+  const indexBody = (body: PhysicsBody) => {
+    forEachCell(getBounds(body), (key) => {
+      let cell = grid.get(key);
+      if (!cell) {
+        cell = new Set();
+        grid.set(key, cell);
+      }
+      cell.add(body);
+    });
+  };
+
+  const unindexBody = (body: PhysicsBody) => {
+    forEachCell(getBounds(body), (key) => {
+      const cell = grid.get(key);
+      if (!cell) return;
+      cell.delete(body);
+      if (cell.size === 0) grid.delete(key);
+    });
+  };
+
+  /**
+   * Static Bodies Near
+   *
+   * Broadphase lookup of the static bodies whose cells touch a region.
+   */
+  const staticBodiesNear = (bounds: Bounds) => {
+    const found = new Set<PhysicsBody>();
+    forEachCell(bounds, (key) => {
+      grid.get(key)?.forEach((body) => found.add(body));
+    });
+    return found;
+  };
+
+  /**
+   * Add Body
+   *
+   * @param definition - Body to create
+   * @returns The created body
+   * @throws Error if a body with the same ID already exists
+   */
+  const addBody = (definition: BodyDefinition) => {
+    if (bodies.has(definition.id)) {
+      throw new Error(`Physics body "${definition.id}" already exists`);
+    }
+
+    const body: PhysicsBody = {
+      type: "dynamic",
+      velocityX: 0,
+      velocityY: 0,
+      gravityScale: 1,
+      ...definition,
+      touching: { top: false, bottom: false, left: false, right: false },
+    };
+
+    bodies.set(body.id, body);
+    if (body.type === "static") indexBody(body);
+    return body;
+  };
+
+  const removeBody = (id: string) => {
+    const body = bodies.get(id);
+    if (!body) return;
+    if (body.type === "static") unindexBody(body);
+    bodies.delete(id);
+  };
+
+  /**
+   * Move Body
+   *
+   * Teleports a body, keeping the broadphase up to date. Use this for
+   * moving platforms and respawns.
+   */
+  const moveBody = (id: string, x: number, y: number) => {
+    const body = bodies.get(id);
+    if (!body) return;
+    if (body.type === "static") unindexBody(body);
+    body.x = x;
+    body.y = y;
+    if (body.type === "static") indexBody(body);
+  };
+
+  /**
+   * Query Rect
+   *
+   * Finds every body overlapping a region, e.g. for explosions or
+   * mouse picking.
+   *
+   * @param region - Center-based box to test
+   * @returns Overlapping bodies
+   */
+  const queryRect = (region: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  }) => {
+    const bounds = getBounds(region);
+    const found: PhysicsBody[] = [];
+
+    staticBodiesNear(bounds).forEach((body) => {
+      if (overlaps(bounds, getBounds(body))) found.push(body);
+    });
+    bodies.forEach((body) => {
+      if (body.type === "dynamic" && overlaps(bounds, getBounds(body))) {
+        found.push(body);
+      }
+    });
+
+    return found;
+  };
+
+  /**
+   * Sweep Axis
+   *
+   * Moves a body along one axis as far as it can go before hitting a
+   * static body. Because the whole path is tested, the body can't skip
+   * over anything thinner than the distance it travels.
+   *
+   * @returns The static body that stopped the movement, if any
+   */
+  const sweepAxis = (
+    body: PhysicsBody,
+    axis: "x" | "y",
+    distance: number
+  ): PhysicsBody | null => {
+    if (distance === 0) return null;
+
+    const start = getBounds(body);
+    const swept: Bounds =
+      axis === "x"
+        ? {
+            ...start,
+            left: start.left + Math.min(distance, 0),
+            right: start.right + Math.max(distance, 0),
+          }
+        : {
+            ...start,
+            top: start.top + Math.min(distance, 0),
+            bottom: start.bottom + Math.max(distance, 0),
+          };
+
+    let allowed = distance;
+    let hit: PhysicsBody | null = null;
+
+    staticBodiesNear(swept).forEach((other) => {
+      const bounds = getBounds(other);
+
+      // Only bodies that overlap on the other axis can be hit
+      const alongside =
+        axis === "x"
+          ? start.bottom - EPSILON > bounds.top &&
+            start.top + EPSILON < bounds.bottom
+          : start.right - EPSILON > bounds.left &&
+            start.left + EPSILON < bounds.right;
+      if (!alongside) return;
+
+      // Gap between the leading edge and the obstacle (negative = behind)
+      let gap: number;
+      if (axis === "x") {
+        gap =
+          distance > 0 ? bounds.left - start.right : bounds.right - start.left;
+      } else {
+        gap =
+          distance > 0 ? bounds.top - start.bottom : bounds.bottom - start.top;
+      }
+
+      // Ignore obstacles behind the body or already overlapping it (those
+      // are handled by the push-out pass)
+      if (distance > 0 ? gap < -EPSILON : gap > EPSILON) return;
+
+      if (Math.abs(gap) < Math.abs(allowed)) {
+        allowed = distance > 0 ? Math.max(gap, 0) : Math.min(gap, 0);
+        hit = other;
+      }
+    });
+
+    body[axis] += allowed;
+    return hit;
+  };
+
+  /**
+   * Resolve Overlaps
+   *
+   * Pushes a body out of any static body it overlaps (e.g. one that
+   * spawned inside a wall, or a platform moved onto it) along the axis of
+   * least penetration.
+   */
+  const resolveOverlaps = (
+    body: PhysicsBody,
+    addContact: (
+      body: PhysicsBody,
+      other: PhysicsBody,
+      side: CollisionSide,
+      impactSpeed: number
+    ) => void
+  ) => {
+    staticBodiesNear(getBounds(body)).forEach((other) => {
+      const a = getBounds(body);
+      const b = getBounds(other);
+      if (!overlaps(a, b)) return;
+
+      const pushLeft = a.right - b.left;
+      const pushRight = b.right - a.left;
+      const pushUp = a.bottom - b.top;
+      const pushDown = b.bottom - a.top;
+      const smallest = Math.min(pushLeft, pushRight, pushUp, pushDown);
+
+      if (smallest === pushUp) {
+        body.y -= pushUp;
+        addContact(body, other, "bottom", Math.max(body.velocityY, 0));
+        body.velocityY = Math.min(body.velocityY, 0);
+      } else if (smallest === pushDown) {
+        body.y += pushDown;
+        addContact(body, other, "top", Math.max(-body.velocityY, 0));
+        body.velocityY = Math.max(body.velocityY, 0);
+      } else if (smallest === pushLeft) {
+        body.x -= pushLeft;
+        addContact(body, other, "right", Math.max(body.velocityX, 0));
+        body.velocityX = Math.min(body.velocityX, 0);
+      } else {
+        body.x += pushRight;
+        addContact(body, other, "left", Math.max(-body.velocityX, 0));
+        body.velocityX = Math.max(body.velocityX, 0);
+      }
+    });
+  };
+
+  /**
+   * Step
+   *
+   * Advances every dynamic body: applies gravity, moves it along X then Y
+   * with swept collision, and pushes it out of anything it still overlaps.
+   * Long steps are split into substeps of at most maxStep.
+   *
+   * @param deltaTime - Time to simulate in seconds
+   * @returns Contacts that began during this step (ongoing contacts are
+   *   only reflected in each body's `touching` flags)
+   */
+  const step = (deltaTime: number): Contact[] => {
+    const current = new Map<string, Contact>();
+
+    const addContact = (
+      body: PhysicsBody,
+      other: PhysicsBody,
+      side: CollisionSide,
+      impactSpeed: number
+    ) => {
+      body.touching[side] = true;
+
+      const key = `${body.id}|${other.id}|${side}`;
+      const existing = current.get(key);
+      if (existing) {
+        existing.position = { x: body.x, y: body.y };
+        existing.impactSpeed = Math.max(existing.impactSpeed, impactSpeed);
+        return;
+      }
+      current.set(key, {
+        body: body.id,
+        other: other.id,
+        side,
+        normal: SIDE_NORMALS[side],
+        position: { x: body.x, y: body.y },
+        impactSpeed,
+      });
+    };
+
+    const dynamicBodies = Array.from(bodies.values()).filter(
+      (body) => body.type === "dynamic"
+    );
+    dynamicBodies.forEach((body) => {
+      body.touching = { top: false, bottom: false, left: false, right: false };
+    });
+
+    const substeps = Math.max(1, Math.ceil(deltaTime / maxStep));
+    const dt = deltaTime / substeps;
+
+    for (let substep = 0; substep < substeps; substep++) {
+      for (const body of dynamicBodies) {
+        // Gravity, capped at terminal velocity
+        body.velocityY = Math.min(
+          body.velocityY + gravity * body.gravityScale * dt,
+          terminalVelocity
+        );
+
+        // Horizontal movement
+        const hitX = sweepAxis(body, "x", body.velocityX * dt);
+        if (hitX) {
+          addContact(
+            body,
+            hitX,
+            body.velocityX > 0 ? "right" : "left",
+            Math.abs(body.velocityX)
+          );
+          body.velocityX = 0;
+        }
+
+        // Vertical movement
+        const hitY = sweepAxis(body, "y", body.velocityY * dt);
+        if (hitY) {
+          addContact(
+            body,
+            hitY,
+            body.velocityY > 0 ? "bottom" : "top",
+            Math.abs(body.velocityY)
+          );
+          body.velocityY = 0;
+        }
+
+        resolveOverlaps(body, addContact);
+      }
+    }
+
+    const began = Array.from(current.entries())
+      .filter(([key]) => !previousContacts.has(key))
+      .map(([, contact]) => contact);
+    previousContacts = new Set(current.keys());
+
+    return began;
+  };
+
+  /**
+   * Clear
+   *
+   * Removes every body.
+   */
+  const clear = () => {
+    bodies.clear();
+    grid.clear();
+    previousContacts = new Set();
+  };
+
+  return {
+    addBody,
+    removeBody,
+    moveBody,
+    getBody: (id: string) => bodies.get(id),
+    getBodies: () => Array.from(bodies.values()),
+    queryRect,
+    step,
+    clear,
+  };
+}
+
+/**
+ * Physics World Type
+ */
+export type PhysicsWorld = ReturnType<typeof createPhysicsWorld>;
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { createRateLimiter } from "./rateLimit";
+
+describe("createRateLimiter", () => {
+  const setup = (limit: number, window: number) => {
+    let time = 0;
+    const limiter = createRateLimiter({ limit, window, now: () => time });
+    const advance = (ms: number) => {
+      time += ms;
+    };
+    return { limiter, advance };
+  };
+
+  it("allows requests up to the limit within a window", () => {
+    const { limiter } = setup(3, 60);
+
+    expect(limiter.check("a")).toEqual({
+      allowed: true,
+      remaining: 2,
+      retryAfter: 60,
+    });
+    limiter.check("a");
+    expect(limiter.check("a").allowed).toBe(true);
+    expect(limiter.check("a")).toEqual({
+      allowed: false,
+      remaining: 0,
+      retryAfter: 60,
+    });
+  });
+
+  it("counts each client separately", () => {
+    const { limiter } = setup(1, 60);
+
+    expect(limiter.check("a").allowed).toBe(true);
+    expect(limiter.check("a").allowed).toBe(false);
+    expect(limiter.check("b").allowed).toBe(true);
+  });
+
+  it("resets the count when the window ends", () => {
+    const { limiter, advance } = setup(1, 60);
+    limiter.check("a");
+
+    advance(59_500);
+    expect(limiter.check("a")).toEqual({
+      allowed: false,
+      remaining: 0,
+      retryAfter: 1,
+    });
+
+    advance(500);
+    expect(limiter.check("a")).toEqual({
+      allowed: true,
+      remaining: 0,
+      retryAfter: 60,
+    });
+  });
+
+  it("forgets expired clients once many are tracked", () => {
+    const { limiter, advance } = setup(1, 60);
+    for (let i = 0; i <= 1000; i++) limiter.check(`client-${i}`);
+    expect(limiter.size()).toBe(1001);
+
+    // Still in their window: nothing to forget
+    limiter.check("late");
+    expect(limiter.size()).toBe(1002);
+
+    advance(60_000);
+    limiter.check("new");
+    expect(limiter.size()).toBe(1);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Rate Limiting
+ *
+ * Counts requests per client (e.g. per IP address) in fixed time windows,
+ * so a single client can't flood an API route. Counts are kept in memory,
+ * which is enough for a single server process.
+ */
+
+// Number of tracked clients above which expired windows are swept
+const PRUNE_THRESHOLD = 1000;
+
+/**
+ * Rate Limiter Options
+ *
+ * - limit: Requests allowed per window
+ * - window: Length of a window in seconds
+ * - now: Clock in milliseconds (defaults to Date.now)
+ */
+export interface RateLimiterOptions {
+  limit: number;
+  window: number;
+  now?: () => number;
+}
+
+/**
+ * Rate Limit Result
+ *
+ * - allowed: Whether the request may go ahead
+ * - remaining: Requests left in the current window
+ * - retryAfter: Seconds until the window resets
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfter: number;
+}
+
+/**
+ * Create Rate Limiter
+ *
+ * @param options - See RateLimiterOptions
+ * @returns Rate limiter with its check and size functions
+ */
+export function createRateLimiter({
+  limit,
+  window,
+  now = Date.now,
+}: RateLimiterOptions) {
+  const windowMs = window * 1000;
+  const counts = new Map<string, { count: number; resetAt: number }>();
+
+  /**
+   * Prune
+   *
+   * Forgets clients whose window has ended, so the map doesn't grow with
+   * every client ever seen.
+   */
+  const prune = (time: number) => {
+    counts.forEach((entry, key) => {
+      if (entry.resetAt <= time) counts.delete(key);
+    });
+  };
+
+  /**
+   * Check
+   *
+   * Counts a request from a client.
+   *
+   * @param key - Client identifier, e.g. an IP address
+   * @returns Whether the request is allowed (see RateLimitResult)
+   */
+  const check = (key: string): RateLimitResult => {
+    const time = now();
+    let entry = counts.get(key);
+    if (!entry || entry.resetAt <= time) {
+      if (counts.size > PRUNE_THRESHOLD) prune(time);
+      entry = { count: 0, resetAt: time + windowMs };
+      counts.set(key, entry);
+    }
+
+    entry.count++;
+    return {
+      allowed: entry.count <= limit,
+      remaining: Math.max(0, limit - entry.count),
+      retryAfter: Math.ceil((entry.resetAt - time) / 1000),
+    };
+  };
+
+  /**
+   * Size
+   *
+   * @returns Number of clients currently tracked
+   */
+  const size = () => counts.size;
+
+  return { check, size };
+}
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
@@ -0,0 +1,205 @@
+/**
+ * Input Recording
+ *
+ * Serializable recordings of a play session. GameWrapper's recorder stores
+ * the deltaTime of every simulated frame together with the keyChange events
+ * delivered in that frame; replaying feeds the same changes back at the same
+ * frames with the same timing, so bus-driven game logic plays out
+ * identically. Useful for reproducing bugs and for "ghost" runs.
+ */
+
+/**
+ * Current recording format version
+ */
+export const RECORDING_VERSION = 1;
+
+/**
+ * Recorded Input Change
+ *
+ * - action: Action whose pressed state changed
+ * - pressed: New pressed state
+ */
+export interface RecordedInput {
+  action: string;
+  pressed: boolean;
+}
+
+/**
+ * Recorded Frame
+ *
+ * - dt: Scaled deltaTime (seconds) the frame was simulated with
+ * - inputs: Action changes delivered at the start of the frame, if any
+ */
+export interface RecordedFrame {
+  dt: number;
+  inputs?: RecordedInput[];
+}
+
+/**
+ * Input Recording
+ *
+ * - version: Format version (see RECORDING_VERSION)
+ * - createdAt: ISO date the recording started
+ * - duration: Total simulated time in seconds
+ * - frames: Every simulated frame, in order
+ * - meta: Free-form data games can attach (level, seed, score, ...)
+ */
+export interface InputRecording {
+  version: number;
+  createdAt: string;
+  duration: number;
+  frames: RecordedFrame[];
+  meta?: Record<string, unknown>;
+}
+
+/**
+ * Recording Format Error
+ *
+ * Thrown by parseRecording when the data isn't a valid recording.
+ */
+export class RecordingFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RecordingFormatError";
+  }
+}
+
+/**
+ * Create Recording
+ *
+ * @param meta - Optional data to attach to the recording
+ * @returns Empty recording ready to receive frames
+ */
+export function createRecording(
+  meta?: Record<string, unknown>
+): InputRecording {
+  return {
+    version: RECORDING_VERSION,
+    createdAt: new Date().toISOString(),
+    duration: 0,
+    frames: [],
+    ...(meta ? { meta } : {}),
+  };
+}
+
+/**
+ * Serialize Recording
+ *
+ * @param recording - Recording to export
+ * @returns JSON string suitable for saving to a file or sending to a server
+ */
+export function serializeRecording(recording: InputRecording): string {
+  return JSON.stringify(recording);
+}
+
+/**
+ * Is Recorded Frame
+ *
+ * Structural check for a single frame.
+ */
+function isRecordedFrame(value: unknown): value is RecordedFrame {
+  if (!value || typeof value !== "object") return false;
+
+  const frame = value as Record<string, unknown>;
+  if (typeof frame.dt !== "number" || !Number.isFinite(frame.dt)) return false;
+  if (frame.dt < 0) return false;
+  if (frame.inputs === undefined) return true;
+
+  return (
+    Array.isArray(frame.inputs) &&
+    frame.inputs.every(
+      (input) =>
+        input &&
+        typeof input === "object" &&
+        typeof input.action === "string" &&
+        typeof input.pressed === "boolean"
+    )
+  );
+}
+
+/**
+ * Parse Recording
+ *
+ * Imports a recording from JSON (or an already-parsed object) and validates
+ * its structure.
+ *
+ * @param data - JSON string or parsed object
+ * @returns Validated recording
+ * @throws RecordingFormatError if the data isn't a supported recording
+ */
+export function parseRecording(data: string | unknown): InputRecording {
+  let value: unknown = data;
+  if (typeof data === "string") {
+    try {
+      value = JSON.parse(data);
+    } catch {
+      throw new RecordingFormatError("Recording is not valid JSON");
+    }
+  }
+
+  if (!value || typeof value !== "object") {
+    throw new RecordingFormatError("Recording must be an object");
+  }
+
+  const recording = value as Record<string, unknown>;
+  if (recording.version !== RECORDING_VERSION) {
+    throw new RecordingFormatError(
+      `Unsupported recording version: ${String(recording.version)}`
+    );
+  }
+  if (!Array.isArray(recording.frames)) {
+    throw new RecordingFormatError("Recording has no frames array");
+  }
+
+  const badFrame = recording.frames.findIndex(
+    (frame) => !isRecordedFrame(frame)
+  );
+  if (badFrame !== -1) {
+    throw new RecordingFormatError(`Invalid frame at index ${badFrame}`);
+  }
+
+  const frames = recording.frames as RecordedFrame[];
+  return {
+    version: RECORDING_VERSION,
+    createdAt:
+      typeof recording.createdAt === "string" ? recording.createdAt : "",
+    duration: frames.reduce((total, frame) => total + frame.dt, 0),
+    frames,
+    ...(recording.meta && typeof recording.meta === "object"
+      ? { meta: recording.meta as Record<string, unknown> }
+      : {}),
+  };
+}
+
+/**
+ * Simulate Recording
+ *
+ * Steps through a recording without a GameWrapper, e.g. in a test that
+ * re-runs the game's logic on a recorded bug report. Before each
+ * frame the recorded input changes are applied, then the callback runs
+ * with that frame's deltaTime and the actions held during it:
+ *
+ * ```ts
+ * let x = 0;
+ * simulateRecording(recording, (dt, held) => {
+ *   if (held.right) x += SPEED * dt;
+ * });
+ * ```
+ *
+ * @param recording - Recording to run
+ * @param onFrame - Called once per recorded frame with the frame's
+ *   deltaTime, the pressed state of every action seen so far and the
+ *   frame's index
+ */
+export function simulateRecording(
+  recording: InputRecording,
+  onFrame: (dt: number, held: Record<string, boolean>, index: number) => void
+) {
+  const held: Record<string, boolean> = {};
+  recording.frames.forEach((frame, index) => {
+    frame.inputs?.forEach(({ action, pressed }) => {
+      held[action] = pressed;
+    });
+    onFrame(frame.dt, held, index);
+  });
+}
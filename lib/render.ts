@@ -0,0 +1,373 @@
+/**
+ * Draw Lists
+ *
+ * Backend-agnostic drawing for scenes with many objects. Games describe a
+ * frame as a list of shapes (rects, circles, text/emoji and images) and a
+ * render backend turns the list into pixels:
+ * - canvas: Painted onto a 2D canvas with paintDrawList()
+ * - dom: Rendered as absolutely positioned elements with drawCommandStyle()
+ *
+ * Shapes are positioned by their center, like physics bodies, so a body's
+ * x/y/width/height can be drawn as-is.
+ */
+
+/**
+ * Draw Style
+ *
+ * - color: Fill color (any CSS color); shapes without one aren't filled
+ * - stroke / lineWidth: Outline color and width in pixels
+ * - opacity: 0..1 (defaults to 1)
+ * - rotation: Clockwise rotation around the center, in radians
+ * - scaleX / scaleY: Scale around the center; -1 mirrors the shape
+ */
+export interface DrawStyle {
+  color?: string;
+  stroke?: string;
+  lineWidth?: number;
+  opacity?: number;
+  rotation?: number;
+  scaleX?: number;
+  scaleY?: number;
+}
+
+/**
+ * Draw Command Type
+ *
+ * One shape in a draw list:
+ * - rect: width × height box with optional rounded corners (cornerRadius)
+ * - circle: Circle of the given radius
+ * - text: Single line of text (or an emoji) at the given font size in
+ *   pixels, centered on x/y
+ * - image: Image from a URL, stretched to width × height; with a region,
+ *   only that part of the image is drawn (e.g. one sprite sheet frame)
+ */
+export type DrawCommand =
+  | ({
+      kind: "rect";
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      cornerRadius?: number;
+    } & DrawStyle)
+  | ({ kind: "circle"; x: number; y: number; radius: number } & DrawStyle)
+  | ({
+      kind: "text";
+      x: number;
+      y: number;
+      text: string;
+      size: number;
+      font?: string;
+    } & DrawStyle)
+  | ({
+      kind: "image";
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      src: string;
+      region?: ImageRegion;
+    } & DrawStyle);
+
+/**
+ * Image Region
+ *
+ * Part of an image to draw, in the image's pixels:
+ * - x / y / width / height: The region's top-left corner and size
+ * - imageWidth / imageHeight: Size of the whole image, which the DOM
+ *   backend needs to scale it
+ */
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  imageWidth: number;
+  imageHeight: number;
+}
+
+/**
+ * Draw Layer Space
+ *
+ * - world: Drawn through the camera (moves, zooms and shakes with it)
+ * - screen: Drawn in game area pixels from the top-left, e.g. for a HUD
+ */
+export type DrawSpace = "world" | "screen";
+
+/**
+ * Default font family for text commands
+ */
+export const DEFAULT_FONT = "sans-serif";
+
+/**
+ * Create Draw List
+ *
+ * @returns Empty draw list with functions to append shapes
+ */
+export function createDrawList() {
+  const commands: DrawCommand[] = [];
+
+  return {
+    /**
+     * Rect
+     *
+     * @param x / y - Center of the rect
+     * @param width / height - Size in pixels
+     * @param style - Fill, outline, corner radius and transform
+     */
+    rect: (
+      x: number,
+      y: number,
+      width: number,
+      height: number,
+      style: DrawStyle & { cornerRadius?: number } = {}
+    ) => {
+      commands.push({ kind: "rect", x, y, width, height, ...style });
+    },
+
+    /**
+     * Circle
+     *
+     * @param x / y - Center of the circle
+     * @param radius - Radius in pixels
+     * @param style - Fill, outline and transform
+     */
+    circle: (x: number, y: number, radius: number, style: DrawStyle = {}) => {
+      commands.push({ kind: "circle", x, y, radius, ...style });
+    },
+
+    /**
+     * Text
+     *
+     * @param x / y - Center of the text
+     * @param text - Text or emoji to draw
+     * @param size - Font size in pixels
+     * @param style - Color, font family and transform
+     */
+    text: (
+      x: number,
+      y: number,
+      text: string,
+      size: number,
+      style: DrawStyle & { font?: string } = {}
+    ) => {
+      commands.push({ kind: "text", x, y, text, size, ...style });
+    },
+
+    /**
+     * Image
+     *
+     * @param src - Image URL
+     * @param x / y - Center of the image
+     * @param width / height - Drawn size in pixels
+     * @param style - Opacity, transform and the region of the image to draw
+     */
+    image: (
+      src: string,
+      x: number,
+      y: number,
+      width: number,
+      height: number,
+      style: DrawStyle & { region?: ImageRegion } = {}
+    ) => {
+      commands.push({ kind: "image", x, y, width, height, src, ...style });
+    },
+
+    /**
+     * Clear
+     *
+     * Removes every command so the list can be reused for the next frame.
+     */
+    clear: () => {
+      commands.length = 0;
+    },
+
+    commands: commands as ReadonlyArray<DrawCommand>,
+  };
+}
+
+export type DrawList = ReturnType<typeof createDrawList>;
+
+/**
+ * Paint Draw List
+ *
+ * Paints commands onto a 2D canvas using the context's current transform.
+ * Images that haven't finished loading are skipped.
+ *
+ * @param ctx - Canvas context to paint on
+ * @param commands - Shapes to paint, in order
+ * @param getImage - Returns a loaded image for a URL, or null
+ */
+export function paintDrawList(
+  ctx: CanvasRenderingContext2D,
+  commands: ReadonlyArray<DrawCommand>,
+  getImage: (src: string) => CanvasImageSource | null
+) {
+  commands.forEach((command) => {
+    const {
+      x,
+      y,
+      color,
+      stroke,
+      lineWidth = 1,
+      opacity = 1,
+      rotation = 0,
+      scaleX = 1,
+      scaleY = 1,
+    } = command;
+    if (opacity <= 0) return;
+
+    ctx.save();
+    ctx.globalAlpha *= opacity;
+    ctx.translate(x, y);
+    if (rotation) ctx.rotate(rotation);
+    if (scaleX !== 1 || scaleY !== 1) ctx.scale(scaleX, scaleY);
+    if (color) ctx.fillStyle = color;
+    if (stroke) {
+      ctx.strokeStyle = stroke;
+      ctx.lineWidth = lineWidth;
+    }
+
+    switch (command.kind) {
+      case "rect": {
+        const { width, height, cornerRadius = 0 } = command;
+        ctx.beginPath();
+        if (cornerRadius > 0) {
+          ctx.roundRect(-width / 2, -height / 2, width, height, cornerRadius);
+        } else {
+          ctx.rect(-width / 2, -height / 2, width, height);
+        }
+        if (color) ctx.fill();
+        if (stroke) ctx.stroke();
+        break;
+      }
+      case "circle":
+        ctx.beginPath();
+        ctx.arc(0, 0, command.radius, 0, Math.PI * 2);
+        if (color) ctx.fill();
+        if (stroke) ctx.stroke();
+        break;
+      case "text":
+        ctx.font = `${command.size}px ${command.font ?? DEFAULT_FONT}`;
+        ctx.textAlign = "center";
+        ctx.textBaseline = "middle";
+        if (!color) ctx.fillStyle = "#fff";
+        ctx.fillText(command.text, 0, 0);
+        if (stroke) ctx.strokeText(command.text, 0, 0);
+        break;
+      case "image": {
+        const image = getImage(command.src);
+        const { width, height, region } = command;
+        if (image && region) {
+          ctx.drawImage(
+            image,
+            region.x,
+            region.y,
+            region.width,
+            region.height,
+            -width / 2,
+            -height / 2,
+            width,
+            height
+          );
+        } else if (image) {
+          ctx.drawImage(image, -width / 2, -height / 2, width, height);
+        }
+        break;
+      }
+    }
+
+    ctx.restore();
+  });
+}
+
+/**
+ * Draw Command Style
+ *
+ * CSS for drawing a command as an absolutely positioned element, used by
+ * the DOM backend. Text needs the command's text as the element's
+ * content, and images need it to be an <img> with the command's src;
+ * images with a region are drawn as the element's background instead.
+ *
+ * @param command - Shape to draw
+ * @returns Inline style for the element
+ */
+export function drawCommandStyle(command: DrawCommand): React.CSSProperties {
+  const {
+    x,
+    y,
+    color,
+    stroke,
+    lineWidth = 1,
+    opacity = 1,
+    rotation = 0,
+    scaleX = 1,
+    scaleY = 1,
+  } = command;
+
+  const transform = [
+    "translate(-50%, -50%)",
+    rotation ? `rotate(${rotation}rad)` : "",
+    scaleX !== 1 || scaleY !== 1 ? `scale(${scaleX}, ${scaleY})` : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  const base: React.CSSProperties = {
+    position: "absolute",
+    left: x,
+    top: y,
+    opacity,
+    transform,
+    boxSizing: "border-box",
+    pointerEvents: "none",
+  };
+
+  switch (command.kind) {
+    case "rect":
+      return {
+        ...base,
+        width: command.width,
+        height: command.height,
+        backgroundColor: color,
+        border: stroke ? `${lineWidth}px solid ${stroke}` : undefined,
+        borderRadius: command.cornerRadius,
+      };
+    case "circle":
+      return {
+        ...base,
+        width: command.radius * 2,
+        height: command.radius * 2,
+        backgroundColor: color,
+        border: stroke ? `${lineWidth}px solid ${stroke}` : undefined,
+        borderRadius: "50%",
+      };
+    case "text":
+      return {
+        ...base,
+        color: color ?? "#fff",
+        fontSize: command.size,
+        fontFamily: command.font ?? DEFAULT_FONT,
+        lineHeight: 1,
+        whiteSpace: "pre",
+        WebkitTextStroke: stroke ? `${lineWidth}px ${stroke}` : undefined,
+      };
+    case "image": {
+      const { width, height, region } = command;
+      if (!region) return { ...base, width, height };
+      const ratioX = width / region.width;
+      const ratioY = height / region.height;
+      return {
+        ...base,
+        width,
+        height,
+        backgroundImage: `url("${command.src}")`,
+        backgroundPosition: `${-region.x * ratioX}px ${-region.y * ratioY}px`,
+        backgroundSize: `${region.imageWidth * ratioX}px ${
+          region.imageHeight * ratioY
+        }px`,
+        backgroundRepeat: "no-repeat",
+      };
+    }
+  }
+}
@@ -0,0 +1,499 @@
+/**
+ * Save Games
+ *
+ * Versioned save files in localStorage:
+ * - Named slots (e.g. "autosave", "slot-1"), each stored as JSON with the
+ *   game's save version and the time it was written
+ * - Games register pieces of serializable state (the player, the score,
+ *   unlocked levels...); saving collects them and loading hands each piece
+ *   back
+ * - Migrations upgrade saves written by older versions of the game, one
+ *   version at a time
+ * - Saves that can't be read, or whose data a loader rejects, are moved
+ *   aside to a backup key and reported instead of thrown, so a corrupt
+ *   blob can't crash the page
+ */
+
+/**
+ * Save File
+ *
+ * What is stored in each slot:
+ * - version: Save version of the game that wrote it
+ * - savedAt: Time it was written (milliseconds since the epoch)
+ * - data: Saved state by registered name
+ */
+export interface SaveFile {
+  version: number;
+  savedAt: number;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Save Migration Type
+ *
+ * Upgrades the data of a save by one version.
+ */
+export type SaveMigration = (
+  data: Record<string, unknown>
+) => Record<string, unknown>;
+
+/**
+ * Saveable State
+ *
+ * - save: Returns the state to store; must be JSON-serializable
+ * - load: Restores state from a save. Saved data comes from storage the
+ *   player can edit, so check its shape and throw (e.g. a SaveDataError)
+ *   rather than restore something the game can't handle
+ */
+export interface SaveableState<T = unknown> {
+  save: () => T;
+  load: (data: T) => void;
+}
+
+/**
+ * Save System Options
+ *
+ * - storageKey: Prefix of the localStorage keys; each slot is stored under
+ *   "<storageKey>:<slot>" (defaults to "game-save")
+ * - version: Current save version; bump it whenever saved state changes
+ *   shape (defaults to 1)
+ * - migrations: Upgrades by the version they upgrade to, e.g. { 2: fn }
+ *   turns a version 1 save into version 2. Versions without a migration
+ *   are assumed to be compatible
+ * - storage: Where saves are kept (defaults to localStorage; null disables
+ *   saving)
+ * - now: Clock for save times (defaults to Date.now)
+ */
+export interface SaveSystemOptions {
+  storageKey?: string;
+  version?: number;
+  migrations?: Record<number, SaveMigration>;
+  storage?: Storage | null;
+  now?: () => number;
+}
+
+/**
+ * Save Slot Info
+ *
+ * A slot that has a save in it, as listed by listSlots().
+ */
+export interface SaveSlotInfo {
+  slot: string;
+  version: number;
+  savedAt: number;
+}
+
+/**
+ * Load Result Type
+ *
+ * - loaded: The save was restored (migrated from an older version if
+ *   migratedFrom is set)
+ * - empty: There's no save in the slot
+ * - corrupt: The save couldn't be read or migrated, or a state's load
+ *   function rejected its data; it was moved to the slot's backup key and
+ *   nothing was restored
+ * - unsupported: The save was written by a newer version of the game and
+ *   was left untouched
+ */
+export type LoadResult =
+  | { status: "loaded"; slot: string; savedAt: number; migratedFrom?: number }
+  | { status: "empty"; slot: string }
+  | { status: "corrupt"; slot: string; error: string }
+  | { status: "unsupported"; slot: string; version: number };
+
+/**
+ * Save Data Error
+ *
+ * Thrown by a state's load function when the saved data isn't what it
+ * expects. The save is then treated as corrupt.
+ */
+export class SaveDataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SaveDataError";
+  }
+}
+
+/**
+ * Expect Numbers
+ *
+ * Checks saved data for a load function: it must be an object with a
+ * finite number in each of the given fields.
+ *
+ * @param data - Saved data
+ * @param fields - Fields that must hold numbers
+ * @returns The data, typed
+ * @throws SaveDataError naming the first field that's missing or invalid
+ */
+export function expectNumbers<TField extends string>(
+  data: unknown,
+  fields: TField[]
+): Record<TField, number> {
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new SaveDataError("Saved state is not an object");
+  }
+  const record = data as Record<string, unknown>;
+  fields.forEach((field) => {
+    const value = record[field];
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      throw new SaveDataError(`Saved ${field} is not a number`);
+    }
+  });
+  return record as Record<TField, number>;
+}
+
+/**
+ * Defaults
+ */
+export const DEFAULT_SAVE_STORAGE_KEY = "game-save";
+export const DEFAULT_SAVE_SLOT = "autosave";
+const BACKUP_SUFFIX = ":corrupt";
+
+/**
+ * Default Storage
+ *
+ * @returns localStorage, or null where it's unavailable (server rendering,
+ *   some private browsing modes)
+ */
+function defaultStorage(): Storage | null {
+  try {
+    return typeof window === "undefined" ? null : window.localStorage;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse Save File
+ *
+ * @returns The save file stored in a slot
+ * @throws Error describing why the blob isn't a save file
+ */
+function parseSaveFile(raw: string): SaveFile {
+  const file: unknown = JSON.parse(raw);
+  if (!file || typeof file !== "object" || Array.isArray(file)) {
+    throw new Error("Save is not an object");
+  }
+  const { version, savedAt, data } = file as Record<string, unknown>;
+  if (typeof version !== "number" || !Number.isInteger(version)) {
+    throw new Error("Save has no version");
+  }
+  if (typeof savedAt !== "number") {
+    throw new Error("Save has no save time");
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error("Save has no data");
+  }
+  return { version, savedAt, data: data as Record<string, unknown> };
+}
+
+/**
+ * Create Save System
+ *
+ * @param options - See SaveSystemOptions
+ * @returns Save system with its slot functions
+ */
+export function createSaveSystem(options: SaveSystemOptions = {}) {
+  const storageKey = options.storageKey ?? DEFAULT_SAVE_STORAGE_KEY;
+  const version = options.version ?? 1;
+  const migrations = options.migrations ?? {};
+  const storage =
+    options.storage === undefined ? defaultStorage() : options.storage;
+  const now = options.now ?? Date.now;
+
+  const states = new Map<string, SaveableState<never>>();
+
+  // Loaded state waiting for its name to be registered, and its slot
+  let pending: Record<string, unknown> = {};
+  let pendingSlot: string | null = null;
+  let lastLoad: LoadResult | null = null;
+
+  const listeners = new Set<() => void>();
+  const notify = () => listeners.forEach((listener) => listener());
+
+  const keyFor = (slot: string) => `${storageKey}:${slot}`;
+
+  /**
+   * Register
+   *
+   * Adds a piece of state to every save. If the last load had data for
+   * the name (e.g. the component registering it mounted after the load),
+   * it's restored straight away. If the state rejects that data, the save
+   * it came from is set aside as corrupt (see lastLoad).
+   *
+   * @param name - Unique name of the state in save files
+   * @param state - Save and load functions (see SaveableState)
+   * @returns Function to unregister the state
+   */
+  const register = <T>(name: string, state: SaveableState<T>) => {
+    const registered = state as unknown as SaveableState<never>;
+    states.set(name, registered);
+
+    if (name in pending) {
+      const data = pending[name];
+      delete pending[name];
+      const error = restore([[name, registered, data]]);
+      if (error && pendingSlot !== null) {
+        lastLoad = reject(pendingSlot, readRaw(pendingSlot), error);
+        notify();
+      }
+    }
+
+    return () => {
+      if (states.get(name) === registered) states.delete(name);
+    };
+  };
+
+  /**
+   * Save
+   *
+   * Writes every registered piece of state to a slot. State loaded for
+   * names that haven't been registered yet is carried over, so saving
+   * from a menu doesn't drop the player's progress.
+   *
+   * @param slot - Slot to write (defaults to "autosave")
+   * @returns Whether the save was written (false if storage is full or
+   *   unavailable)
+   */
+  const save = (slot = DEFAULT_SAVE_SLOT) => {
+    if (!storage) return false;
+
+    const data: Record<string, unknown> = { ...pending };
+    states.forEach((state, name) => {
+      data[name] = state.save();
+    });
+    const file: SaveFile = { version, savedAt: now(), data };
+
+    try {
+      storage.setItem(keyFor(slot), JSON.stringify(file));
+    } catch {
+      // Storage full or unavailable - the game carries on unsaved
+      return false;
+    }
+    notify();
+    return true;
+  };
+
+  /**
+   * Migrate
+   *
+   * Runs the migrations between a save's version and the current one.
+   */
+  const migrate = (file: SaveFile) => {
+    let data = file.data;
+    for (let next = file.version + 1; next <= version; next++) {
+      const migration = migrations[next];
+      if (migration) data = migration(data);
+    }
+    return data;
+  };
+
+  /**
+   * Set Aside
+   *
+   * Moves an unreadable save to the slot's backup key, replacing any
+   * older backup, so it can be inspected but won't be loaded again.
+   */
+  const setAside = (slot: string, raw: string) => {
+    if (!storage) return;
+    try {
+      storage.setItem(keyFor(slot) + BACKUP_SUFFIX, raw);
+    } catch {
+      // No room for the backup - drop it rather than keep failing
+    }
+    storage.removeItem(keyFor(slot));
+  };
+
+  /**
+   * Read Raw
+   *
+   * @returns The blob stored in a slot, or null if there's none
+   */
+  const readRaw = (slot: string) => {
+    try {
+      return storage?.getItem(keyFor(slot)) ?? null;
+    } catch {
+      return null;
+    }
+  };
+
+  /**
+   * Reject
+   *
+   * Gives up on a save: sets it aside and forgets its pending state.
+   */
+  const reject = (
+    slot: string,
+    raw: string | null,
+    error: unknown
+  ): LoadResult => {
+    if (raw !== null) setAside(slot, raw);
+    pending = {};
+    pendingSlot = null;
+    return { status: "corrupt", slot, error: (error as Error).message };
+  };
+
+  /**
+   * Restore
+   *
+   * Hands saved data to states. If any of them throws, every state is put
+   * back the way it was before, so a bad save can't leave the game half
+   * loaded.
+   *
+   * @returns The error thrown, or null if every state was restored
+   */
+  const restore = (
+    entries: [string, SaveableState<never>, unknown][]
+  ): unknown => {
+    const before = entries.map(([, state]) => state.save());
+    try {
+      entries.forEach(([, state, data]) => state.load(data as never));
+      return null;
+    } catch (error) {
+      entries.forEach(([, state], index) => {
+        try {
+          state.load(before[index] as never);
+        } catch {
+          // Can't undo this one - the error is reported either way
+        }
+      });
+      return error;
+    }
+  };
+
+  /**
+   * Read Slot
+   *
+   * Reads, migrates and restores a save (see load()).
+   */
+  const readSlot = (slot: string): LoadResult => {
+    const raw = readRaw(slot);
+    if (raw === null) return { status: "empty", slot };
+
+    let file: SaveFile;
+    let data: Record<string, unknown>;
+    try {
+      file = parseSaveFile(raw);
+      if (file.version > version) {
+        return { status: "unsupported", slot, version: file.version };
+      }
+      data = migrate(file);
+    } catch (error) {
+      return reject(slot, raw, error);
+    }
+
+    pending = { ...data };
+    pendingSlot = slot;
+    const entries: [string, SaveableState<never>, unknown][] = [];
+    states.forEach((state, name) => {
+      if (!(name in pending)) return;
+      entries.push([name, state, pending[name]]);
+      delete pending[name];
+    });
+    const error = restore(entries);
+    if (error) return reject(slot, raw, error);
+
+    return {
+      status: "loaded",
+      slot,
+      savedAt: file.savedAt,
+      ...(file.version < version && { migratedFrom: file.version }),
+    };
+  };
+
+  /**
+   * Load
+   *
+   * Reads a slot, migrates it to the current version and restores every
+   * registered piece of state. Data for names that aren't registered yet
+   * is kept and restored when they register.
+   *
+   * @param slot - Slot to read (defaults to "autosave")
+   * @returns What happened (see LoadResult)
+   */
+  const load = (slot = DEFAULT_SAVE_SLOT) => {
+    lastLoad = readSlot(slot);
+    notify();
+    return lastLoad;
+  };
+
+  /**
+   * Remove
+   *
+   * Deletes the save in a slot (and its backup).
+   *
+   * @param slot - Slot to clear
+   */
+  const remove = (slot: string) => {
+    try {
+      storage?.removeItem(keyFor(slot));
+      storage?.removeItem(keyFor(slot) + BACKUP_SUFFIX);
+    } catch {
+      // Nothing to remove
+    }
+    notify();
+  };
+
+  /**
+   * List Slots
+   *
+   * @returns Every slot with a readable save, most recent first
+   */
+  const listSlots = (): SaveSlotInfo[] => {
+    if (!storage) return [];
+    const prefix = `${storageKey}:`;
+    const slots: SaveSlotInfo[] = [];
+
+    try {
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i);
+        if (!key?.startsWith(prefix) || key.endsWith(BACKUP_SUFFIX)) continue;
+        try {
+          const { version: fileVersion, savedAt } = parseSaveFile(
+            storage.getItem(key) ?? ""
+          );
+          slots.push({
+            slot: key.slice(prefix.length),
+            version: fileVersion,
+            savedAt,
+          });
+        } catch {
+          // Unreadable saves are reported when they're loaded
+        }
+      }
+    } catch {
+      return [];
+    }
+
+    return slots.sort((a, b) => b.savedAt - a.savedAt);
+  };
+
+  /**
+   * Subscribe
+   *
+   * @param listener - Called after every save, load and removal
+   * @returns Function to remove the listener
+   */
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    register,
+    save,
+    load,
+    remove,
+    listSlots,
+    subscribe,
+    version,
+    /** Result of the last load, e.g. to tell the player a save was lost */
+    get lastLoad() {
+      return lastLoad;
+    },
+  };
+}
+
+export type SaveSystem = ReturnType<typeof createSaveSystem>;
@@ -0,0 +1,374 @@
+/**
+ * Scenes
+ *
+ * Splits a game into screens such as a title menu, gameplay, a pause menu
+ * and a game over screen:
+ * - Scenes are registered by name and entered with goTo(), push() or
+ *   replace()
+ * - A stack keeps the scenes underneath an overlay (e.g. gameplay under a
+ *   pause menu) alive until it's popped
+ * - Lifecycle hooks run when a scene is entered, exited, covered by
+ *   another scene and uncovered again
+ * - Each entered scene gets a scope whose event subscriptions are muted
+ *   while it's covered and removed automatically when it exits
+ *
+ * The manager is independent of React; components/SceneManager.tsx renders
+ * it inside a GameWrapper.
+ */
+
+import { BusCallback, SubscribeOptions } from "./eventBus";
+
+/**
+ * Scoped Subscribe Options
+ *
+ * - whileCovered: Keep receiving events while another scene is on top
+ *   (defaults to false)
+ */
+export interface ScopedSubscribeOptions extends SubscribeOptions {
+  whileCovered?: boolean;
+}
+
+/**
+ * Scene Scope
+ *
+ * Resources owned by one entered scene, released when it exits:
+ * - subscribe: Subscribe to a bus event for as long as the scene is on the
+ *   stack; returns a function to unsubscribe early
+ * - addCleanup: Run a function when the scene exits, e.g. to stop music
+ */
+export interface SceneScope {
+  subscribe: (
+    type: string,
+    callback: BusCallback,
+    options?: ScopedSubscribeOptions
+  ) => () => void;
+  addCleanup: (cleanup: () => void) => void;
+}
+
+/**
+ * Scene Interface
+ *
+ * - overlay: Draw over the scene below instead of replacing it, e.g. for
+ *   a pause menu (defaults to false)
+ * - onEnter: Called when the scene is entered, with its scope and params
+ * - onExit: Called when the scene leaves the stack, after its scope has
+ *   been released
+ * - onCover / onUncover: Called when another scene is pushed on top of
+ *   this one, and when it's popped again
+ */
+export interface Scene<TParams = unknown> {
+  overlay?: boolean;
+  onEnter?: (scope: SceneScope, params: TParams) => void;
+  onExit?: () => void;
+  onCover?: () => void;
+  onUncover?: () => void;
+}
+
+/**
+ * Scene Entry
+ *
+ * One scene on the stack:
+ * - id: Unique per entry, so the same scene can be entered again
+ * - name: Registered scene name
+ * - params: Params the scene was entered with
+ * - covered: Whether another scene is on top of it
+ */
+export interface SceneEntry {
+  id: number;
+  name: string;
+  params: unknown;
+  covered: boolean;
+}
+
+/**
+ * Scene Change
+ *
+ * Passed to change listeners after every stack change:
+ * - action: "goTo", "push", "pop" or "replace"
+ * - entered: Entry that was added, if any
+ * - exited: Entries that left the stack, top first
+ * - stack: The stack after the change, bottom first
+ */
+export interface SceneChange {
+  action: "goTo" | "push" | "pop" | "replace";
+  entered: SceneEntry | null;
+  exited: SceneEntry[];
+  stack: SceneEntry[];
+}
+
+/**
+ * Scene Manager Options
+ *
+ * - scenes: Scenes to register up front, by name
+ * - subscribe: Bus subscribe function that scoped subscriptions go
+ *   through, e.g. useGameLoop().subscribe
+ */
+export interface SceneManagerOptions {
+  scenes?: Record<string, Scene<never>>;
+  subscribe: (
+    type: string,
+    callback: BusCallback,
+    options?: SubscribeOptions
+  ) => () => void;
+}
+
+/**
+ * Active Scene
+ *
+ * A stack entry with its scene, scope and the scope's cleanup functions.
+ */
+interface ActiveScene {
+  entry: SceneEntry;
+  scene: Scene<never>;
+  scope: SceneScope;
+  cleanups: Set<() => void>;
+  exited: boolean;
+}
+
+/**
+ * Create Scene Manager
+ *
+ * Starts with an empty stack; enter the first scene with goTo().
+ *
+ * @param options - See SceneManagerOptions
+ * @returns Scene manager with its stack controls
+ */
+export function createSceneManager(options: SceneManagerOptions) {
+  const scenes = new Map<string, Scene<never>>(
+    Object.entries(options.scenes ?? {})
+  );
+  const stack: ActiveScene[] = [];
+  const listeners = new Set<(change: SceneChange) => void>();
+  let nextId = 0;
+
+  const snapshot = () => stack.map((active) => ({ ...active.entry }));
+
+  const notify = (
+    action: SceneChange["action"],
+    entered: ActiveScene | null,
+    exited: ActiveScene[]
+  ) => {
+    const change: SceneChange = {
+      action,
+      entered: entered ? { ...entered.entry } : null,
+      exited: exited.map((active) => ({ ...active.entry })),
+      stack: snapshot(),
+    };
+    listeners.forEach((listener) => listener(change));
+  };
+
+  /**
+   * Enter
+   *
+   * Pushes a new entry for a registered scene and runs its onEnter hook.
+   *
+   * @throws Error if no scene is registered under the name
+   */
+  const enter = (name: string, params: unknown) => {
+    const scene = scenes.get(name);
+    if (!scene) {
+      throw new Error(`Unknown scene "${name}"`);
+    }
+
+    const cleanups = new Set<() => void>();
+    const scope: SceneScope = {
+      subscribe: (type, callback, subscribeOptions = {}) => {
+        if (active.exited) return () => {};
+        const { whileCovered = false, ...busOptions } = subscribeOptions;
+        const unsubscribe = options.subscribe(
+          type,
+          (event) => {
+            if (active.entry.covered && !whileCovered) return;
+            callback(event);
+          },
+          busOptions
+        );
+        cleanups.add(unsubscribe);
+        return () => {
+          cleanups.delete(unsubscribe);
+          unsubscribe();
+        };
+      },
+      addCleanup: (cleanup) => {
+        if (active.exited) {
+          cleanup();
+          return;
+        }
+        cleanups.add(cleanup);
+      },
+    };
+
+    const active: ActiveScene = {
+      entry: { id: nextId++, name, params, covered: false },
+      scene,
+      scope,
+      cleanups,
+      exited: false,
+    };
+
+    stack.push(active);
+    active.scene.onEnter?.(scope, params as never);
+    return active;
+  };
+
+  /**
+   * Exit
+   *
+   * Releases a scene's scope, then runs its onExit hook.
+   */
+  const exit = (active: ActiveScene) => {
+    active.exited = true;
+    active.cleanups.forEach((cleanup) => cleanup());
+    active.cleanups.clear();
+    active.scene.onExit?.();
+  };
+
+  const cover = (active: ActiveScene | undefined) => {
+    if (!active || active.entry.covered) return;
+    active.entry.covered = true;
+    active.scene.onCover?.();
+  };
+
+  const uncover = (active: ActiveScene | undefined) => {
+    if (!active || !active.entry.covered) return;
+    active.entry.covered = false;
+    active.scene.onUncover?.();
+  };
+
+  /**
+   * Register
+   *
+   * Adds a scene or replaces the one registered under the same name.
+   * Entries already on the stack keep the scene they were entered with.
+   *
+   * @param name - Scene name
+   * @param scene - Lifecycle hooks and settings (see Scene)
+   * @returns Function to unregister the scene
+   */
+  const register = <TParams>(name: string, scene: Scene<TParams>) => {
+    const registered = scene as Scene<never>;
+    scenes.set(name, registered);
+    return () => {
+      if (scenes.get(name) === registered) scenes.delete(name);
+    };
+  };
+
+  /**
+   * Go To
+   *
+   * Exits every scene on the stack (top first) and enters a scene on its
+   * own, e.g. going from the title menu to gameplay.
+   *
+   * @param name - Scene to enter
+   * @param params - Passed to the scene's onEnter hook
+   */
+  const goTo = (name: string, params?: unknown) => {
+    if (!scenes.has(name)) {
+      throw new Error(`Unknown scene "${name}"`);
+    }
+    const exited = stack.splice(0).reverse();
+    exited.forEach(exit);
+    notify("goTo", enter(name, params), exited);
+  };
+
+  /**
+   * Push
+   *
+   * Enters a scene on top of the current one, which stays on the stack
+   * (covered) until this one is popped.
+   *
+   * @param name - Scene to enter
+   * @param params - Passed to the scene's onEnter hook
+   */
+  const push = (name: string, params?: unknown) => {
+    if (!scenes.has(name)) {
+      throw new Error(`Unknown scene "${name}"`);
+    }
+    cover(stack[stack.length - 1]);
+    notify("push", enter(name, params), []);
+  };
+
+  /**
+   * Pop
+   *
+   * Exits the top scene and uncovers the one below. The last scene can't
+   * be popped; use goTo() to leave it.
+   *
+   * @returns Whether a scene was popped
+   */
+  const pop = () => {
+    if (stack.length < 2) return false;
+    const top = stack.pop()!;
+    exit(top);
+    uncover(stack[stack.length - 1]);
+    notify("pop", null, [top]);
+    return true;
+  };
+
+  /**
+   * Replace
+   *
+   * Exits the top scene and enters another in its place, keeping the
+   * scenes below it covered.
+   *
+   * @param name - Scene to enter
+   * @param params - Passed to the scene's onEnter hook
+   */
+  const replace = (name: string, params?: unknown) => {
+    if (!scenes.has(name)) {
+      throw new Error(`Unknown scene "${name}"`);
+    }
+    const top = stack.pop();
+    if (top) exit(top);
+    notify("replace", enter(name, params), top ? [top] : []);
+  };
+
+  /**
+   * Clear
+   *
+   * Exits every scene, e.g. when the game is torn down.
+   */
+  const clear = () => {
+    stack.splice(0).reverse().forEach(exit);
+  };
+
+  /**
+   * On Change
+   *
+   * @param listener - Called after every stack change
+   * @returns Function to remove the listener
+   */
+  const onChange = (listener: (change: SceneChange) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Get Scope
+   *
+   * @param id - Entry ID
+   * @returns Scope of the entry, or undefined if it isn't on the stack
+   */
+  const getScope = (id: number) =>
+    stack.find((active) => active.entry.id === id)?.scope;
+
+  return {
+    register,
+    goTo,
+    push,
+    pop,
+    replace,
+    clear,
+    onChange,
+    getScope,
+    getStack: snapshot,
+    get current(): SceneEntry | null {
+      const top = stack[stack.length - 1];
+      return top ? { ...top.entry } : null;
+    },
+  };
+}
+
+export type SceneManager = ReturnType<typeof createSceneManager>;
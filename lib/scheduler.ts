@@ -0,0 +1,116 @@
+/**
+ * Frame Scheduling
+ *
+ * GameWrapper asks a scheduler for frames and a clock for the time instead
+ * of calling requestAnimationFrame and performance.now() directly. The
+ * browser versions are the defaults; the manual scheduler lets tests and
+ * headless tools step the loop one frame at a time with chosen deltas.
+ */
+
+/**
+ * Frame Callback Type
+ *
+ * Called with the frame's timestamp in milliseconds, like the callback of
+ * requestAnimationFrame.
+ */
+export type FrameCallback = (timestamp: number) => void;
+
+/**
+ * Frame Scheduler Interface
+ *
+ * - requestFrame: Schedule a callback for the next frame, returns an ID
+ * - cancelFrame: Cancel a scheduled callback by ID
+ */
+export interface FrameScheduler {
+  requestFrame: (callback: FrameCallback) => number;
+  cancelFrame: (id: number) => void;
+}
+
+/**
+ * Clock Type
+ *
+ * Returns the current time in milliseconds.
+ */
+export type Clock = () => number;
+
+/**
+ * Browser Scheduler
+ *
+ * Schedules frames with requestAnimationFrame.
+ */
+export const browserScheduler: FrameScheduler = {
+  requestFrame: (callback) => requestAnimationFrame(callback),
+  cancelFrame: (id) => cancelAnimationFrame(id),
+};
+
+/**
+ * Browser Clock
+ *
+ * Reads the high-resolution page clock.
+ */
+export const browserClock: Clock = () => performance.now();
+
+/**
+ * Create Manual Scheduler
+ *
+ * A scheduler whose frames only run when advance() is called, with a clock
+ * that only moves when frames are advanced.
+ *
+ * @param startTime - Initial clock value in milliseconds
+ * @returns Object containing:
+ *   - scheduler / clock: Pass these to GameWrapper
+ *   - advance: Move the clock forward and run every pending frame callback
+ *   - now: Current clock value
+ *   - pendingFrames: Number of callbacks waiting for the next frame
+ */
+export function createManualScheduler(startTime = 0) {
+  let now = startTime;
+  let nextId = 1;
+  const callbacks = new Map<number, FrameCallback>();
+
+  const scheduler: FrameScheduler = {
+    requestFrame: (callback) => {
+      const id = nextId++;
+      callbacks.set(id, callback);
+      return id;
+    },
+    cancelFrame: (id) => {
+      callbacks.delete(id);
+    },
+  };
+
+  const clock: Clock = () => now;
+
+  /**
+   * Advance
+   *
+   * Runs one frame. Callbacks scheduled while the frame runs wait for the
+   * next call, just like requestAnimationFrame.
+   *
+   * @param milliseconds - How far to move the clock before the frame
+   */
+  const advance = (milliseconds: number) => {
+    now += milliseconds;
+
+    const pending = Array.from(callbacks.values());
+    callbacks.clear();
+    pending.forEach((callback) => callback(now));
+  };
+
+  return {
+    scheduler,
+    clock,
+    advance,
+    get now() {
+      return now;
+    },
+    get pendingFrames() {
+      return callbacks.size;
+    },
+  };
+}
+
+/**
+ * Manual Scheduler Type
+ */
+export type ManualScheduler = ReturnType<typeof createManualScheduler>;
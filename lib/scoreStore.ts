@@ -0,0 +1,180 @@
+/**
+ * Score Store
+ *
+ * Keeps high scores in a local JSON file, so the scores API works offline
+ * and without a database. Server-only: it reads and writes the file system.
+ *
+ * - Every game and level has its own table, sorted highest first and
+ *   trimmed to MAX_SCORES_PER_TABLE
+ * - Writes are queued, so concurrent submissions can't overwrite each
+ *   other, and go to a temporary file that replaces the store in one step,
+ *   so a crash mid-write can't leave it half written
+ * - A missing file is an empty store; a file that can't be read is moved
+ *   aside and the store starts over
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { randomUUID } from "node:crypto";
+import { MAX_SCORES_PER_TABLE, ScoreEntry } from "./scores";
+
+/**
+ * Score File
+ *
+ * What the store file holds:
+ * - version: File format version
+ * - tables: Score tables by "<game>/<level>", highest first
+ */
+interface ScoreFile {
+  version: 1;
+  tables: Record<string, ScoreEntry[]>;
+}
+
+/**
+ * New Score Type
+ *
+ * An entry before the store has given it an ID and a date.
+ */
+export type NewScore = Omit<ScoreEntry, "id" | "createdAt">;
+
+const tableKey = (game: string, level: string) => `${game}/${level}`;
+
+/**
+ * Is Score File
+ *
+ * Structural check for the store file.
+ */
+function isScoreFile(value: unknown): value is ScoreFile {
+  if (!value || typeof value !== "object") return false;
+  const file = value as Record<string, unknown>;
+  return (
+    file.version === 1 &&
+    !!file.tables &&
+    typeof file.tables === "object" &&
+    Object.values(file.tables).every(Array.isArray)
+  );
+}
+
+/**
+ * Create Score Store
+ *
+ * @param filePath - JSON file the scores are kept in; created on the
+ *   first submission
+ * @returns Score store with its list and add functions
+ */
+export function createScoreStore(filePath: string) {
+  let cache: ScoreFile | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Read
+   *
+   * Loads the file once; later reads come from memory, since this process
+   * is the only one writing to it.
+   */
+  const read = async (): Promise<ScoreFile> => {
+    if (cache) return cache;
+
+    let raw: string | null = null;
+    try {
+      raw = await readFile(filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+
+    let file: unknown = null;
+    try {
+      file = raw === null ? null : JSON.parse(raw);
+    } catch {
+      file = null;
+    }
+    if (raw !== null && !isScoreFile(file)) {
+      // Keep the unreadable file for inspection and start over
+      await rename(filePath, `${filePath}.corrupt-${Date.now()}`);
+    }
+
+    cache = isScoreFile(file) ? file : { version: 1, tables: {} };
+    return cache;
+  };
+
+  /**
+   * Write
+   *
+   * Replaces the file with the given contents.
+   */
+  const write = async (file: ScoreFile) => {
+    const temporary = `${filePath}.${process.pid}.tmp`;
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(temporary, JSON.stringify(file, null, 2));
+    await rename(temporary, filePath);
+  };
+
+  /**
+   * Serialize
+   *
+   * Runs a task after every task queued before it.
+   */
+  const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = queue.then(task);
+    queue = result.catch(() => {});
+    return result;
+  };
+
+  /**
+   * List
+   *
+   * @param game - Game to list
+   * @param level - Level to list ("" for games without levels)
+   * @param limit - Maximum number of scores
+   * @returns Scores, highest first
+   */
+  const list = (game: string, level: string, limit: number) =>
+    serialize(async () => {
+      const { tables } = await read();
+      return (tables[tableKey(game, level)] ?? []).slice(0, limit);
+    });
+
+  /**
+   * Add
+   *
+   * Stores a score. Ties rank below the scores that were set first.
+   *
+   * @param score - Score to store
+   * @returns The stored entry and its rank, starting at 1; scores that
+   *   didn't make the table are ranked just below it and not stored
+   */
+  const add = (score: NewScore) =>
+    serialize(async () => {
+      const file = await read();
+      const key = tableKey(score.game, score.level);
+      const table = file.tables[key] ?? [];
+
+      const entry: ScoreEntry = {
+        id: randomUUID(),
+        ...score,
+        createdAt: new Date().toISOString(),
+      };
+      const index = table.findIndex((other) => other.score < entry.score);
+      const rank = (index === -1 ? table.length : index) + 1;
+
+      if (rank <= MAX_SCORES_PER_TABLE) {
+        const updated = [...table];
+        updated.splice(rank - 1, 0, entry);
+        const next: ScoreFile = {
+          ...file,
+          tables: {
+            ...file.tables,
+            [key]: updated.slice(0, MAX_SCORES_PER_TABLE),
+          },
+        };
+        await write(next);
+        cache = next;
+      }
+
+      return { entry, rank };
+    });
+
+  return { list, add };
+}
+
+export type ScoreStore = ReturnType<typeof createScoreStore>;
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_NAME_LENGTH,
+  MAX_QUERY_LIMIT,
+  MAX_SCORE,
+  ScoreValidationError,
+  parseScoreQuery,
+  validateScoreSubmission,
+} from "./scores";
+
+describe("validateScoreSubmission", () => {
+  const valid = { game: "platformer", name: "Ada", score: 120 };
+
+  it("accepts a valid submission and tidies the name", () => {
+    expect(
+      validateScoreSubmission({
+        ...valid,
+        level: "level-1",
+        name: "  Ada \n\t Lovelace\u0007 ",
+      })
+    ).toEqual({
+      game: "platformer",
+      level: "level-1",
+      name: "Ada Lovelace",
+      score: 120,
+    });
+  });
+
+  it("defaults the level to the game's only table", () => {
+    expect(validateScoreSubmission(valid).level).toBe("");
+    expect(validateScoreSubmission({ ...valid, level: "" }).level).toBe("");
+  });
+
+  it("drops fields it doesn't know", () => {
+    expect(
+      validateScoreSubmission({ ...valid, verified: true, rank: 1 })
+    ).not.toHaveProperty("verified");
+  });
+
+  it.each([null, "score", [valid]])("rejects a %j body", (body) => {
+    expect(() => validateScoreSubmission(body)).toThrow(ScoreValidationError);
+  });
+
+  it.each([
+    ["missing", undefined],
+    ["empty", ""],
+    ["with spaces", "my game"],
+    ["with a slash", "../scores"],
+    ["too long", "g".repeat(41)],
+  ])("rejects a game ID that is %s", (_, game) => {
+    expect(() => validateScoreSubmission({ ...valid, game })).toThrow(
+      "game must be 1-40 letters"
+    );
+  });
+
+  it("rejects an invalid level ID", () => {
+    expect(() =>
+      validateScoreSubmission({ ...valid, level: "level 1" })
+    ).toThrow("level must be 1-40 letters");
+  });
+
+  it.each([
+    ["not a string", 42],
+    ["blank", " \t\n "],
+    ["only control characters", "\u0000\u001b\u007f"],
+    ["too long", "n".repeat(MAX_NAME_LENGTH + 1)],
+  ])("rejects a name that is %s", (_, name) => {
+    expect(() => validateScoreSubmission({ ...valid, name })).toThrow(
+      ScoreValidationError
+    );
+  });
+
+  it.each([
+    ["a string", "120"],
+    ["negative", -1],
+    ["too high", MAX_SCORE + 1],
+    ["not a number", NaN],
+    ["infinite", Infinity],
+  ])("rejects a score that is %s", (_, score) => {
+    expect(() => validateScoreSubmission({ ...valid, score })).toThrow(
+      `score must be between 0 and ${MAX_SCORE}`
+    );
+  });
+});
+
+describe("parseScoreQuery", () => {
+  const query = (params: Record<string, string>) =>
+    parseScoreQuery(new URLSearchParams(params));
+
+  it("fills in the level and limit", () => {
+    expect(query({ game: "platformer" })).toEqual({
+      game: "platformer",
+      level: "",
+      limit: 10,
+    });
+    expect(query({ game: "platformer", level: "level-1", limit: "5" })).toEqual(
+      { game: "platformer", level: "level-1", limit: 5 }
+    );
+  });
+
+  it("rejects a missing or invalid game", () => {
+    expect(() => query({})).toThrow(ScoreValidationError);
+    expect(() => query({ game: "a/b" })).toThrow(ScoreValidationError);
+  });
+
+  it("rejects an invalid level", () => {
+    expect(() => query({ game: "platformer", level: "*" })).toThrow(
+      "level must be 1-40 letters"
+    );
+  });
+
+  it.each(["0", "-1", "2.5", "ten", String(MAX_QUERY_LIMIT + 1)])(
+    "rejects a limit of %s",
+    (limit) => {
+      expect(() => query({ game: "platformer", limit })).toThrow(
+        `limit must be a whole number from 1 to ${MAX_QUERY_LIMIT}`
+      );
+    }
+  );
+});
@@ -0,0 +1,335 @@
+/**
+ * High Scores
+ *
+ * Shared by the /api/scores route handlers and the games that call them:
+ * - Score entries and submissions, and the rules a submission must follow
+ * - validateScoreSubmission(), which the server runs on every request body
+ * - submitScore() and fetchScores(), the client side of the API
+ * - Local best scores, kept in localStorage so they show up offline
+ *
+ * Scores are kept per game and per level; higher scores rank first.
+ */
+
+/**
+ * Score Entry
+ *
+ * A stored score:
+ * - id: Unique ID of the entry
+ * - game: Game the score was set in, e.g. "platformer"
+ * - level: Level within the game ("" for games without levels)
+ * - name: Player name
+ * - score: The score
+ * - createdAt: ISO date the score was submitted
+ */
+export interface ScoreEntry {
+  id: string;
+  game: string;
+  level: string;
+  name: string;
+  score: number;
+  createdAt: string;
+}
+
+/**
+ * Score Submission
+ *
+ * Request body of POST /api/scores:
+ * - game / level: Where the score was set (level is optional)
+ * - name: Player name
+ * - score: The score
+ */
+export interface ScoreSubmission {
+  game: string;
+  level?: string;
+  name: string;
+  score: number;
+}
+
+/**
+ * Submitted Score
+ *
+ * Response body of POST /api/scores: the stored entry and its position in
+ * the game's (and level's) table, starting at 1.
+ */
+export interface SubmittedScore {
+  entry: ScoreEntry;
+  rank: number;
+}
+
+/**
+ * Score Query
+ *
+ * Query of GET /api/scores:
+ * - game: Game to list scores for
+ * - level: Only list scores for this level (defaults to "")
+ * - limit: Maximum number of scores (defaults to 10)
+ */
+export interface ScoreQuery {
+  game: string;
+  level?: string;
+  limit?: number;
+}
+
+/**
+ * Submission Limits
+ *
+ * - MAX_NAME_LENGTH: Longest player name, in characters
+ * - MAX_SCORE: Highest score accepted
+ * - MAX_SCORES_PER_TABLE: Scores kept per game and level; lower scores are
+ *   dropped
+ * - MAX_QUERY_LIMIT: Most scores returned by one request
+ * - MAX_SUBMISSION_BYTES: Largest request body
+ */
+export const MAX_NAME_LENGTH = 20;
+export const MAX_SCORE = 1_000_000_000;
+export const MAX_SCORES_PER_TABLE = 100;
+export const MAX_QUERY_LIMIT = 100;
+export const MAX_SUBMISSION_BYTES = 4 * 1024;
+const DEFAULT_QUERY_LIMIT = 10;
+
+// Game and level IDs: letters, digits, dashes and underscores
+const ID_PATTERN = /^[a-z0-9_-]{1,40}$/i;
+
+/**
+ * Score Validation Error
+ *
+ * Thrown when a submission or query isn't valid.
+ */
+export class ScoreValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScoreValidationError";
+  }
+}
+
+/**
+ * Validation Helpers
+ */
+function id(value: unknown, field: string): string {
+  if (typeof value !== "string" || !ID_PATTERN.test(value)) {
+    throw new ScoreValidationError(
+      `${field} must be 1-40 letters, digits, dashes or underscores`
+    );
+  }
+  return value;
+}
+
+function playerName(value: unknown): string {
+  if (typeof value !== "string") {
+    throw new ScoreValidationError("name must be a string");
+  }
+  // Collapse whitespace and drop control characters
+  const name = Array.from(value.replace(/\s+/g, " "))
+    .filter((char) => char >= " " && char !== "\u007f")
+    .join("")
+    .trim();
+  if (name.length === 0 || name.length > MAX_NAME_LENGTH) {
+    throw new ScoreValidationError(
+      `name must be 1-${MAX_NAME_LENGTH} characters`
+    );
+  }
+  return name;
+}
+
+/**
+ * Validate Score Submission
+ *
+ * @param body - Parsed request body
+ * @returns The submission with its name tidied up
+ * @throws ScoreValidationError if the submission isn't valid
+ */
+export function validateScoreSubmission(body: unknown): ScoreSubmission {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new ScoreValidationError("Submission must be an object");
+  }
+  const submission = body as Record<string, unknown>;
+
+  const { score } = submission;
+  if (
+    typeof score !== "number" ||
+    !Number.isFinite(score) ||
+    score < 0 ||
+    score > MAX_SCORE
+  ) {
+    throw new ScoreValidationError(`score must be between 0 and ${MAX_SCORE}`);
+  }
+
+  return {
+    game: id(submission.game, "game"),
+    level:
+      submission.level === undefined || submission.level === ""
+        ? ""
+        : id(submission.level, "level"),
+    name: playerName(submission.name),
+    score,
+  };
+}
+
+/**
+ * Parse Score Query
+ *
+ * @param params - URL search params of a GET request
+ * @returns Validated query
+ * @throws ScoreValidationError if the query isn't valid
+ */
+export function parseScoreQuery(
+  params: URLSearchParams
+): Required<ScoreQuery> {
+  const level = params.get("level") ?? "";
+  const limit = Number(params.get("limit") ?? DEFAULT_QUERY_LIMIT);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_QUERY_LIMIT) {
+    throw new ScoreValidationError(
+      `limit must be a whole number from 1 to ${MAX_QUERY_LIMIT}`
+    );
+  }
+  return {
+    game: id(params.get("game"), "game"),
+    level: level === "" ? "" : id(level, "level"),
+    limit,
+  };
+}
+
+/**
+ * Default storage key for local best scores
+ */
+export const BEST_SCORES_STORAGE_KEY = "game-best-scores";
+
+/**
+ * Load Best Scores
+ *
+ * Reads the player's best scores on this device. Malformed entries are
+ * ignored.
+ *
+ * @param storageKey - localStorage key to read from
+ * @returns Best scores by "<game>/<level>"
+ */
+export function loadBestScores(
+  storageKey = BEST_SCORES_STORAGE_KEY
+): Record<string, number> {
+  try {
+    const saved: unknown = JSON.parse(
+      window.localStorage.getItem(storageKey) ?? "{}"
+    );
+    if (!saved || typeof saved !== "object") return {};
+    return Object.fromEntries(
+      Object.entries(saved).filter(
+        ([, score]) => typeof score === "number" && Number.isFinite(score)
+      )
+    );
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Get Best Score
+ *
+ * @param scores - Best scores from loadBestScores()
+ * @param game - Game to look up
+ * @param level - Level to look up (defaults to the best of every level)
+ * @returns The best score, or null if the game has none
+ */
+export function getBestScore(
+  scores: Record<string, number>,
+  game: string,
+  level?: string
+): number | null {
+  if (level !== undefined) return scores[`${game}/${level}`] ?? null;
+  const best = Object.entries(scores)
+    .filter(([key]) => key.startsWith(`${game}/`))
+    .map(([, score]) => score);
+  return best.length > 0 ? Math.max(...best) : null;
+}
+
+/**
+ * Record Best Score
+ *
+ * Keeps a score on this device if it beats the player's best.
+ *
+ * @param game / level - Where the score was set
+ * @param score - The score
+ * @param storageKey - localStorage key to write to
+ * @returns Whether the score is a new best
+ */
+export function recordBestScore(
+  game: string,
+  level: string,
+  score: number,
+  storageKey = BEST_SCORES_STORAGE_KEY
+): boolean {
+  const scores = loadBestScores(storageKey);
+  const key = `${game}/${level}`;
+  if (key in scores && scores[key] >= score) return false;
+
+  scores[key] = score;
+  try {
+    window.localStorage.setItem(storageKey, JSON.stringify(scores));
+  } catch {
+    // Storage full or unavailable - the best only lasts this session
+  }
+  return true;
+}
+
+/**
+ * Read Error
+ *
+ * @returns The error message of a failed API response
+ */
+async function readError(response: Response) {
+  try {
+    const body = await response.json();
+    if (typeof body?.error === "string") return body.error as string;
+  } catch {
+    // Not JSON - fall back to the status
+  }
+  return String(response.status);
+}
+
+/**
+ * Fetch Scores
+ *
+ * @param query - Game, level and number of scores (see ScoreQuery)
+ * @param init - Optional fetch options (e.g. an AbortSignal)
+ * @returns Scores, highest first
+ * @throws Error if the request fails
+ */
+export async function fetchScores(
+  query: ScoreQuery,
+  init?: RequestInit
+): Promise<ScoreEntry[]> {
+  const params = new URLSearchParams({ game: query.game });
+  if (query.level) params.set("level", query.level);
+  if (query.limit !== undefined) params.set("limit", String(query.limit));
+
+  const response = await fetch(`/api/scores?${params}`, init);
+  if (!response.ok) {
+    throw new Error(`Failed to load scores: ${await readError(response)}`);
+  }
+  const { scores } = (await response.json()) as { scores: ScoreEntry[] };
+  return scores;
+}
+
+/**
+ * Submit Score
+ *
+ * @param submission - Score to submit (see ScoreSubmission)
+ * @param init - Optional fetch options (e.g. an AbortSignal)
+ * @returns The stored entry and its rank
+ * @throws Error if the request fails, including when the score is
+ *   rejected or the player is submitting too often
+ */
+export async function submitScore(
+  submission: ScoreSubmission,
+  init?: RequestInit
+): Promise<SubmittedScore> {
+  const response = await fetch("/api/scores", {
+    ...init,
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(submission),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to submit score: ${await readError(response)}`);
+  }
+  return (await response.json()) as SubmittedScore;
+}
@@ -0,0 +1,329 @@
+/**
+ * Sprite Sheets
+ *
+ * Describes where each animation frame sits inside a sprite sheet image:
+ * - Grid sheets: Frames of one size laid out in rows, sliced by frame size
+ * - Atlases: Frames packed anywhere in the image, read from the JSON that
+ *   TexturePacker, Aseprite and similar tools export ("hash" or "array"
+ *   format)
+ *
+ * Frames can be drawn into a draw list (see lib/render.ts) with
+ * drawSprite(), which works with every render backend.
+ */
+
+import { DrawList, DrawStyle } from "./render";
+
+/**
+ * Sprite Frame
+ *
+ * Rectangle of one frame inside the sheet image, in the image's pixels.
+ */
+export interface SpriteFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Sprite Sheet
+ *
+ * - src: Image URL
+ * - width / height: Size of the whole image
+ * - frames: Every frame, in sheet order
+ * - names: Frame index by name, for atlases (and named grid frames)
+ */
+export interface SpriteSheet {
+  src: string;
+  width: number;
+  height: number;
+  frames: SpriteFrame[];
+  names: Record<string, number>;
+}
+
+/**
+ * Frame Reference Type
+ *
+ * A frame's index in the sheet, or its name.
+ */
+export type FrameRef = number | string;
+
+/**
+ * Grid Sheet Options
+ *
+ * - frameWidth / frameHeight: Size of each frame
+ * - imageWidth / imageHeight: Size of the whole image
+ * - margin: Pixels around the outside of the grid (defaults to 0)
+ * - spacing: Pixels between frames (defaults to 0)
+ * - count: Number of frames, for grids with empty cells at the end
+ *   (defaults to every cell)
+ * - names: Names for the frames in order, e.g. ["idle", "step"]
+ */
+export interface GridSheetOptions {
+  frameWidth: number;
+  frameHeight: number;
+  imageWidth: number;
+  imageHeight: number;
+  margin?: number;
+  spacing?: number;
+  count?: number;
+  names?: string[];
+}
+
+/**
+ * Atlas Options
+ *
+ * - src: Image URL, overriding the one named in the atlas
+ * - basePath: Prefix for the atlas's image path, e.g. "/sprites/"
+ */
+export interface AtlasOptions {
+  src?: string;
+  basePath?: string;
+}
+
+/**
+ * Sprite Sheet Error
+ *
+ * Thrown when sprite sheet data or options aren't valid.
+ */
+export class SpriteSheetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SpriteSheetError";
+  }
+}
+
+/**
+ * Validation Helpers
+ */
+function record(value: unknown, path: string): Record<string, unknown> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new SpriteSheetError(`${path} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function size(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    throw new SpriteSheetError(`${path} must be a number of pixels`);
+  }
+  return value;
+}
+
+function rect(value: unknown, path: string): SpriteFrame {
+  const frame = record(value, path);
+  return {
+    x: size(frame.x, `${path}.x`),
+    y: size(frame.y, `${path}.y`),
+    width: size(frame.w, `${path}.w`),
+    height: size(frame.h, `${path}.h`),
+  };
+}
+
+/**
+ * Create Grid Sheet
+ *
+ * Slices an image into equally sized frames, left to right and top to
+ * bottom.
+ *
+ * @param src - Image URL
+ * @param options - See GridSheetOptions
+ * @returns Sprite sheet
+ * @throws SpriteSheetError if the frames don't fit in the image
+ */
+export function createGridSheet(
+  src: string,
+  options: GridSheetOptions
+): SpriteSheet {
+  const {
+    frameWidth,
+    frameHeight,
+    imageWidth,
+    imageHeight,
+    margin = 0,
+    spacing = 0,
+    names = [],
+  } = options;
+  if (frameWidth <= 0 || frameHeight <= 0) {
+    throw new SpriteSheetError("Frame size must be greater than 0");
+  }
+
+  const columns = Math.floor(
+    (imageWidth - margin * 2 + spacing) / (frameWidth + spacing)
+  );
+  const rows = Math.floor(
+    (imageHeight - margin * 2 + spacing) / (frameHeight + spacing)
+  );
+  const count = options.count ?? columns * rows;
+  if (columns < 1 || rows < 1 || count > columns * rows) {
+    throw new SpriteSheetError(
+      `${count} frames of ${frameWidth}×${frameHeight} don't fit in a ${imageWidth}×${imageHeight} image`
+    );
+  }
+
+  const frames: SpriteFrame[] = [];
+  for (let i = 0; i < count; i++) {
+    frames.push({
+      x: margin + (i % columns) * (frameWidth + spacing),
+      y: margin + Math.floor(i / columns) * (frameHeight + spacing),
+      width: frameWidth,
+      height: frameHeight,
+    });
+  }
+
+  const frameNames: Record<string, number> = {};
+  names.slice(0, count).forEach((name, index) => {
+    frameNames[name] = index;
+  });
+
+  return {
+    src,
+    width: imageWidth,
+    height: imageHeight,
+    frames,
+    names: frameNames,
+  };
+}
+
+/**
+ * Parse Atlas
+ *
+ * Reads frame rectangles from atlas JSON. Frames are named after their
+ * keys (hash format) or "filename" fields (array format), with any file
+ * extension removed, so "run_0.png" becomes "run_0". Rotated frames aren't
+ * supported; trimmed frames are drawn at their trimmed size.
+ *
+ * @param data - Atlas JSON string or parsed object
+ * @param options - See AtlasOptions
+ * @returns Sprite sheet
+ * @throws SpriteSheetError if the data isn't a supported atlas
+ */
+export function parseAtlas(
+  data: string | unknown,
+  options: AtlasOptions = {}
+): SpriteSheet {
+  let value = data;
+  if (typeof data === "string") {
+    try {
+      value = JSON.parse(data);
+    } catch {
+      throw new SpriteSheetError("Atlas is not valid JSON");
+    }
+  }
+
+  const atlas = record(value, "atlas");
+  const meta = record(atlas.meta, "meta");
+  if (!options.src && typeof meta.image !== "string") {
+    throw new SpriteSheetError("meta.image must be a string");
+  }
+  const image = options.src ?? (options.basePath ?? "") + meta.image;
+  const imageSize = record(meta.size, "meta.size");
+
+  // Both formats become a list of [name, entry] pairs
+  const entries: [string, unknown][] = Array.isArray(atlas.frames)
+    ? atlas.frames.map((entry, index) => [
+        String(record(entry, `frames[${index}]`).filename ?? index),
+        entry,
+      ])
+    : Object.entries(record(atlas.frames, "frames"));
+
+  const frames: SpriteFrame[] = [];
+  const names: Record<string, number> = {};
+  entries.forEach(([name, entry]) => {
+    const path = `frames["${name}"]`;
+    const frame = record(entry, path);
+    if (frame.rotated) {
+      throw new SpriteSheetError(
+        `${path} is rotated; export the atlas without rotation`
+      );
+    }
+    names[name.replace(/\.[^./]+$/, "")] = frames.length;
+    frames.push(rect(frame.frame, `${path}.frame`));
+  });
+
+  return {
+    src: image,
+    width: size(imageSize.w, "meta.size.w"),
+    height: size(imageSize.h, "meta.size.h"),
+    frames,
+    names,
+  };
+}
+
+/**
+ * Load Atlas
+ *
+ * Fetches atlas JSON at runtime. The image is resolved relative to the
+ * atlas's URL.
+ *
+ * @param url - Atlas URL, e.g. "/sprites/hero.json"
+ * @param init - Optional fetch options (e.g. an AbortSignal)
+ * @returns Sprite sheet
+ * @throws Error if the request fails, SpriteSheetError if the atlas can't
+ *   be read
+ */
+export async function loadAtlas(
+  url: string,
+  init?: RequestInit
+): Promise<SpriteSheet> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`Failed to load atlas ${url}: ${response.status}`);
+  }
+
+  let atlas: unknown;
+  try {
+    atlas = await response.json();
+  } catch {
+    throw new SpriteSheetError("Atlas is not valid JSON");
+  }
+
+  return parseAtlas(atlas, {
+    basePath: url.slice(0, url.lastIndexOf("/") + 1),
+  });
+}
+
+/**
+ * Get Frame
+ *
+ * @param sheet - Sprite sheet
+ * @param frame - Frame index or name
+ * @returns The frame's rectangle, or undefined if the sheet doesn't have it
+ */
+export function getFrame(
+  sheet: SpriteSheet,
+  frame: FrameRef
+): SpriteFrame | undefined {
+  return sheet.frames[typeof frame === "number" ? frame : sheet.names[frame]];
+}
+
+/**
+ * Draw Sprite
+ *
+ * Appends one frame of a sprite sheet to a draw list. Unknown frames are
+ * skipped.
+ *
+ * @param list - Draw list, e.g. from useDrawLayer()
+ * @param sheet - Sprite sheet
+ * @param frame - Frame index or name
+ * @param x / y - Center of the sprite
+ * @param width / height - Drawn size in pixels (defaults to the frame's)
+ * @param style - Opacity and transform; scaleX: -1 faces the sprite left
+ */
+export function drawSprite(
+  list: DrawList,
+  sheet: SpriteSheet,
+  frame: FrameRef,
+  x: number,
+  y: number,
+  width?: number,
+  height?: number,
+  style: DrawStyle = {}
+) {
+  const region = getFrame(sheet, frame);
+  if (!region) return;
+  list.image(sheet.src, x, y, width ?? region.width, height ?? region.height, {
+    ...style,
+    region: { ...region, imageWidth: sheet.width, imageHeight: sheet.height },
+  });
+}
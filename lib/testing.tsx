@@ -0,0 +1,278 @@
+/**
+ * Headless Game Harness
+ *
+ * Mounts a game inside a GameWrapper driven by a manual scheduler, so game
+ * logic can be exercised without a real browser (e.g. in jsdom):
+ *
+ * ```tsx
+ * const game = mountGame(<PlatformerDemo />);
+ * game.step(60, 1 / 60); // one second at 60 FPS
+ * game.press("Space");
+ * game.step(10);
+ * expect(game.eventsOf("collision")).toHaveLength(1);
+ * game.unmount();
+ * ```
+ *
+ * Every step runs inside React's act(), so state updates triggered by a
+ * frame have been rendered by the time step() returns.
+ */
+import { act } from "react";
+import { createRoot } from "react-dom/client";
+import GameWrapper, {
+  AnyGameEvent,
+  EventPayload,
+  GameEvent,
+  GameEventType,
+  GameWrapperProps,
+  useActionState,
+  useGameLoop,
+  useVirtualInput,
+} from "../components/GameWrapper";
+import { ActionState } from "./input";
+import { createManualScheduler } from "./scheduler";
+
+/**
+ * Default frame length used by step(), in seconds
+ */
+const DEFAULT_STEP = 1 / 60;
+
+/**
+ * Game Loop Type
+ *
+ * Value returned by useGameLoop() for a given event map.
+ */
+type GameLoop<TEvents extends object> = ReturnType<
+  typeof useGameLoop<TEvents>
+>;
+
+/**
+ * Harness Options
+ *
+ * - wrapperProps: Extra GameWrapper props (scheduler and clock are always
+ *   provided by the harness; autoPause and devOverlay default to false and
+ *   keyDisplay to "hidden")
+ * - container: Element to render into (defaults to a new detached div)
+ * - startTime: Initial clock value in milliseconds
+ */
+export interface HarnessOptions<TEvents extends object = object> {
+  wrapperProps?: Omit<
+    GameWrapperProps<TEvents>,
+    "children" | "scheduler" | "clock"
+  >;
+  container?: HTMLElement;
+  startTime?: number;
+}
+
+/**
+ * Probe Snapshot
+ *
+ * What the harness reads from inside the GameWrapper after each render.
+ */
+interface ProbeSnapshot<TEvents extends object> {
+  loop: GameLoop<TEvents>;
+  actions: ActionState;
+  press: (action: string, input: string) => void;
+  release: (action: string, input: string) => void;
+}
+
+/**
+ * Probe Component
+ *
+ * Renders nothing; hands the wrapper's hooks to the harness.
+ */
+function Probe<TEvents extends object>({
+  onRender,
+}: {
+  onRender: (snapshot: ProbeSnapshot<TEvents>) => void;
+}) {
+  const loop = useGameLoop<TEvents>();
+  const actions = useActionState();
+  const { press, release } = useVirtualInput();
+  onRender({ loop, actions, press, release });
+  return null;
+}
+
+/**
+ * Mount Game
+ *
+ * Renders a game headlessly and returns controls for stepping it.
+ *
+ * @param game - Game element to mount inside the GameWrapper
+ * @param options - See HarnessOptions
+ * @returns Object containing:
+ *   - step: Run frames with a fixed deltaTime or a list of deltaTimes
+ *   - press / release / tap: Drive input actions
+ *   - keyDown / keyUp: Dispatch raw keyboard events (exercises bindings)
+ *   - emit: Emit an event on the game's bus
+ *   - events / eventsOf / clearEvents: Every event emitted since mount
+ *   - loop / actions: Latest useGameLoop() and useActionState() values
+ *   - container: DOM node the game is rendered into
+ *   - now: Current clock value in milliseconds
+ *   - unmount: Tear the game down
+ */
+export function mountGame<TEvents extends object = object>(
+  game: React.ReactNode,
+  options: HarnessOptions<TEvents> = {}
+) {
+  // Tell React this is a test environment so act() works without warnings
+  (
+    globalThis as typeof globalThis & { IS_REACT_ACT_ENVIRONMENT?: boolean }
+  ).IS_REACT_ACT_ENVIRONMENT = true;
+
+  const manual = createManualScheduler(options.startTime ?? 0);
+  const container = options.container ?? document.createElement("div");
+  const root = createRoot(container);
+
+  let snapshot: ProbeSnapshot<TEvents> | null = null;
+  const events: AnyGameEvent<TEvents>[] = [];
+
+  const probe = () => {
+    if (!snapshot) {
+      throw new Error("Game harness is not mounted");
+    }
+    return snapshot;
+  };
+
+  act(() => {
+    root.render(
+      <GameWrapper<TEvents>
+        autoPause={false}
+        keyDisplay="hidden"
+        devOverlay={false}
+        {...options.wrapperProps}
+        scheduler={manual.scheduler}
+        clock={manual.clock}
+      >
+        <Probe<TEvents> onRender={(next) => (snapshot = next)} />
+        {game}
+      </GameWrapper>
+    );
+  });
+
+  // Capture every event for assertions
+  const stopCapture = probe().loop.subscribe("*", (event) => {
+    events.push(event);
+  });
+
+  // Prime the loop so the first stepped frame has a real deltaTime
+  act(() => manual.advance(0));
+  events.length = 0;
+
+  /**
+   * Step
+   *
+   * Runs frames through the game loop.
+   *
+   * @param frames - Number of frames to run
+   * @param deltaTime - Seconds per frame, or one value per frame
+   */
+  const step = (frames = 1, deltaTime: number | number[] = DEFAULT_STEP) => {
+    for (let frame = 0; frame < frames; frame++) {
+      const dt = Array.isArray(deltaTime)
+        ? deltaTime[frame] ?? DEFAULT_STEP
+        : deltaTime;
+      act(() => manual.advance(dt * 1000));
+    }
+  };
+
+  /**
+   * Press / Release / Tap
+   *
+   * Holds or releases an action from the harness. The keyChange event is
+   * delivered at the start of the next stepped frame, like real input.
+   */
+  const press = (action: string) => {
+    act(() => probe().press(action, `harness:${action}`));
+  };
+
+  const release = (action: string) => {
+    act(() => probe().release(action, `harness:${action}`));
+  };
+
+  const tap = (action: string, frames = 1) => {
+    press(action);
+    step(frames);
+    release(action);
+  };
+
+  /**
+   * Key Down / Key Up
+   *
+   * Dispatches keyboard events on window, going through the wrapper's
+   * bindings like a real key press.
+   *
+   * @param key - `KeyboardEvent.key` value, e.g. "ArrowLeft" or " "
+   */
+  const keyDown = (key: string) => {
+    act(() => {
+      window.dispatchEvent(new KeyboardEvent("keydown", { key }));
+    });
+  };
+
+  const keyUp = (key: string) => {
+    act(() => {
+      window.dispatchEvent(new KeyboardEvent("keyup", { key }));
+    });
+  };
+
+  /**
+   * Emit
+   *
+   * Emits an event on the game's bus, e.g. to simulate a game-over.
+   */
+  const emit: GameLoop<TEvents>["emit"] = (type, ...args) => {
+    act(() => probe().loop.emit(type, ...args));
+  };
+
+  /**
+   * Events Of
+   *
+   * @param type - Event type to filter by
+   * @returns Captured events of that type, oldest first
+   */
+  const eventsOf = <TType extends GameEventType<TEvents>>(type: TType) =>
+    // Events are stored untyped per type; the filter guarantees the match
+    events.filter((event) => event.type === type) as unknown as GameEvent<
+      TType,
+      EventPayload<TEvents, TType>
+    >[];
+
+  const unmount = () => {
+    stopCapture();
+    act(() => root.unmount());
+    snapshot = null;
+  };
+
+  return {
+    step,
+    press,
+    release,
+    tap,
+    keyDown,
+    keyUp,
+    emit,
+    events,
+    eventsOf,
+    clearEvents: () => {
+      events.length = 0;
+    },
+    get loop() {
+      return probe().loop;
+    },
+    get actions() {
+      return probe().actions;
+    },
+    container,
+    get now() {
+      return manual.now;
+    },
+    unmount,
+  };
+}
+
+/**
+ * Game Harness Type
+ */
+export type GameHarness<TEvents extends object = object> = ReturnType<
+  typeof mountGame<TEvents>
+>;
@@ -0,0 +1,326 @@
+/**
+ * Tiled Import
+ *
+ * Converts maps exported from the Tiled editor (File > Export As > JSON map
+ * files) into the level format from lib/level.ts:
+ * - Tile layers become level tile layers; give a layer a boolean "solid"
+ *   custom property to make its tiles collide
+ * - Objects with the type (class) "platform" become platforms, using the
+ *   optional "color" custom property
+ * - Objects with the type "spawn" become spawn points named after the
+ *   object ("player" if unnamed)
+ * - Every other object becomes an entity of its type (or name), with its
+ *   custom properties
+ * - Embedded tilesets are kept; external tilesets (.tsx/.tsj files) must be
+ *   embedded before exporting
+ *
+ * Group layers are flattened. Infinite maps and compressed tile data are
+ * not supported; export with the CSV or Base64 (uncompressed) layer format.
+ */
+
+import { Level, LevelFormatError, LEVEL_VERSION, parseLevel } from "./level";
+
+/**
+ * Tiled Import Options
+ *
+ * - name: Level name (defaults to the map's "name" property, then
+ *   "Untitled")
+ * - basePath: URL that tileset image paths are relative to, usually the
+ *   folder the map was loaded from
+ */
+export interface TiledImportOptions {
+  name?: string;
+  basePath?: string;
+}
+
+/**
+ * Tiled flags stored in the top bits of tile IDs (flips and rotation)
+ */
+const TILE_ID_MASK = 0x1fffffff;
+
+/**
+ * As Record
+ *
+ * @throws LevelFormatError if the value isn't an object
+ */
+function asRecord(value: unknown, what: string): Record<string, unknown> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new LevelFormatError(`Tiled ${what} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * As List
+ *
+ * @returns The value if it's an array, otherwise an empty list
+ */
+function asList(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Read Properties
+ *
+ * Converts Tiled's custom property list ([{ name, type, value }]) into a
+ * plain object.
+ */
+function readProperties(value: unknown): Record<string, unknown> {
+  const properties: Record<string, unknown> = {};
+  asList(value).forEach((item) => {
+    const property = asRecord(item, "property");
+    if (typeof property.name === "string") {
+      properties[property.name] = property.value;
+    }
+  });
+  return properties;
+}
+
+/**
+ * Read CSS Color
+ *
+ * Tiled writes colors as #RRGGBB or #AARRGGBB; CSS wants #RRGGBBAA.
+ */
+function readColor(value: unknown): string | undefined {
+  if (typeof value !== "string" || !value.startsWith("#")) return undefined;
+  if (value.length === 9) {
+    return `#${value.slice(3)}${value.slice(1, 3)}`;
+  }
+  return value;
+}
+
+/**
+ * Decode Tile Data
+ *
+ * Reads a tile layer's data as CSV-style numbers or uncompressed Base64,
+ * with the flip flags removed.
+ */
+function decodeTileData(layer: Record<string, unknown>): number[] {
+  if (layer.compression) {
+    throw new LevelFormatError(
+      `Tile layer "${String(layer.name)}" is compressed; export it as CSV or uncompressed Base64`
+    );
+  }
+
+  let ids: number[];
+  if (typeof layer.data === "string") {
+    // Base64: little-endian 32-bit unsigned integers
+    const bytes = Uint8Array.from(atob(layer.data.trim()), (char) =>
+      char.charCodeAt(0)
+    );
+    const view = new DataView(bytes.buffer);
+    ids = Array.from({ length: bytes.length / 4 }, (_, index) =>
+      view.getUint32(index * 4, true)
+    );
+  } else {
+    ids = asList(layer.data).map((id) => (typeof id === "number" ? id : 0));
+  }
+
+  return ids.map((id) => id & TILE_ID_MASK);
+}
+
+/**
+ * Join Path
+ *
+ * Resolves a tileset image path against the map's folder.
+ */
+function joinPath(basePath: string | undefined, path: string) {
+  if (!basePath || /^([a-z]+:|\/)/i.test(path)) return path;
+  return `${basePath.replace(/\/+$/, "")}/${path}`;
+}
+
+/**
+ * Import Tiled Map
+ *
+ * @param map - Parsed Tiled JSON map
+ * @param options - See TiledImportOptions
+ * @returns Validated level
+ * @throws LevelFormatError if the map uses unsupported features or the
+ *   converted level is invalid
+ */
+export function importTiledMap(
+  map: unknown,
+  options: TiledImportOptions = {}
+): Level {
+  const tiled = asRecord(map, "map");
+  if (tiled.infinite) {
+    throw new LevelFormatError("Infinite Tiled maps are not supported");
+  }
+
+  const columns = Number(tiled.width);
+  const rows = Number(tiled.height);
+  const tileWidth = Number(tiled.tilewidth);
+  const tileHeight = Number(tiled.tileheight);
+  const width = columns * tileWidth;
+  const height = rows * tileHeight;
+  const mapProperties = readProperties(tiled.properties);
+
+  const level = {
+    version: LEVEL_VERSION,
+    name:
+      options.name ??
+      (typeof mapProperties.name === "string" ? mapProperties.name : "Untitled"),
+    width,
+    height,
+    background: readColor(tiled.backgroundcolor),
+    platforms: [] as Record<string, unknown>[],
+    spawns: [] as Record<string, unknown>[],
+    entities: [] as Record<string, unknown>[],
+    tilesets: [] as Record<string, unknown>[],
+    tiles: [] as Record<string, unknown>[],
+    properties: mapProperties,
+  };
+
+  // IDs already taken, per list, so repeated object names stay unique
+  const usedIds = {
+    platforms: new Set<string>(),
+    spawns: new Set<string>(),
+    entities: new Set<string>(),
+  };
+  const uniqueId = (
+    kind: keyof typeof usedIds,
+    preferred: string,
+    fallback: string
+  ) => {
+    const id = preferred && !usedIds[kind].has(preferred) ? preferred : fallback;
+    usedIds[kind].add(id);
+    return id;
+  };
+
+  /**
+   * Read Object
+   *
+   * Converts one object into a platform, spawn point or entity. Positions
+   * move from Tiled's top-left origin to level-centered coordinates.
+   */
+  const readObject = (item: unknown) => {
+    const object = asRecord(item, "object");
+    const objectWidth = Number(object.width) || 0;
+    const objectHeight = Number(object.height) || 0;
+    const name = typeof object.name === "string" ? object.name : "";
+    const type = String(object.type || object.class || "");
+    const properties = readProperties(object.properties);
+
+    // Tile objects are anchored at their bottom-left corner
+    const top =
+      Number(object.y) - (object.gid !== undefined ? objectHeight : 0);
+    const x = Number(object.x) + objectWidth / 2 - width / 2;
+    const y = top + objectHeight / 2 - height / 2;
+
+    if (type.toLowerCase() === "platform") {
+      level.platforms.push({
+        id: uniqueId("platforms", name, `platform-${object.id}`),
+        x,
+        y,
+        width: objectWidth,
+        height: objectHeight,
+        color: readColor(properties.color),
+      });
+    } else if (type.toLowerCase() === "spawn") {
+      level.spawns.push({
+        id: uniqueId("spawns", name || "player", `spawn-${object.id}`),
+        x,
+        y,
+      });
+    } else {
+      const entityType = type || name || "object";
+      level.entities.push({
+        id: uniqueId("entities", name, `${entityType}-${object.id}`),
+        type: entityType,
+        x,
+        y,
+        ...(objectWidth > 0 ? { width: objectWidth } : {}),
+        ...(objectHeight > 0 ? { height: objectHeight } : {}),
+        ...(Object.keys(properties).length > 0 ? { properties } : {}),
+      });
+    }
+  };
+
+  /**
+   * Read Layer
+   *
+   * Converts a layer, descending into group layers.
+   */
+  const readLayer = (item: unknown) => {
+    const layer = asRecord(item, "layer");
+
+    switch (layer.type) {
+      case "tilelayer": {
+        const properties = readProperties(layer.properties);
+        level.tiles.push({
+          name: String(layer.name || `layer-${level.tiles.length}`),
+          tileWidth,
+          tileHeight,
+          columns: Number(layer.width),
+          rows: Number(layer.height),
+          data: decodeTileData(layer),
+          ...(properties.solid === true ? { solid: true } : {}),
+        });
+        break;
+      }
+      case "objectgroup":
+        asList(layer.objects).forEach(readObject);
+        break;
+      case "group":
+        asList(layer.layers).forEach(readLayer);
+        break;
+      // Image layers carry no gameplay data
+    }
+  };
+
+  asList(tiled.layers).forEach(readLayer);
+
+  asList(tiled.tilesets).forEach((item) => {
+    const tileset = asRecord(item, "tileset");
+    if (typeof tileset.source === "string") {
+      throw new LevelFormatError(
+        `Tileset "${tileset.source}" is external; embed it in the map before exporting`
+      );
+    }
+    level.tilesets.push({
+      name: tileset.name,
+      firstGid: tileset.firstgid,
+      image: joinPath(options.basePath, String(tileset.image)),
+      tileWidth: tileset.tilewidth,
+      tileHeight: tileset.tileheight,
+      columns: tileset.columns,
+      tileCount: tileset.tilecount,
+    });
+  });
+
+  // Drop unset optional fields, then validate the result like any level
+  return parseLevel(JSON.parse(JSON.stringify(level)));
+}
+
+/**
+ * Load Tiled Map
+ *
+ * Fetches a Tiled JSON map at runtime and converts it. Tileset images are
+ * resolved relative to the map's URL.
+ *
+ * @param url - Map URL, e.g. "/levels/cave.tmj"
+ * @param init - Optional fetch options (e.g. an AbortSignal)
+ * @returns Validated level
+ * @throws Error if the request fails, LevelFormatError if the map can't be
+ *   converted
+ */
+export async function loadTiledMap(
+  url: string,
+  init?: RequestInit
+): Promise<Level> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`Failed to load Tiled map ${url}: ${response.status}`);
+  }
+
+  let map: unknown;
+  try {
+    map = await response.json();
+  } catch {
+    throw new LevelFormatError("Tiled map is not valid JSON");
+  }
+
+  return importTiledMap(map, {
+    basePath: url.slice(0, url.lastIndexOf("/") + 1),
+  });
+}